@@ -1,208 +1,316 @@
-import { useState } from 'react';
-import { analyzeLogsWithOpenAI } from './openai';
+import { useState, useCallback, useRef, useMemo, useEffect } from 'react';
+import { getLLMProvider, LOCAL_ANALYSIS_SETTINGS } from './llm';
+import { isAbortError } from './llm/http';
+import { planAnalysis, runAnalysisPlan, AnalysisPlan } from './llm/mapReduce';
+import { summarizeLogs } from './localAnalysis';
+import { DEFAULT_MASKING_RULES } from './masking';
+import { exportMaskingReport } from './maskingReport';
+import { scanForLeaks } from './leakScanner';
+import { EMPTY_FILTERS, listSources } from './logFilter';
+import { collectQueryValues } from './query';
+import { createSessionSalt, PseudonymTable } from './pseudonymize';
+import { createMaskingVault } from './vault';
+import { analyzeInWorker, maskInWorker, patternsInWorker, timelineInWorker } from './worker/client';
+import { WorkerMemoryError } from './worker/protocol';
 import LogUploadSection from './components/LogUploadSection';
 import FilterControls from './components/FilterControls';
 import LogPreview from './components/LogPreview';
 import AnalysisResults from './components/AnalysisResults';
-import { LogEntry, FilterOptions, AnalysisResult } from './types';
+import MaskingRulesManager from './components/MaskingRulesManager';
+import RevealAuditLog from './components/RevealAuditLog';
+import MaskingReportPanel from './components/MaskingReportPanel';
+import LeakScanDialog from './components/LeakScanDialog';
+import ProviderSettings from './components/ProviderSettings';
+import ChatPanel from './components/ChatPanel';
+import PatternsPanel from './components/PatternsPanel';
+import LogHistogram from './components/LogHistogram';
+import {
+  LogEntry,
+  FilterOptions,
+  AnalysisResult,
+  AnalysisFinding,
+  MaskingRule,
+  MaskingMode,
+  MaskingReport,
+  RevealAuditEntry,
+  LeakFinding,
+  LeakScanOverride,
+  LLMSettings,
+  LogPattern,
+  BucketInterval,
+  UploadProgress,
+  WorkerProgress,
+} from './types';
 
 function App() {
   const [logs, setLogs] = useState<LogEntry[]>([]);
   const [maskedLogs, setMaskedLogs] = useState<LogEntry[]>([]);
-  const [filters, setFilters] = useState<FilterOptions>({
-    timestampRange: { start: '', end: '' },
-    logLevel: '',
-    keyword: '',
-    component: '',
-    responseCode: '',
-  });
+  const [filters, setFilters] = useState<FilterOptions>(EMPTY_FILTERS);
   const [analysisResult, setAnalysisResult] = useState<AnalysisResult | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [isMasking, setIsMasking] = useState(false);
+  const [maskingRules, setMaskingRules] = useState<MaskingRule[]>(DEFAULT_MASKING_RULES);
+  const [maskingMode, setMaskingMode] = useState<MaskingMode>('redact');
+  const [maskingReport, setMaskingReport] = useState<MaskingReport | null>(null);
+  // Token -> original value, kept in memory only so pseudonyms can be revealed locally
+  const [vault] = useState(() => createMaskingVault());
+  // One salt per browser session, and the tokens handed out so far, keep
+  // tokens stable across re-masking
+  const [sessionSalt] = useState(createSessionSalt);
+  const [pseudonymTable] = useState<PseudonymTable>(() => new Map());
+  const [maskingProgress, setMaskingProgress] = useState<WorkerProgress | null>(null);
+  const maskAbortRef = useRef<AbortController | null>(null);
+  const [revealAudit, setRevealAudit] = useState<RevealAuditEntry[]>([]);
   const [filteredCount, setFilteredCount] = useState<number | undefined>(undefined);
-  const [useOpenAI, setUseOpenAI] = useState(false);
-  const [openAIApiKey, setOpenAIApiKey] = useState('OpenAI-Key');
+  const [llmSettings, setLlmSettings] = useState<LLMSettings>(LOCAL_ANALYSIS_SETTINGS);
   const [aiRawResult, setAiRawResult] = useState<string | null>(null);
+  // A request held back by the leak scanner, waiting for cancel or override
+  const [pendingLeakScan, setPendingLeakScan] = useState<{ findings: LeakFinding[]; onProceed: () => void } | null>(null);
+  const [analysisProgress, setAnalysisProgress] = useState<UploadProgress | null>(null);
+  // Text streamed so far for the request in flight
+  const [streamingResponse, setStreamingResponse] = useState<{ step: string; text: string } | null>(null);
+  const analysisAbortRef = useRef<AbortController | null>(null);
+  const [leakOverrides, setLeakOverrides] = useState<LeakScanOverride[]>([]);
+  const [highlightedLog, setHighlightedLog] = useState<{ id: string } | null>(null);
+  const [bucketInterval, setBucketInterval] = useState<BucketInterval>('auto');
 
-  // Move maskHeaders above its first usage
-  const maskHeaders = (headers: Record<string, string>): Record<string, string> => {
-    const maskedHeaders = { ...headers };
-    Object.keys(maskedHeaders).forEach(key => {
-      if (key.toLowerCase().includes('authorization') || 
-          key.toLowerCase().includes('token') || 
-          key.toLowerCase().includes('key')) {
-        maskedHeaders[key] = '***MASKED***';
-      }
-    });
-    return maskedHeaders;
-  };
+  const previewLogs = maskedLogs.length > 0 ? maskedLogs : logs;
+  const [patterns, setPatterns] = useState<LogPattern[]>([]);
+  // Bumped to mine again when a cancelled job took the worker down mid-way
+  const [patternsAttempt, setPatternsAttempt] = useState(0);
+  const sources = useMemo(() => listSources(logs), [logs]);
+  const queryValues = useMemo(() => collectQueryValues(logs), [logs]);
+
+  useEffect(() => {
+    setPatterns([]);
+    if (previewLogs.length === 0) return;
+    let isCurrent = true;
+    patternsInWorker(previewLogs)
+      .then(mined => {
+        if (isCurrent) setPatterns(mined);
+      })
+      .catch(error => {
+        if (!isCurrent) return;
+        if (isAbortError(error)) {
+          setPatternsAttempt(prev => prev + 1);
+          return;
+        }
+        console.error('Error mining patterns:', error);
+      });
+    return () => {
+      isCurrent = false;
+    };
+  }, [previewLogs, patternsAttempt]);
 
   const handleLogsUpload = (uploadedLogs: LogEntry[]) => {
     setLogs(uploadedLogs);
     setMaskedLogs([]);
+    setMaskingReport(null);
     setAnalysisResult(null);
+    setAiRawResult(null);
+    // Revealed tokens belong to the logs they were revealed in
+    setRevealAudit([]);
+    // Sources and ids belong to the previous upload
+    setFilters(prev => ({ ...prev, source: '', logIds: [] }));
   };
 
   const handleMaskLogs = async () => {
+    const controller = new AbortController();
+    maskAbortRef.current = controller;
     setIsMasking(true);
     try {
-      // Simulate masking API call
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      
-      // Simple client-side masking simulation
-      const masked = logs.map(log => ({
-        ...log,
-        message: maskSensitiveData(log.message),
-        url: maskUrl(log.url || ''),
-        headers: maskHeaders(log.headers || {}),
-      }));
+      // Client-side masking with the user's rule set, in the log worker. New
+      // pseudonyms come back with the result for the local vault and table.
+      const { maskedLogs: masked, report, vaultEntries, pseudonyms } = await maskInWorker(
+        logs,
+        maskingRules,
+        maskingMode,
+        maskingMode === 'pseudonymize' ? { salt: sessionSalt, table: pseudonymTable } : undefined,
+        { onProgress: setMaskingProgress, signal: controller.signal }
+      );
+      vaultEntries.forEach(([token, original]) => vault.record(token, original));
+      pseudonyms.forEach(([key, token]) => pseudonymTable.set(key, token));
       
       setMaskedLogs(masked);
+      setMaskingReport(report);
     } catch (error) {
+      if (isAbortError(error)) {
+        console.log('Masking cancelled');
+        return;
+      }
       console.error('Error masking logs:', error);
+      alert(error instanceof WorkerMemoryError ? error.message : 'Error masking logs. Please try again.');
     } finally {
+      maskAbortRef.current = null;
       setIsMasking(false);
+      setMaskingProgress(null);
+    }
+  };
+
+  // Send prompts that passed the leak scan, or that the user explicitly let through
+  const submitToLLM = async (plan: AnalysisPlan) => {
+    const controller = new AbortController();
+    analysisAbortRef.current = controller;
+    const previousResult = analysisResult;
+    const previousRawResult = aiRawResult;
+    setIsAnalyzing(true);
+    setAiRawResult(null);
+    // Show the results panel right away so the response can stream into it
+    setAnalysisResult({ summary: summarizeLogs(maskedLogs), insights: [], recommendations: [], criticalIssues: [] });
+    setStreamingResponse({ step: '', text: '' });
+    try {
+      const aiResult = await runAnalysisPlan(plan, llmSettings, {
+        onProgress: setAnalysisProgress,
+        onStream: (text, step) => setStreamingResponse({ step, text }),
+        signal: controller.signal,
+      });
+      setAiRawResult(aiResult.raw);
+      setAnalysisResult({
+        summary: summarizeLogs(maskedLogs),
+        insights: aiResult.insights,
+        recommendations: aiResult.recommendations,
+        criticalIssues: aiResult.criticalIssues,
+        timeline: await timelineInWorker(maskedLogs, bucketInterval),
+      });
+    } catch (error) {
+      setAnalysisResult(previousResult);
+      setAiRawResult(previousRawResult);
+      if (isAbortError(error)) {
+        console.log('Analysis cancelled');
+        return;
+      }
+      console.error('Error analyzing logs:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      alert(`Error analyzing logs: ${errorMessage}`);
+    } finally {
+      analysisAbortRef.current = null;
+      setIsAnalyzing(false);
+      setAnalysisProgress(null);
+      setStreamingResponse(null);
     }
   };
 
+  const handleCancelAnalysis = () => {
+    analysisAbortRef.current?.abort();
+  };
+
+  const handleLeakOverride = () => {
+    if (!pendingLeakScan) return;
+    const { findings, onProceed } = pendingLeakScan;
+    const override: LeakScanOverride = {
+      overriddenAt: new Date().toISOString(),
+      findingCount: findings.length,
+      kinds: [...new Set(findings.map(f => f.kind))],
+    };
+    console.warn('Leak scan overridden by user', override);
+    setLeakOverrides(prev => [...prev, override]);
+    setPendingLeakScan(null);
+    onProceed();
+  };
+
   const handleAnalyzeLogs = async () => {
     console.log('handleAnalyzeLogs called', { 
       maskedLogsLength: maskedLogs.length,
-      useOpenAI,
-      hasApiKey: !!openAIApiKey
+      provider: llmSettings.provider,
+      hasApiKey: !!llmSettings.apiKey
     });
     
     if (maskedLogs.length === 0) {
       alert('Please mask logs first before analysis');
       return;
     }
+
+    if (llmSettings.provider !== 'local') {
+      console.log(`Preparing logs for ${getLLMProvider(llmSettings.provider).name} analysis...`);
+      // Large logs go out in several prompts. Scan exactly what would be sent;
+      // anything found blocks until the user decides.
+      const plan = planAnalysis(maskedLogs, llmSettings);
+      const { parts } = plan;
+      const findings = parts.flatMap((part, index) =>
+        scanForLeaks(part.prompt).map(finding =>
+          parts.length > 1 ? { ...finding, promptLabel: `part ${index + 1} of ${parts.length}` } : finding
+        )
+      );
+      if (findings.length > 0) {
+        setPendingLeakScan({ findings, onProceed: () => submitToLLM(plan) });
+        return;
+      }
+      await submitToLLM(plan);
+      return;
+    }
+
+    const controller = new AbortController();
+    analysisAbortRef.current = controller;
     setIsAnalyzing(true);
     setAiRawResult(null);
     try {
-      if (useOpenAI && openAIApiKey) {
-        console.log('Preparing logs for OpenAI analysis...');
-        // Send masked logs to OpenAI for analysis
-        const logLines = maskedLogs.map(l => `[${l.timestamp}] [${l.level}]${l.component ? ' [' + l.component + ']' : ''} ${l.message}`);
-        const aiResult = await analyzeLogsWithOpenAI(logLines, openAIApiKey);
-        setAiRawResult(aiResult);
-        // Try to parse AI result into insights, recommendations, critical issues
-        // (Assume AI returns markdown or plain text, so we just show it in the UI)
-        setAnalysisResult({
-          summary: {
-            totalLogs: maskedLogs.length,
-            errorCount: maskedLogs.filter(l => l.level === 'ERROR').length,
-            warningCount: maskedLogs.filter(l => l.level === 'WARN').length,
-            infoCount: maskedLogs.filter(l => l.level === 'INFO').length,
-            debugCount: maskedLogs.filter(l => l.level === 'DEBUG').length,
-          },
-          insights: [aiResult],
-          recommendations: [],
-          criticalIssues: [],
-        });
+      // Local heuristic analysis in the log worker - nothing leaves the browser
+      setAnalysisResult(await analyzeInWorker(maskedLogs, bucketInterval, { signal: controller.signal }));
+    } catch (error) {
+      if (isAbortError(error)) {
+        console.log('Analysis cancelled');
         return;
       }
-      // ...existing code for local analysis...
-      // ...existing code...
-    } catch (error) {
       console.error('Error analyzing logs:', error);
       // Show more specific error message
       const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
       alert(`Error analyzing logs: ${errorMessage}`);
     } finally {
+      analysisAbortRef.current = null;
       setIsAnalyzing(false);
     }
   };
 
-  const maskSensitiveData = (message: string): string => {
-    return message
-      // Authentication and authorization
-      .replace(/password[=:]\s*[^\s&,;)}\]'"]+/gi, 'password=***MASKED***')
-      .replace(/token[=:]\s*[^\s&,;)}\]'"]+/gi, 'token=***MASKED***')
-      .replace(/api[_-]?key[=:]\s*[^\s&,;)}\]'"]+/gi, 'api_key=***MASKED***')
-      .replace(/Bearer\s+[^\s&,;)}\]'"]+/gi, 'Bearer ***MASKED***')
-      .replace(/Basic\s+[^\s&,;)}\]'"]+/gi, 'Basic ***MASKED***')
-      .replace(/jwt[=:]\s*[^\s&,;)}\]'"]+/gi, 'jwt=***MASKED***')
-      .replace(/session[=:]\s*[^\s&,;)}\]'"]+/gi, 'session=***MASKED***')
-      
-      // Enhanced URL masking - handle full URLs in log messages
-      .replace(/https?:\/\/[^\s,;)}\]'"]+/gi, (match) => {
-        return maskUrl(match);
-      })
-      
-      // Mask relative URLs with query parameters
-      .replace(/\/[^\s?]*\?[^\s,;)}\]'"]+/g, (match) => {
-        return maskUrl(match);
-      })
-      
-      // Network and IP addresses
-      .replace(/\b\d{1,3}\.\d{1,3}\.\d{1,3}\.\d{1,3}\b/g, '***IP_MASKED***')
-      // IPv6 - Conservative patterns that avoid timestamp false positives
-      .replace(/\b(?:[0-9a-fA-F]{1,4}:){7}[0-9a-fA-F]{1,4}\b/g, '***IPv6_MASKED***')
-      .replace(/\b(?:[0-9a-fA-F]{1,4}:){1,6}:[0-9a-fA-F]{1,4}\b/g, '***IPv6_MASKED***')
-      .replace(/\b::(?:[0-9a-fA-F]{1,4}:)*[0-9a-fA-F]{1,4}\b/g, '***IPv6_MASKED***')
-      .replace(/\b[0-9a-fA-F]{1,4}::(?:[0-9a-fA-F]{1,4}:)*[0-9a-fA-F]{1,4}\b/g, '***IPv6_MASKED***')
-      
-      // Email addresses
-      .replace(/\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Z|a-z]{2,}\b/g, '***EMAIL_MASKED***')
-      
-      // Phone numbers
-      .replace(/\b(?:\+?1[-.\s]?)?\(?[0-9]{3}\)?[-.\s]?[0-9]{3}[-.\s]?[0-9]{4}\b/g, '***PHONE_MASKED***')
-      
-      // Credit card numbers (basic pattern)
-      .replace(/\b(?:4[0-9]{12}(?:[0-9]{3})?|5[1-5][0-9]{14}|3[47][0-9]{13}|3[0-9]{13}|6(?:011|5[0-9]{2})[0-9]{12})\b/g, '***CARD_MASKED***')
-      
-      // Social Security Numbers
-      .replace(/\b\d{3}-\d{2}-\d{4}\b/g, '***SSN_MASKED***')
-      
-      // Database connection strings
-      .replace(/server[=:][^\s;,)}\]]+/gi, 'server=***MASKED***')
-      .replace(/database[=:][^\s;,)}\]]+/gi, 'database=***MASKED***')
-      .replace(/user[=:][^\s;,)}\]]+/gi, 'user=***MASKED***')
-      .replace(/uid[=:][^\s;,)}\]]+/gi, 'uid=***MASKED***')
-      .replace(/pwd[=:][^\s;,)}\]]+/gi, 'pwd=***MASKED***')
-      
-      // File paths that might contain sensitive info
-      .replace(/[A-Za-z]:\\(?:[^\\/:*?"<>|\r\n]+\\)*[^\\/:*?"<>|\r\n]*/g, '***PATH_MASKED***')
-      .replace(/\/(?:home|Users)\/[^\s,;)}\]]+/g, '***PATH_MASKED***')
-      
-      // UUIDs
-      .replace(/\b[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}\b/gi, '***UUID_MASKED***')
-      
-      // Potential secrets or hashes
-      .replace(/\b[A-Za-z0-9+/]{32,}={0,2}\b/g, (match) => {
-        // Only mask if it looks like a hash or encoded value
-        if (match.length >= 32 && /[A-Z]/.test(match) && /[a-z]/.test(match) && /[0-9]/.test(match)) {
-          return '***HASH_MASKED***';
-        }
-        return match;
-      });
+  // Chat questions go through the same leak scan as the analysis prompts
+  const handleChatBeforeSend = (text: string, send: () => void) => {
+    const findings = scanForLeaks(text).map(finding => ({ ...finding, promptLabel: 'chat' }));
+    if (findings.length > 0) {
+      setPendingLeakScan({ findings, onProceed: send });
+      return;
+    }
+    send();
   };
 
-  const maskUrl = (url: string): string => {
-    if (!url) return url;
-    
+  // Local findings include the anomalies, so they are recomputed; an AI
+  // result keeps its findings and only gets a new timeline
+  const handleBucketIntervalChange = async (interval: BucketInterval) => {
+    setBucketInterval(interval);
+    if (!analysisResult || isAnalyzing) return;
     try {
-      const urlObj = new URL(url);
-      // Mask username and password if present
-      if (urlObj.username || urlObj.password) {
-        urlObj.username = '***';
-        urlObj.password = '***';
-      }
-      
-      // Mask sensitive query parameters
-      const sensitiveParams = ['token', 'key', 'password', 'secret', 'auth'];
-      urlObj.searchParams.forEach((_, key) => {
-        if (sensitiveParams.some(param => key.toLowerCase().includes(param))) {
-          urlObj.searchParams.set(key, '***MASKED***');
-        }
-      });
-      
-      return urlObj.toString();
-    } catch {
-      // If URL parsing fails, do basic masking of query parameters
-      return url.replace(/([?&](token|key|password|secret|auth)[^=]*=)[^&]*/gi, '$1***MASKED***');
+      setAnalysisResult(aiRawResult === null
+        ? await analyzeInWorker(maskedLogs, interval)
+        : { ...analysisResult, timeline: await timelineInWorker(maskedLogs, interval) });
+    } catch (error) {
+      if (isAbortError(error)) return;
+      console.error('Error detecting anomalies:', error);
+      alert('Error updating the timeline. Please try again.');
     }
-  }
+  };
+
+  const handleTimestampRangeChange = (timestampRange: FilterOptions['timestampRange']) =>
+    setFilters(prev => ({ ...prev, timestampRange }));
+
+  // Show exactly the entries a finding is based on
+  const handleShowEvidence = (logIds: string[]) => setFilters({ ...EMPTY_FILTERS, logIds });
+
+  const handleSelectPattern = (pattern: LogPattern) => setFilters({ ...EMPTY_FILTERS, logIds: pattern.logIds });
+
+  const handleLogSelect = useCallback((logId: string) => setHighlightedLog({ id: logId }), []);
+
+  // Audit which tokens were revealed where; the original values are never stored here
+  const recordReveal = useCallback((location: string, tokens: string[]) => {
+    setRevealAudit(prev => {
+      const seen = new Set(prev.map(entry => `${entry.location}:${entry.token}`));
+      const revealedAt = new Date().toISOString();
+      const added = tokens
+        .filter(token => !seen.has(`${location}:${token}`))
+        .map(token => ({ token, location, revealedAt }));
+      return added.length > 0 ? [...prev, ...added] : prev;
+    });
+  }, []);
+
+  const handlePreviewReveal = useCallback((tokens: string[]) => recordReveal('Log preview', tokens), [recordReveal]);
+  const handleResultsReveal = useCallback((tokens: string[]) => recordReveal('Analysis results', tokens), [recordReveal]);
 
   const exportMaskedLogs = () => {
     if (maskedLogs.length === 0) {
@@ -215,6 +323,7 @@ function App() {
         let line = `${log.timestamp} ${log.level} [${log.component || 'Unknown'}] ${log.message}`;
         if (log.url) line += ` URL: ${log.url}`;
         if (log.responseCode) line += ` Status: ${log.responseCode}`;
+        if (log.stackTrace) line += `\n${log.stackTrace}`;
         return line;
       }).join('\n');
 
@@ -233,6 +342,36 @@ function App() {
     }
   };
 
+  const exportMaskingAudit = () => {
+    if (!maskingReport) {
+      alert('No masking report to export');
+      return;
+    }
+
+    try {
+      const blob = new Blob([exportMaskingReport(maskingReport)], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `masking-report-${new Date().toISOString().split('T')[0]}.json`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Error exporting masking report:', error);
+      alert('Error exporting masking report. Please try again.');
+    }
+  };
+
+  const formatFindingForReport = (finding: AnalysisFinding, index: number) => {
+    const details = [
+      finding.components.length > 0 && `components: ${finding.components.join(', ')}`,
+      finding.logIds.length > 0 && `logs: ${finding.logIds.join(', ')}`,
+    ].filter(Boolean);
+    return `${index + 1}. [${finding.severity.toUpperCase()}] ${finding.text}${details.length > 0 ? ` (${details.join('; ')})` : ''}`;
+  };
+
   const exportAnalysisReport = () => {
     if (!analysisResult) {
       alert('No analysis results to export');
@@ -255,16 +394,20 @@ Debug Count: ${analysisResult.summary.debugCount}
 
 INSIGHTS
 --------
-${analysisResult.insights.map((insight: string, i: number) => `${i + 1}. ${insight}`).join('\n')}
+${analysisResult.insights.map(formatFindingForReport).join('\n')}
 
 RECOMMENDATIONS
 ---------------
-${analysisResult.recommendations.map((rec: string, i: number) => `${i + 1}. ${rec}`).join('\n')}
+${analysisResult.recommendations.map(formatFindingForReport).join('\n')}
 
 CRITICAL ISSUES
 ---------------
-${analysisResult.criticalIssues.map((issue: string, i: number) => `${i + 1}. ${issue}`).join('\n')}
-`;
+${analysisResult.criticalIssues.map(formatFindingForReport).join('\n')}
+${leakOverrides.length > 0 ? `
+LEAK SCAN OVERRIDES
+-------------------
+${leakOverrides.map(o => `${o.overriddenAt}: sent despite ${o.findingCount} finding(s) (${o.kinds.join(', ')})`).join('\n')}
+` : ''}`;
 
       const blob = new Blob([report], { type: 'text/plain' });
       const url = URL.createObjectURL(blob);
@@ -283,6 +426,14 @@ ${analysisResult.criticalIssues.map((issue: string, i: number) => `${i + 1}. ${i
 
   return (
     <div className="min-h-screen bg-gray-50 flex flex-col">
+      {pendingLeakScan && (
+        <LeakScanDialog
+          findings={pendingLeakScan.findings}
+          onCancel={() => setPendingLeakScan(null)}
+          onOverride={handleLeakOverride}
+        />
+      )}
+
       <div className="flex-1 w-full max-w-screen-2xl mx-auto px-4 py-6 sm:px-6 sm:py-8 md:px-8 md:py-12">
         {/* Header */}
         <div className="text-center mb-6 md:mb-8">
@@ -312,9 +463,51 @@ ${analysisResult.criticalIssues.map((issue: string, i: number) => `${i + 1}. ${i
                   onFiltersChange={setFilters}
                   totalLogs={logs.length}
                   filteredCount={filteredCount}
+                  sources={sources}
+                  queryValues={queryValues}
+                />
+
+                <MaskingRulesManager
+                  rules={maskingRules}
+                  onRulesChange={setMaskingRules}
                 />
 
                 <div className="bg-white rounded-lg shadow-md p-4 md:p-6">
+                  {/* Masking Mode */}
+                  <fieldset className="mb-4">
+                    <legend className="text-sm font-medium text-gray-700 mb-2">Masking mode</legend>
+                    <div className="flex flex-col sm:flex-row gap-2 sm:gap-6">
+                      <label className="flex items-center gap-2 text-sm text-gray-900">
+                        <input
+                          type="radio"
+                          name="maskingMode"
+                          value="redact"
+                          checked={maskingMode === 'redact'}
+                          onChange={() => setMaskingMode('redact')}
+                          className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300"
+                        />
+                        Redact (***IP_MASKED***)
+                      </label>
+                      <label className="flex items-center gap-2 text-sm text-gray-900">
+                        <input
+                          type="radio"
+                          name="maskingMode"
+                          value="pseudonymize"
+                          checked={maskingMode === 'pseudonymize'}
+                          onChange={() => setMaskingMode('pseudonymize')}
+                          className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300"
+                        />
+                        Pseudonymize (IP_1, EMAIL_2)
+                      </label>
+                    </div>
+                    {maskingMode === 'pseudonymize' && (
+                      <p className="mt-1 text-xs text-gray-500">
+                        Each distinct value gets a stable token for this session, so repeated clients and users stay recognizable.
+                        Passwords, tokens and API keys in messages stay redacted.
+                      </p>
+                    )}
+                  </fieldset>
+
                   <div className="flex flex-col sm:flex-row gap-4 mb-6">
                     <button
                       onClick={handleMaskLogs}
@@ -347,6 +540,63 @@ ${analysisResult.criticalIssues.map((issue: string, i: number) => `${i + 1}. ${i
                     </button>
                   </div>
 
+                  {/* Masking Progress */}
+                  {isMasking && (
+                    <div className="mb-4">
+                      <div className="flex justify-between text-xs text-gray-600 mb-1">
+                        <span>Masking {maskingProgress ? `${maskingProgress.loaded} of ${maskingProgress.total} entries` : 'entries'}</span>
+                        <span className="flex items-center gap-3">
+                          {maskingProgress && `${maskingProgress.percentage}%`}
+                          <button
+                            onClick={() => maskAbortRef.current?.abort()}
+                            className="text-blue-700 hover:text-blue-900 font-medium"
+                          >
+                            Cancel
+                          </button>
+                        </span>
+                      </div>
+                      <div className="w-full bg-gray-200 rounded-full h-2">
+                        <div
+                          className="bg-blue-600 h-2 rounded-full transition-all"
+                          style={{ width: `${maskingProgress?.percentage ?? 0}%` }}
+                        />
+                      </div>
+                    </div>
+                  )}
+
+                  {/* Local analysis runs in the log worker and can be stopped */}
+                  {isAnalyzing && llmSettings.provider === 'local' && (
+                    <div className="mb-4 flex justify-between text-xs text-gray-600">
+                      <span>Analyzing {maskedLogs.length} entries locally…</span>
+                      <button
+                        onClick={handleCancelAnalysis}
+                        className="text-green-700 hover:text-green-900 font-medium"
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  )}
+
+                  {/* Analysis Progress */}
+                  {analysisProgress && analysisProgress.total > 1 && (
+                    <div className="mb-4">
+                      <div className="flex justify-between text-xs text-gray-600 mb-1">
+                        <span>
+                          {analysisProgress.loaded < analysisProgress.total - 1
+                            ? `Analyzing part ${analysisProgress.loaded + 1} of ${analysisProgress.total - 1}`
+                            : 'Merging findings'}
+                        </span>
+                        <span>{analysisProgress.percentage}%</span>
+                      </div>
+                      <div className="w-full bg-gray-200 rounded-full h-2">
+                        <div
+                          className="bg-green-600 h-2 rounded-full transition-all"
+                          style={{ width: `${analysisProgress.percentage}%` }}
+                        />
+                      </div>
+                    </div>
+                  )}
+
                   {/* Export Options */}
                   {(maskedLogs.length > 0 || analysisResult) && (
                     <div className="flex flex-col sm:flex-row gap-2 sm:gap-4 mb-4 pt-4 border-t border-gray-200">
@@ -358,6 +608,15 @@ ${analysisResult.criticalIssues.map((issue: string, i: number) => `${i + 1}. ${i
                           📥 Export Masked Logs
                         </button>
                       )}
+
+                      {maskingReport && (
+                        <button
+                          onClick={exportMaskingAudit}
+                          className="w-full sm:w-auto flex-1 bg-teal-600 text-white px-4 py-2 rounded-lg hover:bg-teal-700 transition-colors flex items-center justify-center gap-2"
+                        >
+                          🧾 Export Masking Report
+                        </button>
+                      )}
                       
                       {analysisResult && (
                         <button
@@ -370,21 +629,8 @@ ${analysisResult.criticalIssues.map((issue: string, i: number) => `${i + 1}. ${i
                     </div>
                   )}
 
-                  {/* OpenAI Toggle */}
-                  <div className="flex items-center justify-between p-4 border-t border-gray-200">
-                    <div className="flex items-center">
-                      <input
-                        type="checkbox"
-                        id="useOpenAI"
-                        checked={useOpenAI}
-                        onChange={(e) => setUseOpenAI(e.target.checked)}
-                        className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
-                      />
-                      <label htmlFor="useOpenAI" className="ml-2 block text-sm text-gray-900">
-                        Use OpenAI for Analysis
-                      </label>
-                    </div>
-                  </div>
+                  {/* AI Provider */}
+                  <ProviderSettings settings={llmSettings} onSettingsChange={setLlmSettings} />
 
                   {maskedLogs.length === 0 && logs.length > 0 && (
                     <p className="text-sm text-gray-600 text-center">
@@ -396,17 +642,61 @@ ${analysisResult.criticalIssues.map((issue: string, i: number) => `${i + 1}. ${i
 
               {/* Right Column - Preview and Results */}
               <div className="space-y-4 md:space-y-6">
-                {(logs.length > 0 || maskedLogs.length > 0) && (
+                {maskingReport && <MaskingReportPanel report={maskingReport} />}
+
+                {revealAudit.length > 0 && <RevealAuditLog entries={revealAudit} />}
+
+                {previewLogs.length > 0 && (
+                  <PatternsPanel
+                    patterns={patterns}
+                    totalLogs={previewLogs.length}
+                    selectedLogIds={filters.logIds}
+                    onSelectPattern={handleSelectPattern}
+                  />
+                )}
+
+                {previewLogs.length > 0 && (
+                  <LogHistogram
+                    logs={previewLogs}
+                    filters={filters}
+                    onTimestampRangeChange={handleTimestampRangeChange}
+                  />
+                )}
+
+                {previewLogs.length > 0 && (
                   <LogPreview
-                    logs={maskedLogs.length > 0 ? maskedLogs : logs}
+                    logs={previewLogs}
                     filters={filters}
                     isMasked={maskedLogs.length > 0}
                     onFilteredCountChange={setFilteredCount}
+                    vault={vault}
+                    onReveal={handlePreviewReveal}
+                    highlightedLog={highlightedLog}
                   />
                 )}
 
                 {analysisResult && (
-                  <AnalysisResults result={analysisResult} />
+                  <AnalysisResults
+                    result={analysisResult}
+                    rawResponse={aiRawResult}
+                    streamingResponse={streamingResponse}
+                    onCancel={handleCancelAnalysis}
+                    vault={vault}
+                    onReveal={handleResultsReveal}
+                    onShowEvidence={handleShowEvidence}
+                    bucketInterval={bucketInterval}
+                    onBucketIntervalChange={handleBucketIntervalChange}
+                  />
+                )}
+
+                {maskedLogs.length > 0 && (
+                  <ChatPanel
+                    logs={maskedLogs}
+                    filters={filters}
+                    settings={llmSettings}
+                    onBeforeSend={handleChatBeforeSend}
+                    onLogSelect={handleLogSelect}
+                  />
                 )}
               </div>
             </div>
@@ -0,0 +1,231 @@
+// anomalyDetection.ts
+// Time-bucketed rates and the anomalies in them: spikes, new error signatures
+// and components that stop logging
+
+import { ActivityTimeline, Anomaly, BucketInterval, FindingSeverity, LogEntry, TimeBucket } from './types';
+import { mineTemplates } from './templateMining';
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+export const BUCKET_INTERVALS = [SECOND, 5 * SECOND, 15 * SECOND, MINUTE, 5 * MINUTE, 15 * MINUTE, HOUR, 6 * HOUR, DAY];
+// Anomaly detection picks a minute or more by itself: buckets of seconds over
+// a short log hold too few entries to build a baseline from. The histogram
+// zooms in further.
+const ANOMALY_AUTO_INTERVALS = BUCKET_INTERVALS.filter(ms => ms >= MINUTE);
+const TARGET_BUCKETS = 60;
+// Past this many buckets every series costs more memory, and the chart more
+// bars, than they are worth; a finer interval is coarsened until the span fits
+const MAX_BUCKETS = 1000;
+
+// Buckets that establish the baseline before anything can be flagged
+const MIN_HISTORY_BUCKETS = 4;
+const EWMA_ALPHA = 0.3;
+const SPIKE_Z_SCORE = 3;
+const MIN_SPIKE_COUNT = 5;
+// Empty buckets in a row before an active component counts as silent
+const SILENT_MIN_BUCKETS = 3;
+
+export const formatInterval = (ms: number): string => {
+  if (ms % DAY === 0) return `${ms / DAY} d`;
+  if (ms % HOUR === 0) return `${ms / HOUR} h`;
+  if (ms % MINUTE === 0) return `${ms / MINUTE} min`;
+  return `${Math.round(ms / SECOND)} s`;
+};
+
+const toMillis = (timestamp: string) => new Date(timestamp).getTime();
+
+// Bucket starts are aligned to the interval, so one more bucket than the span
+// divides into may be needed
+const fits = (spanMs: number, intervalMs: number, buckets: number) => spanMs / intervalMs + 1 <= buckets;
+
+// The smallest of `autoIntervals` that keeps the chart readable, or the one
+// asked for unless that makes too many buckets. Spans of years, or a single
+// stray timestamp, get whole days.
+export function resolveInterval(interval: BucketInterval, spanMs: number, autoIntervals = BUCKET_INTERVALS): number {
+  const wanted = interval === 'auto' ? autoIntervals.find(ms => fits(spanMs, ms, TARGET_BUCKETS)) ?? DAY : interval;
+  if (fits(spanMs, wanted, MAX_BUCKETS)) return wanted;
+  return (
+    BUCKET_INTERVALS.find(ms => ms > wanted && fits(spanMs, ms, MAX_BUCKETS)) ??
+    Math.ceil(spanMs / (MAX_BUCKETS - 1) / DAY) * DAY
+  );
+}
+
+interface BucketedLogs {
+  intervalMs: number;
+  origin: number;
+  // Entries per bucket, empty buckets included
+  entries: LogEntry[][];
+}
+
+export function bucketLogs(logs: LogEntry[], interval: BucketInterval, autoIntervals = BUCKET_INTERVALS): BucketedLogs {
+  if (logs.length === 0) return { intervalMs: resolveInterval(interval, 0, autoIntervals), origin: 0, entries: [] };
+
+  let min = Infinity;
+  let max = -Infinity;
+  logs.forEach(({ timestampMs }) => {
+    min = Math.min(min, timestampMs);
+    max = Math.max(max, timestampMs);
+  });
+  const intervalMs = resolveInterval(interval, max - min, autoIntervals);
+  const origin = Math.floor(min / intervalMs) * intervalMs;
+  const entries: LogEntry[][] = Array.from({ length: Math.floor((max - origin) / intervalMs) + 1 }, () => []);
+  logs.forEach(log => entries[Math.floor((log.timestampMs - origin) / intervalMs)].push(log));
+  return { intervalMs, origin, entries };
+}
+
+const toTimeBucket = (bucket: LogEntry[], start: number, intervalMs: number): TimeBucket => {
+  const levels: TimeBucket['levels'] = { ERROR: 0, WARN: 0, INFO: 0, DEBUG: 0 };
+  bucket.forEach(log => levels[log.level]++);
+  return {
+    start: new Date(start).toISOString(),
+    end: new Date(start + intervalMs).toISOString(),
+    total: bucket.length,
+    levels,
+  };
+};
+
+// Volume per bucket by level, e.g. for a histogram
+export function countByBucket(logs: LogEntry[], interval: BucketInterval): Pick<ActivityTimeline, 'intervalMs' | 'buckets'> {
+  const { intervalMs, origin, entries } = bucketLogs(logs, interval);
+  return {
+    intervalMs,
+    buckets: entries.map((bucket, index) => toTimeBucket(bucket, origin + index * intervalMs, intervalMs)),
+  };
+}
+
+interface Series {
+  label: string;
+  severity: FindingSeverity;
+  component?: string;
+  // Matching entries per bucket
+  buckets: LogEntry[][];
+}
+
+const LEVEL_SEVERITY: Record<LogEntry['level'], FindingSeverity> = { ERROR: 'high', WARN: 'medium', INFO: 'low', DEBUG: 'low' };
+const STATUS_SEVERITY: Record<string, FindingSeverity> = { '5xx': 'high', '4xx': 'medium' };
+
+const statusClass = (log: LogEntry) => (log.responseCode ? `${log.responseCode[0]}xx` : null);
+
+// Every level, component and status class, in one pass over the buckets
+const collectSeries = (entries: LogEntry[][]): Series[] => {
+  const series = new Map<string, Series>();
+  const add = (index: number, log: LogEntry, label: string, severity: FindingSeverity, component?: string) => {
+    let current = series.get(label);
+    if (!current) {
+      current = { label, severity, component, buckets: entries.map(() => []) };
+      series.set(label, current);
+    }
+    current.buckets[index].push(log);
+  };
+
+  entries.forEach((bucket, index) => bucket.forEach(log => {
+    add(index, log, `${log.level} entries`, LEVEL_SEVERITY[log.level]);
+    if (log.component) add(index, log, `component ${log.component}`, 'medium', log.component);
+    const status = statusClass(log);
+    if (status) add(index, log, `${status} responses`, STATUS_SEVERITY[status] ?? 'low');
+  }));
+  return [...series.values()];
+};
+
+// Exponentially weighted mean and variance; each bucket is scored against the
+// baseline of the buckets before it
+const findSpikes = (counts: number[]): boolean[] => {
+  const flags = counts.map(() => false);
+  let mean = counts[0] ?? 0;
+  let variance = 0;
+  for (let i = 1; i < counts.length; i++) {
+    const value = counts[i];
+    const deviation = value - mean;
+    // A flat baseline still needs some spread, or any change is infinitely unusual
+    const z = deviation / Math.max(Math.sqrt(variance), 1);
+    flags[i] = i >= MIN_HISTORY_BUCKETS && z >= SPIKE_Z_SCORE && value >= MIN_SPIKE_COUNT;
+    const increment = EWMA_ALPHA * deviation;
+    mean += increment;
+    variance = (1 - EWMA_ALPHA) * (variance + deviation * increment);
+  }
+  return flags;
+};
+
+export function detectAnomalies(logs: LogEntry[], interval: BucketInterval = 'auto'): ActivityTimeline {
+  const { intervalMs, origin, entries } = bucketLogs(logs, interval, ANOMALY_AUTO_INTERVALS);
+  const bucketStart = (index: number) => origin + index * intervalMs;
+  const formatBucket = (index: number) => new Date(bucketStart(index)).toLocaleString();
+  const anomalies: Anomaly[] = [];
+
+  collectSeries(entries).forEach(series => {
+    const matching = series.buckets;
+    const counts = matching.map(bucket => bucket.length);
+
+    // Consecutive spiking buckets are one spike
+    const flags = findSpikes(counts);
+    for (let i = 0; i < flags.length; i++) {
+      if (!flags[i]) continue;
+      let end = i;
+      while (flags[end + 1]) end++;
+      const peak = Math.max(...counts.slice(i, end + 1));
+      anomalies.push({
+        kind: 'spike',
+        series: series.label,
+        component: series.component,
+        at: new Date(bucketStart(i)).toISOString(),
+        description: `Spike in ${series.label}: ${peak} per ${formatInterval(intervalMs)} at ${formatBucket(i)}${end > i ? ` for ${end - i + 1} intervals` : ''}, well above the recent rate.`,
+        severity: series.severity,
+        logIds: matching.slice(i, end + 1).flat().map(log => log.id),
+      });
+      i = end;
+    }
+
+    if (!series.component) return;
+    // A component that logged in every recent interval and then stopped while
+    // the rest of the system kept logging
+    let activeStreak = 0;
+    for (let i = 0; i < counts.length; i++) {
+      if (counts[i] > 0) {
+        activeStreak++;
+        continue;
+      }
+      let end = i;
+      while (end + 1 < counts.length && counts[end + 1] === 0) end++;
+      const silentBuckets = end - i + 1;
+      const othersActive = entries.slice(i, end + 1).every(bucket => bucket.length > 0);
+      if (activeStreak >= MIN_HISTORY_BUCKETS && silentBuckets >= SILENT_MIN_BUCKETS && othersActive) {
+        anomalies.push({
+          kind: 'silent-component',
+          series: series.label,
+          component: series.component,
+          at: new Date(bucketStart(i)).toISOString(),
+          description: `${series.component} went silent at ${formatBucket(i)}: no entries for ${formatInterval(silentBuckets * intervalMs)} while other components kept logging.`,
+          severity: 'high',
+          logIds: matching[i - 1].map(log => log.id),
+        });
+      }
+      activeStreak = 0;
+      i = end;
+    }
+  });
+
+  // Error and warning templates whose first occurrence is after the baseline
+  mineTemplates(logs.filter(log => log.level === 'ERROR' || log.level === 'WARN')).forEach(pattern => {
+    const first = toMillis(pattern.firstSeen);
+    if (Number.isNaN(first)) return;
+    const index = Math.floor((first - origin) / intervalMs);
+    if (index < MIN_HISTORY_BUCKETS) return;
+    anomalies.push({
+      kind: 'new-signature',
+      series: pattern.template,
+      at: new Date(bucketStart(index)).toISOString(),
+      description: `New ${pattern.levels.ERROR > 0 ? 'error' : 'warning'} signature from ${formatBucket(index)}: "${pattern.template}" (${pattern.count} occurrences).`,
+      severity: pattern.levels.ERROR > 0 ? 'high' : 'medium',
+      logIds: pattern.logIds,
+    });
+  });
+
+  return {
+    intervalMs,
+    buckets: entries.map((bucket, index) => toTimeBucket(bucket, bucketStart(index), intervalMs)),
+    anomalies: anomalies.sort((a, b) => toMillis(a.at) - toMillis(b.at)),
+  };
+}
@@ -0,0 +1,414 @@
+// archive.ts
+// Compressed logs and log archives: gzipped files, zip bundles and tarballs,
+// plain or gzipped. Inflating is left to the browser's DecompressionStream;
+// the zip and tar containers are read here.
+
+import { ArchiveMember } from './types';
+
+export type ArchiveKind = 'gzip' | 'zip' | 'tar' | 'tar.gz';
+
+// A member being read; its chunks have to be read, or left, before the next member
+export interface ArchiveEntry extends ArchiveMember {
+  chunks: AsyncIterable<Uint8Array>;
+}
+
+export class ArchiveError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ArchiveError';
+  }
+}
+
+export const archiveKind = (name: string): ArchiveKind | null => {
+  const lower = name.toLowerCase();
+  if (lower.endsWith('.tar.gz') || lower.endsWith('.tgz')) return 'tar.gz';
+  if (lower.endsWith('.tar')) return 'tar';
+  if (lower.endsWith('.zip')) return 'zip';
+  if (lower.endsWith('.gz')) return 'gzip';
+  return null;
+};
+
+// What a gzipped file holds: app.log.1.gz -> app.log.1
+export const gunzippedName = (name: string) => name.replace(/\.gz$/i, '');
+
+const baseName = (path: string) => path.slice(path.lastIndexOf('/') + 1);
+
+const truncated = () => new ArchiveError('The archive ends in the middle of a file');
+
+// `onRead` is told the size of each chunk as it is taken
+export async function* streamChunks(
+  stream: ReadableStream<Uint8Array>,
+  onRead?: (bytes: number) => void
+): AsyncGenerator<Uint8Array> {
+  const reader = stream.getReader();
+  let finished = false;
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) {
+        finished = true;
+        return;
+      }
+      onRead?.(value.byteLength);
+      yield value;
+    }
+  } finally {
+    // Left early: nothing more is needed from the stream
+    if (!finished) reader.cancel().catch(() => undefined);
+  }
+}
+
+const toStream = (chunks: AsyncIterable<Uint8Array>): ReadableStream<Uint8Array> => {
+  const iterator = chunks[Symbol.asyncIterator]();
+  return new ReadableStream({
+    async pull(controller) {
+      const { done, value } = await iterator.next();
+      if (done) controller.close();
+      else controller.enqueue(value);
+    },
+    async cancel() {
+      await iterator.return?.();
+    },
+  });
+};
+
+const gunzip = (chunks: AsyncIterable<Uint8Array>) =>
+  streamChunks(toStream(chunks).pipeThrough(new DecompressionStream('gzip')));
+
+// Rotated logs inside a bundle are often gzipped themselves; archives
+// inside archives are not opened
+const memberProblem = (name: string): string | undefined => {
+  const kind = archiveKind(name);
+  return kind && kind !== 'gzip' ? 'archive inside the archive' : undefined;
+};
+
+const openMember = (name: string, chunks: AsyncIterable<Uint8Array>) =>
+  archiveKind(name) === 'gzip' ? gunzip(chunks) : chunks;
+
+// --- gzip ---
+
+// The last four bytes of a gzip file hold the original size, modulo 4GB
+async function gzipSize(file: File): Promise<number> {
+  if (file.size < 18) throw new ArchiveError('Not a gzip file, or a damaged one');
+  return new DataView(await file.slice(file.size - 4).arrayBuffer()).getUint32(0, true);
+}
+
+async function gzipMember(file: File, name: string): Promise<ArchiveMember> {
+  return { name: gunzippedName(baseName(name)), size: await gzipSize(file), lastModified: file.lastModified };
+}
+
+// --- tar ---
+
+const BLOCK_SIZE = 512;
+const utf8 = new TextDecoder();
+
+// Hands out exactly as many bytes as asked for, across chunk boundaries
+const createByteReader = (chunks: AsyncIterable<Uint8Array>) => {
+  const iterator = chunks[Symbol.asyncIterator]();
+  let buffer = new Uint8Array(0);
+
+  // Up to `max` bytes; null at the end of the input
+  const next = async (max: number): Promise<Uint8Array | null> => {
+    while (buffer.length === 0) {
+      const { done, value } = await iterator.next();
+      if (done) return null;
+      buffer = value;
+    }
+    const piece = buffer.subarray(0, max);
+    buffer = buffer.subarray(piece.length);
+    return piece;
+  };
+
+  const read = async (length: number): Promise<Uint8Array | null> => {
+    if (length === 0) return new Uint8Array(0);
+    const first = await next(length);
+    if (!first || first.length === length) return first;
+    const bytes = new Uint8Array(length);
+    bytes.set(first);
+    for (let filled = first.length; filled < length; ) {
+      const piece = await next(length - filled);
+      if (!piece) throw truncated();
+      bytes.set(piece, filled);
+      filled += piece.length;
+    }
+    return bytes;
+  };
+
+  const skip = async (length: number) => {
+    for (let left = length; left > 0; ) {
+      const piece = await next(left);
+      if (!piece) throw truncated();
+      left -= piece.length;
+    }
+  };
+
+  return { next, read, skip };
+};
+
+const readString = (block: Uint8Array, start: number, length: number) => {
+  const field = block.subarray(start, start + length);
+  const end = field.indexOf(0);
+  return utf8.decode(end === -1 ? field : field.subarray(0, end));
+};
+
+const readNumber = (block: Uint8Array, start: number, length: number) => {
+  // GNU tar writes numbers too large for octal in base-256, flagged by the high bit
+  if (block[start] & 0x80) {
+    let value = block[start] & 0x7f;
+    for (let i = start + 1; i < start + length; i++) value = value * 256 + block[i];
+    return value;
+  }
+  return parseInt(readString(block, start, length).trim() || '0', 8);
+};
+
+// Pax extended headers are "<length> <key>=<value>\n" records
+const paxPath = (data: Uint8Array): string | undefined => {
+  let path: string | undefined;
+  for (let position = 0; position < data.length; ) {
+    const space = data.indexOf(0x20, position);
+    const length = parseInt(utf8.decode(data.subarray(position, space)), 10);
+    if (space === -1 || !(length > 0)) break;
+    const record = utf8.decode(data.subarray(space + 1, position + length - 1));
+    if (record.startsWith('path=')) path = record.slice('path='.length);
+    position += length;
+  }
+  return path;
+};
+
+// Regular files only; directories, links and devices hold no logs
+async function* readTar(chunks: AsyncIterable<Uint8Array>): AsyncGenerator<ArchiveEntry> {
+  const reader = createByteReader(chunks);
+  let longName: string | undefined;
+
+  for (;;) {
+    const header = await reader.read(BLOCK_SIZE);
+    // A zero block marks the end; some writers just stop
+    if (!header || header.every(byte => byte === 0)) return;
+    if (header.length < BLOCK_SIZE) throw truncated();
+
+    const size = readNumber(header, 124, 12);
+    const padding = (BLOCK_SIZE - (size % BLOCK_SIZE)) % BLOCK_SIZE;
+    const type = String.fromCharCode(header[156] || 0x30);
+
+    // GNU long names and pax headers describe the entry that follows
+    if (type === 'L' || type === 'x') {
+      const data = await reader.read(size);
+      if (!data) throw truncated();
+      longName = (type === 'L' ? readString(data, 0, size) : paxPath(data)) ?? longName;
+      await reader.skip(padding);
+      continue;
+    }
+
+    // Only POSIX headers have a name prefix; GNU ones keep other fields there
+    const prefix = readString(header, 257, 6) === 'ustar' ? readString(header, 345, 155) : '';
+    const shortName = readString(header, 0, 100);
+    // Tarballs made with `tar -C dir .` put ./ in front of every name
+    const name = (longName ?? (prefix ? `${prefix}/${shortName}` : shortName)).replace(/^(\.\/)+/, '');
+    longName = undefined;
+
+    if ((type !== '0' && type !== '7') || name.endsWith('/')) {
+      await reader.skip(size + padding);
+      continue;
+    }
+
+    let left = size;
+    async function* data(): AsyncGenerator<Uint8Array> {
+      while (left > 0) {
+        const piece = await reader.next(left);
+        if (!piece) throw truncated();
+        left -= piece.length;
+        yield piece;
+      }
+    }
+    yield { name, size, lastModified: readNumber(header, 136, 12) * 1000, chunks: data() };
+    await reader.skip(left + padding);
+  }
+}
+
+// --- zip ---
+
+const END_OF_DIRECTORY = 0x06054b50;
+const ZIP64_END_LOCATOR = 0x07064b50;
+const ZIP64_END_OF_DIRECTORY = 0x06064b50;
+const DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_HEADER = 0x04034b50;
+const ZIP64_EXTRA = 0x0001;
+const STORED = 0;
+const DEFLATED = 8;
+const MAX_UINT32 = 0xffffffff;
+
+interface ZipEntry extends ArchiveMember {
+  method: number;
+  compressedSize: number;
+  headerOffset: number;
+}
+
+const damagedZip = () => new ArchiveError('Not a zip archive, or a damaged one');
+
+const readView = async (file: File, start: number, end: number) =>
+  new DataView(await file.slice(start, end).arrayBuffer());
+
+// MS-DOS date and time fields, in local time
+const dosTime = (time: number, date: number) =>
+  new Date((date >> 9) + 1980, ((date >> 5) & 0xf) - 1, date & 0x1f, time >> 11, (time >> 5) & 0x3f, (time & 0x1f) * 2).getTime();
+
+// Where the central directory is, from the record at the end of the archive
+async function findZipDirectory(file: File): Promise<{ count: number; start: number; end: number }> {
+  // The record is 22 bytes plus a comment of up to 64KB
+  const tailStart = Math.max(0, file.size - 22 - 0xffff);
+  const tail = await readView(file, tailStart, file.size);
+  let record = -1;
+  for (let i = tail.byteLength - 22; i >= 0; i--) {
+    if (tail.getUint32(i, true) === END_OF_DIRECTORY) {
+      record = i;
+      break;
+    }
+  }
+  if (record === -1) throw damagedZip();
+
+  const count = tail.getUint16(record + 10, true);
+  const size = tail.getUint32(record + 12, true);
+  const start = tail.getUint32(record + 16, true);
+  if (start !== MAX_UINT32 && count !== 0xffff) return { count, start, end: start + size };
+
+  // ZIP64: the real values are in a second record, found through a locator
+  if (record < 20 || tail.getUint32(record - 20, true) !== ZIP64_END_LOCATOR) throw damagedZip();
+  const zip64Start = Number(tail.getBigUint64(record - 20 + 8, true));
+  const zip64 = await readView(file, zip64Start, zip64Start + 56);
+  if (zip64.byteLength < 56 || zip64.getUint32(0, true) !== ZIP64_END_OF_DIRECTORY) throw damagedZip();
+  const zip64Directory = Number(zip64.getBigUint64(48, true));
+  return {
+    count: Number(zip64.getBigUint64(32, true)),
+    start: zip64Directory,
+    end: zip64Directory + Number(zip64.getBigUint64(40, true)),
+  };
+}
+
+async function readZipDirectory(file: File): Promise<ZipEntry[]> {
+  const { count, start, end } = await findZipDirectory(file);
+  const directory = await readView(file, start, end);
+  const bytes = new Uint8Array(directory.buffer);
+  const entries: ZipEntry[] = [];
+
+  let position = 0;
+  for (let i = 0; i < count; i++) {
+    if (position + 46 > directory.byteLength || directory.getUint32(position, true) !== DIRECTORY_ENTRY) {
+      throw damagedZip();
+    }
+    const flags = directory.getUint16(position + 8, true);
+    const method = directory.getUint16(position + 10, true);
+    const lastModified = dosTime(directory.getUint16(position + 12, true), directory.getUint16(position + 14, true));
+    let compressedSize = directory.getUint32(position + 20, true);
+    let size = directory.getUint32(position + 24, true);
+    const nameLength = directory.getUint16(position + 28, true);
+    const extraLength = directory.getUint16(position + 30, true);
+    const commentLength = directory.getUint16(position + 32, true);
+    let headerOffset = directory.getUint32(position + 42, true);
+    const nameStart = position + 46;
+    const name = utf8.decode(bytes.subarray(nameStart, nameStart + nameLength));
+
+    // In the ZIP64 extra field, 8-byte values stand in, in this order, for
+    // the fields set to 0xffffffff
+    const extraEnd = nameStart + nameLength + extraLength;
+    for (let extra = nameStart + nameLength; extra + 4 <= extraEnd; ) {
+      const id = directory.getUint16(extra, true);
+      const length = directory.getUint16(extra + 2, true);
+      if (id === ZIP64_EXTRA) {
+        let field = extra + 4;
+        const next = () => {
+          const value = Number(directory.getBigUint64(field, true));
+          field += 8;
+          return value;
+        };
+        if (size === MAX_UINT32) size = next();
+        if (compressedSize === MAX_UINT32) compressedSize = next();
+        if (headerOffset === MAX_UINT32) headerOffset = next();
+      }
+      extra += 4 + length;
+    }
+    position = extraEnd + commentLength;
+
+    // Folders, and the resource forks macOS adds to archives it creates
+    if (name.endsWith('/') || name.startsWith('__MACOSX/')) continue;
+
+    const unsupported =
+      flags & 0x1
+        ? 'encrypted'
+        : method !== STORED && method !== DEFLATED
+          ? `compression method ${method}`
+          : memberProblem(name);
+    entries.push({ name, size, lastModified, unsupported, method, compressedSize, headerOffset });
+  }
+  return entries;
+}
+
+// Opened on the first read, so members passed over cost nothing
+async function* readZipEntry(file: File, entry: ZipEntry, onRead?: (bytes: number) => void): AsyncGenerator<Uint8Array> {
+  // The local header repeats the name and may carry a different extra field
+  const header = await readView(file, entry.headerOffset, entry.headerOffset + 30);
+  if (header.byteLength < 30 || header.getUint32(0, true) !== LOCAL_HEADER) throw damagedZip();
+  const dataStart = entry.headerOffset + 30 + header.getUint16(26, true) + header.getUint16(28, true);
+  const stored = toStream(streamChunks(file.slice(dataStart, dataStart + entry.compressedSize).stream(), onRead));
+  yield* streamChunks(entry.method === DEFLATED ? stored.pipeThrough(new DecompressionStream('deflate-raw')) : stored);
+}
+
+const toMember = ({ name, size, lastModified, unsupported }: ArchiveMember): ArchiveMember => ({
+  name,
+  size,
+  lastModified,
+  unsupported,
+});
+
+// Every member, including those that cannot be loaded. A tarball has no
+// index, so a gzipped one is inflated in full to list it; `onRead` follows that.
+export async function listArchive(
+  file: File,
+  kind: ArchiveKind,
+  name: string,
+  onRead?: (bytes: number) => void
+): Promise<ArchiveMember[]> {
+  if (kind === 'gzip') return [await gzipMember(file, name)];
+  if (kind === 'zip') return (await readZipDirectory(file)).map(toMember);
+
+  const members: ArchiveMember[] = [];
+  const raw = streamChunks(file.stream(), onRead);
+  for await (const entry of readTar(kind === 'tar.gz' ? gunzip(raw) : raw)) {
+    members.push({ ...toMember(entry), unsupported: memberProblem(entry.name) });
+  }
+  return members;
+}
+
+// The members that can be loaded, in archive order, inflated. `onRead` is
+// told how many bytes of the archive file itself have been read.
+export async function* readArchive(
+  file: File,
+  kind: ArchiveKind,
+  name: string,
+  onRead?: (bytes: number) => void
+): AsyncGenerator<ArchiveEntry> {
+  if (kind === 'zip') {
+    for (const entry of await readZipDirectory(file)) {
+      let read = 0;
+      if (!entry.unsupported) {
+        const chunks = readZipEntry(file, entry, bytes => {
+          read += bytes;
+          onRead?.(bytes);
+        });
+        yield { ...toMember(entry), chunks: openMember(entry.name, chunks) };
+      }
+      // Members passed over count as read
+      onRead?.(entry.compressedSize - read);
+    }
+    return;
+  }
+
+  const raw = streamChunks(file.stream(), onRead);
+  if (kind === 'gzip') {
+    yield { ...(await gzipMember(file, name)), chunks: gunzip(raw) };
+    return;
+  }
+  for await (const entry of readTar(kind === 'tar.gz' ? gunzip(raw) : raw)) {
+    if (memberProblem(entry.name)) continue;
+    yield { ...entry, chunks: openMember(entry.name, entry.chunks) };
+  }
+}
@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useState, useMemo, useEffect, useRef } from 'react';
 import { 
   BarChart3, 
   AlertTriangle, 
@@ -7,16 +7,109 @@ import {
   TrendingUp, 
   Download,
   Eye,
-  Brain
+  EyeOff,
+  Brain,
+  X
 } from 'lucide-react';
-import { AnalysisResult } from '../types';
+import { AnalysisResult, AnalysisFinding, BucketInterval, FindingSeverity } from '../types';
+import { MaskingVault } from '../vault';
+import AnomalyTimeline from './AnomalyTimeline';
 
 interface AnalysisResultsProps {
   result: AnalysisResult;
+  // Unparsed AI response, shown for reference when the AI was used
+  rawResponse?: string | null;
+  // Set while a response is streaming in; `step` names the part being analyzed
+  streamingResponse?: { step: string; text: string } | null;
+  onCancel?: () => void;
+  vault?: MaskingVault;
+  onReveal?: (tokens: string[]) => void;
+  // Filter the log preview to the entries a finding is based on
+  onShowEvidence?: (logIds: string[]) => void;
+  bucketInterval?: BucketInterval;
+  onBucketIntervalChange?: (interval: BucketInterval) => void;
 }
 
-const AnalysisResults: React.FC<AnalysisResultsProps> = ({ result }) => {
+const SEVERITY_CLASSES: Record<FindingSeverity, string> = {
+  critical: 'bg-red-100 text-red-800',
+  high: 'bg-orange-100 text-orange-800',
+  medium: 'bg-yellow-100 text-yellow-800',
+  low: 'bg-blue-100 text-blue-800',
+  info: 'bg-gray-100 text-gray-700',
+};
+
+const MAX_LISTED_LOG_IDS = 5;
+
+const FindingDetails = ({ finding, onShowEvidence }: { finding: AnalysisFinding; onShowEvidence?: (logIds: string[]) => void }) => (
+  <div className="flex flex-wrap items-center gap-1.5 mt-2 text-xs">
+    <span className={`font-medium px-1.5 py-0.5 rounded uppercase ${SEVERITY_CLASSES[finding.severity]}`}>
+      {finding.severity}
+    </span>
+    {finding.components.map(component => (
+      <span key={component} className="bg-white border border-gray-200 text-gray-700 px-1.5 py-0.5 rounded">
+        {component}
+      </span>
+    ))}
+    {finding.logIds.length > 0 && onShowEvidence && (
+      <button
+        onClick={() => onShowEvidence(finding.logIds)}
+        title={`${finding.logIds.slice(0, MAX_LISTED_LOG_IDS).join(', ')}${finding.logIds.length > MAX_LISTED_LOG_IDS ? ', ...' : ''}`}
+        className="text-blue-600 hover:text-blue-800 underline"
+      >
+        {finding.logIds.length} supporting {finding.logIds.length === 1 ? 'line' : 'lines'}
+      </button>
+    )}
+    {finding.logIds.length > 0 && !onShowEvidence && (
+      <span className="text-gray-500 font-mono">
+        {finding.logIds.slice(0, MAX_LISTED_LOG_IDS).join(', ')}
+        {finding.logIds.length > MAX_LISTED_LOG_IDS && ` +${finding.logIds.length - MAX_LISTED_LOG_IDS} more`}
+      </span>
+    )}
+  </div>
+);
+
+const AnalysisResults: React.FC<AnalysisResultsProps> = ({
+  result,
+  rawResponse,
+  streamingResponse,
+  onCancel,
+  vault,
+  onReveal,
+  onShowEvidence,
+  bucketInterval = 'auto',
+  onBucketIntervalChange
+}) => {
   const [activeTab, setActiveTab] = useState<'overview' | 'insights' | 'recommendations' | 'critical'>('overview');
+  const [isRevealed, setIsRevealed] = useState(false);
+  const streamRef = useRef<HTMLPreElement>(null);
+  const isStreaming = Boolean(streamingResponse);
+
+  // Follow the response live in the insights tab
+  useEffect(() => {
+    if (isStreaming) setActiveTab('insights');
+  }, [isStreaming]);
+
+  useEffect(() => {
+    if (streamRef.current) streamRef.current.scrollTop = streamRef.current.scrollHeight;
+  }, [streamingResponse?.text]);
+
+  // Pseudonymized tokens the AI mentioned that can be swapped back locally
+  const revealableTokens = useMemo(() => {
+    if (!vault) return [];
+    const text = [...result.insights, ...result.recommendations, ...result.criticalIssues]
+      .map(finding => finding.text)
+      .concat(rawResponse || '')
+      .join('\n');
+    return vault.findTokens(text);
+  }, [result, rawResponse, vault]);
+
+  useEffect(() => {
+    if (isRevealed && revealableTokens.length > 0) {
+      onReveal?.(revealableTokens);
+    }
+  }, [isRevealed, revealableTokens, onReveal]);
+
+  const display = (text: string) => (isRevealed && vault ? vault.reveal(text) : text);
 
   const downloadReport = () => {
     const report = {
@@ -79,13 +172,30 @@ const AnalysisResults: React.FC<AnalysisResultsProps> = ({ result }) => {
             <Brain className="h-6 w-6 text-blue-600" />
             <h3 className="text-xl font-bold text-gray-900">AI Analysis Results</h3>
           </div>
-          <button
-            onClick={downloadReport}
-            className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
-          >
-            <Download className="h-4 w-4" />
-            Export Report
-          </button>
+          <div className="flex items-center gap-2">
+            {revealableTokens.length > 0 && (
+              <button
+                onClick={() => setIsRevealed(!isRevealed)}
+                aria-pressed={isRevealed}
+                title="Swap pseudonymized tokens back to the real values, in this browser only"
+                className={`flex items-center gap-2 px-3 py-2 rounded-lg border transition-colors ${
+                  isRevealed
+                    ? 'bg-amber-100 border-amber-300 text-amber-800'
+                    : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                {isRevealed ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                {isRevealed ? 'Hide values' : 'Reveal values'}
+              </button>
+            )}
+            <button
+              onClick={downloadReport}
+              className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              <Download className="h-4 w-4" />
+              Export Report
+            </button>
+          </div>
         </div>
       </div>
 
@@ -157,6 +267,15 @@ const AnalysisResults: React.FC<AnalysisResultsProps> = ({ result }) => {
               </div>
             </div>
 
+            {result.timeline && result.timeline.buckets.length > 0 && (
+              <AnomalyTimeline
+                timeline={result.timeline}
+                interval={bucketInterval}
+                onIntervalChange={onBucketIntervalChange}
+                onShowEvidence={onShowEvidence}
+              />
+            )}
+
             {/* Quick Summary */}
             <div className="bg-gray-50 rounded-lg p-4">
               <h5 className="font-medium text-gray-900 mb-2">Quick Assessment</h5>
@@ -205,7 +324,32 @@ const AnalysisResults: React.FC<AnalysisResultsProps> = ({ result }) => {
             <h4 className="text-lg font-semibold text-gray-900 mb-4">
               Key Insights ({result.insights.length})
             </h4>
-            {result.insights.length === 0 ? (
+            {streamingResponse ? (
+              <div className="border border-blue-200 rounded-lg overflow-hidden">
+                <div className="flex items-center justify-between px-4 py-2 bg-blue-50 border-b border-blue-200">
+                  <div className="flex items-center gap-2 text-sm text-blue-800">
+                    <div className="animate-spin rounded-full h-4 w-4 border-2 border-blue-600 border-t-transparent"></div>
+                    {streamingResponse.text ? 'Receiving response' : 'Waiting for response'}
+                    {streamingResponse.step && ` · ${streamingResponse.step}`}
+                  </div>
+                  {onCancel && (
+                    <button
+                      onClick={onCancel}
+                      className="flex items-center gap-1 text-sm text-gray-700 hover:text-red-700 px-2 py-1 rounded hover:bg-white"
+                    >
+                      <X className="h-4 w-4" />
+                      Cancel
+                    </button>
+                  )}
+                </div>
+                <pre
+                  ref={streamRef}
+                  className="p-3 text-xs text-gray-800 whitespace-pre-wrap break-words max-h-96 overflow-y-auto min-h-[4rem]"
+                >
+                  {display(streamingResponse.text)}
+                </pre>
+              </div>
+            ) : result.insights.length === 0 ? (
               <div className="text-center py-8 text-gray-500">
                 <Eye className="mx-auto h-12 w-12 mb-4 opacity-50" />
                 <p>No specific insights found in the current log analysis.</p>
@@ -219,11 +363,22 @@ const AnalysisResults: React.FC<AnalysisResultsProps> = ({ result }) => {
                         <span className="text-xs font-bold text-blue-700">{index + 1}</span>
                       </div>
                     </div>
-                    <p className="text-gray-800 leading-relaxed">{insight}</p>
+                    <div>
+                      <p className="text-gray-800 leading-relaxed">{display(insight.text)}</p>
+                      <FindingDetails finding={insight} onShowEvidence={onShowEvidence} />
+                    </div>
                   </div>
                 ))}
               </div>
             )}
+            {rawResponse && (
+              <details className="mt-4 text-sm">
+                <summary className="cursor-pointer text-gray-600 hover:text-gray-800">Raw AI response</summary>
+                <pre className="mt-2 p-3 bg-gray-50 border rounded-lg text-xs text-gray-800 whitespace-pre-wrap break-words max-h-96 overflow-y-auto">
+                  {display(rawResponse)}
+                </pre>
+              </details>
+            )}
           </div>
         )}
 
@@ -245,7 +400,10 @@ const AnalysisResults: React.FC<AnalysisResultsProps> = ({ result }) => {
                     <div className="flex-shrink-0 mt-0.5">
                       <CheckCircle className="w-5 h-5 text-green-600" />
                     </div>
-                    <p className="text-gray-800 leading-relaxed">{recommendation}</p>
+                    <div>
+                      <p className="text-gray-800 leading-relaxed">{display(recommendation.text)}</p>
+                      <FindingDetails finding={recommendation} onShowEvidence={onShowEvidence} />
+                    </div>
                   </div>
                 ))}
               </div>
@@ -274,7 +432,8 @@ const AnalysisResults: React.FC<AnalysisResultsProps> = ({ result }) => {
                     </div>
                     <div>
                       <p className="text-red-800 font-medium mb-1">Critical Issue #{index + 1}</p>
-                      <p className="text-gray-800 leading-relaxed">{issue}</p>
+                      <p className="text-gray-800 leading-relaxed">{display(issue.text)}</p>
+                      <FindingDetails finding={issue} onShowEvidence={onShowEvidence} />
                     </div>
                   </div>
                 ))}
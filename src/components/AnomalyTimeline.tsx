@@ -0,0 +1,84 @@
+import { useMemo } from 'react';
+import { ActivityTimeline, AnomalyKind, BucketInterval } from '../types';
+import { BUCKET_INTERVALS, formatInterval } from '../anomalyDetection';
+import LevelHistogram from './LevelHistogram';
+
+interface AnomalyTimelineProps {
+  timeline: ActivityTimeline;
+  interval: BucketInterval;
+  onIntervalChange?: (interval: BucketInterval) => void;
+  onShowEvidence?: (logIds: string[]) => void;
+}
+
+const KIND_LABELS: Record<AnomalyKind, string> = {
+  spike: 'Spike',
+  'new-signature': 'New signature',
+  'silent-component': 'Silent component',
+};
+
+const AnomalyTimeline: React.FC<AnomalyTimelineProps> = ({ timeline, interval, onIntervalChange, onShowEvidence }) => {
+  // Bucket start -> anomalies flagged in it
+  const anomaliesByBucket = useMemo(() => {
+    const byBucket = new Map<string, number>();
+    timeline.anomalies.forEach(anomaly => byBucket.set(anomaly.at, (byBucket.get(anomaly.at) || 0) + 1));
+    return byBucket;
+  }, [timeline.anomalies]);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="text-lg font-semibold text-gray-900">Activity Timeline</h4>
+        {onIntervalChange && (
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            Interval
+            <select
+              value={interval}
+              onChange={(e) => onIntervalChange(e.target.value === 'auto' ? 'auto' : Number(e.target.value))}
+              className="px-2 py-1 border border-gray-300 rounded-md text-sm text-black"
+            >
+              <option value="auto">{`Auto${interval === 'auto' ? ` (${formatInterval(timeline.intervalMs)})` : ''}`}</option>
+              {BUCKET_INTERVALS.map(ms => (
+                <option key={ms} value={ms}>{formatInterval(ms)}</option>
+              ))}
+            </select>
+          </label>
+        )}
+      </div>
+
+      {interval !== 'auto' && timeline.intervalMs !== interval && (
+        <p className="text-xs text-gray-500">
+          {`${formatInterval(interval)} makes too many buckets over this time span; showing ${formatInterval(timeline.intervalMs)} buckets instead.`}
+        </p>
+      )}
+
+      <LevelHistogram buckets={timeline.buckets} markers={anomaliesByBucket} />
+
+      {timeline.anomalies.length === 0 ? (
+        <p className="text-sm text-gray-500">No anomalies at this interval.</p>
+      ) : (
+        <ul className="space-y-2">
+          {timeline.anomalies.map((anomaly, index) => (
+            <li key={index} className="flex items-start gap-2 text-sm">
+              <span className="flex-shrink-0 bg-red-100 text-red-800 text-xs font-medium px-1.5 py-0.5 rounded">
+                {KIND_LABELS[anomaly.kind]}
+              </span>
+              <span className="text-gray-800">
+                {anomaly.description}
+                {onShowEvidence && anomaly.logIds.length > 0 && (
+                  <button
+                    onClick={() => onShowEvidence(anomaly.logIds)}
+                    className="ml-2 text-xs text-blue-600 hover:text-blue-800 underline"
+                  >
+                    {anomaly.logIds.length} supporting {anomaly.logIds.length === 1 ? 'line' : 'lines'}
+                  </button>
+                )}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default AnomalyTimeline;
@@ -0,0 +1,135 @@
+import { useState } from 'react';
+import { FileArchive } from 'lucide-react';
+import { ArchiveMember } from '../types';
+
+export interface ListedArchive {
+  name: string;
+  members: ArchiveMember[];
+}
+
+interface ArchiveMemberDialogProps {
+  archives: ListedArchive[];
+  // Member names ticked at first, by archive name
+  initialSelection: Record<string, string[]>;
+  // Bytes the selected members may add up to; the rest of the upload takes the remainder
+  maxSize: number;
+  onCancel: () => void;
+  onLoad: (selection: Record<string, string[]>) => void;
+}
+
+const formatSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const ArchiveMemberDialog: React.FC<ArchiveMemberDialogProps> = ({ archives, initialSelection, maxSize, onCancel, onLoad }) => {
+  const [selection, setSelection] = useState(initialSelection);
+
+  const selectedCount = Object.values(selection).reduce((sum, names) => sum + names.length, 0);
+  const selectedSize = archives.reduce(
+    (sum, { name, members }) =>
+      sum + members.filter(member => (selection[name] ?? []).includes(member.name)).reduce((total, member) => total + member.size, 0),
+    0
+  );
+  const tooLarge = selectedSize > maxSize;
+  const loadableCount = archives.reduce((sum, { members }) => sum + members.filter(member => !member.unsupported).length, 0);
+
+  const toggle = (archive: string, member: string) => {
+    setSelection(prev => {
+      const names = prev[archive] ?? [];
+      return {
+        ...prev,
+        [archive]: names.includes(member) ? names.filter(name => name !== member) : [...names, member],
+      };
+    });
+  };
+
+  const selectAll = (archive: ListedArchive, selected: boolean) => {
+    setSelection(prev => ({
+      ...prev,
+      [archive.name]: selected ? archive.members.filter(member => !member.unsupported).map(({ name }) => name) : [],
+    }));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50">
+      <div role="dialog" aria-modal="true" className="bg-white rounded-lg shadow-xl max-w-3xl w-full max-h-[90vh] flex flex-col">
+        <div className="px-6 py-4 border-b bg-blue-50 flex items-center gap-3">
+          <FileArchive className="h-6 w-6 text-blue-600" />
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Choose the files to load</h3>
+            <p className="text-sm text-gray-600">
+              {selectedCount} of {loadableCount} file{loadableCount === 1 ? '' : 's'} selected ({formatSize(selectedSize)}). Each file is
+              loaded as a source of its own.
+            </p>
+            {tooLarge && (
+              <p className="text-sm text-red-700">
+                That is more than the {formatSize(Math.max(0, maxSize))} that fits in memory with the rest of the upload.
+                Please choose fewer files.
+              </p>
+            )}
+          </div>
+        </div>
+
+        <div className="p-4 overflow-y-auto space-y-4">
+          {archives.map(archive => (
+            <div key={archive.name} className="border rounded-lg">
+              <div className="px-3 py-2 bg-gray-50 border-b flex items-center justify-between gap-2">
+                <span className="text-sm font-medium text-gray-900 truncate">{archive.name}</span>
+                <div className="flex gap-3 flex-shrink-0 text-xs">
+                  <button onClick={() => selectAll(archive, true)} className="text-blue-600 hover:text-blue-800">
+                    All
+                  </button>
+                  <button onClick={() => selectAll(archive, false)} className="text-blue-600 hover:text-blue-800">
+                    None
+                  </button>
+                </div>
+              </div>
+              <div className="divide-y">
+                {archive.members.map(member => (
+                  <label
+                    key={member.name}
+                    className={`flex items-center gap-2 px-3 py-1.5 text-xs ${
+                      member.unsupported ? 'text-gray-400 cursor-not-allowed' : 'text-gray-800 hover:bg-gray-50 cursor-pointer'
+                    }`}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={(selection[archive.name] ?? []).includes(member.name)}
+                      disabled={member.unsupported !== undefined}
+                      onChange={() => toggle(archive.name, member.name)}
+                      className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                    />
+                    <span className="font-mono break-all flex-1">{member.name}</span>
+                    <span className="flex-shrink-0 text-gray-500">
+                      {member.unsupported ? `Cannot load: ${member.unsupported}` : formatSize(member.size)}
+                    </span>
+                  </label>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="px-6 py-4 border-t flex justify-end gap-2">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onLoad(selection)}
+            disabled={selectedCount === 0 || tooLarge}
+            className="px-4 py-2 rounded-lg bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Load {selectedCount} file{selectedCount === 1 ? '' : 's'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ArchiveMemberDialog;
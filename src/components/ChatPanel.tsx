@@ -0,0 +1,192 @@
+import { useState, useMemo, useRef } from 'react';
+import { MessageSquare, Send, X } from 'lucide-react';
+import { ChatMessage, FilterOptions, LLMSettings, LogEntry } from '../types';
+import { completeChat } from '../llm';
+import { buildChatMessages } from '../llm/chat';
+import { isAbortError } from '../llm/http';
+import { LOG_ID_PATTERN } from '../llm/structuredOutput';
+
+interface ChatPanelProps {
+  // Masked logs; nothing else is ever sent
+  logs: LogEntry[];
+  filters: FilterOptions;
+  settings: LLMSettings;
+  // Lets the caller leak-scan the exact text and decide whether to send it
+  onBeforeSend: (text: string, send: () => void) => void;
+  onLogSelect: (logId: string) => void;
+}
+
+const CITATION_SPLIT = new RegExp(`(${LOG_ID_PATTERN.source})`);
+
+// Answer text with every known log id turned into a link to the entry
+const AnswerText = ({ text, knownIds, onLogSelect }: { text: string; knownIds: Set<string>; onLogSelect: (logId: string) => void }) => (
+  <>
+    {text.split(CITATION_SPLIT).map((part, index) =>
+      index % 2 === 1 && knownIds.has(part) ? (
+        <button
+          key={index}
+          onClick={() => onLogSelect(part)}
+          title="Show this entry in the log preview"
+          className="font-mono text-blue-600 hover:text-blue-800 underline"
+        >
+          {part}
+        </button>
+      ) : (
+        part
+      )
+    )}
+  </>
+);
+
+const ChatPanel: React.FC<ChatPanelProps> = ({ logs, filters, settings, onBeforeSend, onLogSelect }) => {
+  const [isExpanded, setIsExpanded] = useState(true);
+  const [history, setHistory] = useState<ChatMessage[]>([]);
+  const [question, setQuestion] = useState('');
+  const [streamingAnswer, setStreamingAnswer] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const knownIds = useMemo(() => new Set(logs.map(log => log.id)), [logs]);
+  const isLocal = settings.provider === 'local';
+  const isSending = streamingAnswer !== null;
+
+  const send = async (text: string, messages: ChatMessage[]) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setHistory(prev => [...prev, { role: 'user', content: text }]);
+    setQuestion('');
+    setStreamingAnswer('');
+    let streamed = '';
+    try {
+      const answer = await completeChat(messages, settings, {
+        signal: controller.signal,
+        onToken: delta => {
+          streamed += delta;
+          setStreamingAnswer(streamed);
+        },
+      });
+      setHistory(prev => [...prev, { role: 'assistant', content: answer }]);
+    } catch (error) {
+      // Give the question back so it can be edited or asked again
+      setHistory(prev => prev.slice(0, -1));
+      setQuestion(text);
+      if (isAbortError(error)) {
+        console.log('Chat request cancelled');
+        return;
+      }
+      console.error('Error asking about logs:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      alert(`Error asking about logs: ${errorMessage}`);
+    } finally {
+      abortRef.current = null;
+      setStreamingAnswer(null);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const text = question.trim();
+    if (!text || isSending || isLocal) return;
+    const messages = buildChatMessages(text, history, logs, filters, settings.maxPromptTokens);
+    onBeforeSend(messages.map(m => m.content).join('\n'), () => send(text, messages));
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md overflow-hidden">
+      {/* Header */}
+      <div className="px-6 py-4 border-b bg-gray-50">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <MessageSquare className="h-5 w-5 text-gray-600" />
+            <h3 className="text-lg font-semibold text-gray-900">Ask About These Logs</h3>
+          </div>
+          <div className="flex items-center gap-3">
+            {history.length > 0 && !isSending && (
+              <button
+                onClick={() => setHistory([])}
+                className="text-gray-500 hover:text-gray-700 text-sm"
+              >
+                Clear
+              </button>
+            )}
+            <button
+              onClick={() => setIsExpanded(!isExpanded)}
+              className="text-blue-600 hover:text-blue-800 text-sm font-medium"
+            >
+              {isExpanded ? 'Collapse' : 'Expand'}
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {isExpanded && (
+        <div className="p-4 space-y-3">
+          {isLocal ? (
+            <p className="text-sm text-gray-500 text-center py-2">
+              Select an AI provider to ask follow-up questions. Local analysis cannot answer questions.
+            </p>
+          ) : (
+            <>
+              {history.length === 0 && !isSending && (
+                <p className="text-sm text-gray-500">
+                  Questions are answered from the masked logs that match the current filters. Cited entries link to the log preview.
+                </p>
+              )}
+              {(history.length > 0 || isSending) && (
+                <div className="max-h-96 overflow-y-auto space-y-3">
+                  {history.map((message, index) => (
+                    <div
+                      key={index}
+                      className={`text-sm rounded-lg p-3 whitespace-pre-wrap break-words ${
+                        message.role === 'user' ? 'bg-blue-50 text-blue-900 ml-8' : 'bg-gray-50 text-gray-800 mr-8'
+                      }`}
+                    >
+                      {message.role === 'assistant' ? (
+                        <AnswerText text={message.content} knownIds={knownIds} onLogSelect={onLogSelect} />
+                      ) : (
+                        message.content
+                      )}
+                    </div>
+                  ))}
+                  {isSending && (
+                    <div className="text-sm rounded-lg p-3 bg-gray-50 text-gray-800 mr-8 whitespace-pre-wrap break-words">
+                      <div className="flex justify-end mb-1">
+                        <button
+                          onClick={() => abortRef.current?.abort()}
+                          className="flex items-center gap-1 text-xs text-gray-600 hover:text-gray-900"
+                        >
+                          <X className="h-3 w-3" />
+                          Cancel
+                        </button>
+                      </div>
+                      {streamingAnswer || <span className="text-gray-400">Waiting for the response...</span>}
+                    </div>
+                  )}
+                </div>
+              )}
+              <form onSubmit={handleSubmit} className="flex gap-2">
+                <input
+                  type="text"
+                  value={question}
+                  onChange={(e) => setQuestion(e.target.value)}
+                  disabled={isSending}
+                  placeholder="e.g. What happened before the first database timeout?"
+                  className="flex-grow px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-blue-500 focus:border-blue-500 disabled:bg-gray-100"
+                />
+                <button
+                  type="submit"
+                  disabled={isSending || !question.trim()}
+                  className="flex items-center gap-1 px-4 py-2 rounded-lg bg-blue-600 text-white text-sm hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <Send className="h-4 w-4" />
+                  Ask
+                </button>
+              </form>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ChatPanel;
@@ -1,23 +1,38 @@
 import { useState } from 'react';
-import { Filter, Calendar, Search, Code, AlertCircle } from 'lucide-react';
-import { FilterOptions } from '../types';
+import { Filter, Calendar, Code, AlertCircle } from 'lucide-react';
+import { FilterOptions, SearchMode } from '../types';
+import { EMPTY_FILTERS } from '../logFilter';
+import QueryInput from './QueryInput';
 
 interface FilterControlsProps {
   filters: FilterOptions;
   onFiltersChange: (filters: FilterOptions) => void;
   totalLogs: number;
   filteredCount?: number;
+  // Source files of the loaded logs; the source filter shows for two or more
+  sources?: string[];
+  // Autocomplete values for the query, by field
+  queryValues?: Record<string, string[]>;
 }
 
+const SEARCH_MODE_LABELS: Record<SearchMode, string> = {
+  exact: 'Exact',
+  fuzzy: 'Fuzzy',
+  regex: 'Regex',
+  word: 'Whole word',
+};
+
 const FilterControls: React.FC<FilterControlsProps> = ({ 
   filters, 
   onFiltersChange, 
   totalLogs,
-  filteredCount
+  filteredCount,
+  sources = [],
+  queryValues = {}
 }) => {
   const [isExpanded, setIsExpanded] = useState(false);
 
-  const updateFilter = (key: keyof FilterOptions, value: string | { start: string; end: string }) => {
+  const updateFilter = (key: keyof FilterOptions, value: string | string[] | { start: string; end: string }) => {
     onFiltersChange({
       ...filters,
       [key]: value,
@@ -25,22 +40,18 @@ const FilterControls: React.FC<FilterControlsProps> = ({
   };
 
   const clearAllFilters = () => {
-    onFiltersChange({
-      timestampRange: { start: '', end: '' },
-      logLevel: '',
-      keyword: '',
-      component: '',
-      responseCode: '',
-    });
+    onFiltersChange(EMPTY_FILTERS);
   };
 
   const getActiveFilterCount = () => {
     let count = 0;
     if (filters.timestampRange.start || filters.timestampRange.end) count++;
     if (filters.logLevel) count++;
-    if (filters.keyword) count++;
+    if (filters.query) count++;
     if (filters.component) count++;
     if (filters.responseCode) count++;
+    if (filters.source) count++;
+    if (filters.logIds.length > 0) count++;
     return count;
   };
 
@@ -76,9 +87,22 @@ const FilterControls: React.FC<FilterControlsProps> = ({
         </div>
       </div>
 
+      {/* Entries picked elsewhere, e.g. the evidence of a finding */}
+      {filters.logIds.length > 0 && (
+        <div className="px-6 py-3 border-b bg-blue-50 flex items-center justify-between text-sm text-blue-800">
+          <span>Showing only {filters.logIds.length} selected {filters.logIds.length === 1 ? 'entry' : 'entries'}</span>
+          <button
+            onClick={() => updateFilter('logIds', [])}
+            className="text-blue-600 hover:text-blue-800 font-medium"
+          >
+            Show all
+          </button>
+        </div>
+      )}
+
       {/* Quick Filters (Always Visible) */}
       <div className="p-6 border-b">
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <div className={`grid grid-cols-1 gap-6 ${sources.length > 1 ? 'md:grid-cols-4' : 'md:grid-cols-3'}`}>
           {/* Log Level Filter */}
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -97,21 +121,30 @@ const FilterControls: React.FC<FilterControlsProps> = ({
             </select>
           </div>
 
-          {/* Keyword Search */}
+          {/* Query Search */}
           <div>
-            <label className="block text-sm font-medium text-gray-700 mb-1">
-              Keyword Search
-            </label>
-            <div className="relative">
-              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
-              <input
-                type="text"
-                value={filters.keyword}
-                onChange={(e) => updateFilter('keyword', e.target.value)}
-                placeholder="Search in messages..."
-                className="w-full pl-10 pr-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent text-black"
-              />
+            <div className="flex items-center justify-between mb-1">
+              <label className="block text-sm font-medium text-gray-700">
+                Search Query
+              </label>
+              <select
+                value={filters.searchMode}
+                onChange={(e) => updateFilter('searchMode', e.target.value as SearchMode)}
+                title="How plain words in the query match"
+                aria-label="Search mode"
+                className="px-1.5 py-0.5 border border-gray-300 rounded text-xs text-black"
+              >
+                {(Object.keys(SEARCH_MODE_LABELS) as SearchMode[]).map(mode => (
+                  <option key={mode} value={mode}>{SEARCH_MODE_LABELS[mode]}</option>
+                ))}
+              </select>
             </div>
+            <QueryInput
+              value={filters.query}
+              onChange={(query) => updateFilter('query', query)}
+              knownValues={queryValues}
+              mode={filters.searchMode}
+            />
           </div>
 
           {/* Response Code Filter */}
@@ -134,6 +167,25 @@ const FilterControls: React.FC<FilterControlsProps> = ({
               <option value="500">500 Internal Server Error</option>
             </select>
           </div>
+
+          {/* Source File Filter */}
+          {sources.length > 1 && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Source
+              </label>
+              <select
+                value={filters.source}
+                onChange={(e) => updateFilter('source', e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent text-black"
+              >
+                <option value="">All Sources</option>
+                {sources.map(source => (
+                  <option key={source} value={source}>{source}</option>
+                ))}
+              </select>
+            </div>
+          )}
         </div>
       </div>
 
@@ -151,6 +203,7 @@ const FilterControls: React.FC<FilterControlsProps> = ({
                 <div>
                   <input
                     type="datetime-local"
+                    step={1}
                     value={filters.timestampRange.start}
                     onChange={(e) => updateFilter('timestampRange', {
                       ...filters.timestampRange,
@@ -163,6 +216,7 @@ const FilterControls: React.FC<FilterControlsProps> = ({
                 <div>
                   <input
                     type="datetime-local"
+                    step={1}
                     value={filters.timestampRange.end}
                     onChange={(e) => updateFilter('timestampRange', {
                       ...filters.timestampRange,
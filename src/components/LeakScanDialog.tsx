@@ -0,0 +1,92 @@
+import { useState } from 'react';
+import { ShieldAlert } from 'lucide-react';
+import { LeakFinding } from '../types';
+
+interface LeakScanDialogProps {
+  findings: LeakFinding[];
+  onCancel: () => void;
+  onOverride: () => void;
+}
+
+// Highlight the flagged part of a line
+const HighlightedLine: React.FC<{ line: string; match: string }> = ({ line, match }) => {
+  const start = line.indexOf(match);
+  if (start === -1) return <>{line}</>;
+  return (
+    <>
+      {line.slice(0, start)}
+      <mark className="bg-red-200 text-red-900 rounded px-0.5">{match}</mark>
+      {line.slice(start + match.length)}
+    </>
+  );
+};
+
+const LeakScanDialog: React.FC<LeakScanDialogProps> = ({ findings, onCancel, onOverride }) => {
+  const [acknowledged, setAcknowledged] = useState(false);
+
+  const lineCount = new Set(findings.map(f => `${f.promptLabel}:${f.lineNumber}`)).size;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50">
+      <div role="alertdialog" aria-modal="true" className="bg-white rounded-lg shadow-xl max-w-3xl w-full max-h-[90vh] flex flex-col">
+        <div className="px-6 py-4 border-b bg-red-50 flex items-center gap-3">
+          <ShieldAlert className="h-6 w-6 text-red-600" />
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Possible secrets in the prompt</h3>
+            <p className="text-sm text-gray-600">
+              {findings.length} finding{findings.length === 1 ? '' : 's'} on {lineCount} line{lineCount === 1 ? '' : 's'}. Nothing has been sent.
+            </p>
+          </div>
+        </div>
+
+        <div className="p-4 overflow-y-auto space-y-2">
+          {findings.map((finding, index) => (
+            <div key={index} className="border rounded-lg p-3">
+              <div className="flex items-center gap-2 mb-1">
+                <span className="bg-red-100 text-red-800 text-xs font-medium px-2 py-0.5 rounded">{finding.label}</span>
+                <span className="text-xs text-gray-500">
+                  Prompt line {finding.lineNumber}{finding.promptLabel && ` (${finding.promptLabel})`}
+                </span>
+              </div>
+              <p className="text-xs font-mono text-gray-800 break-all">
+                <HighlightedLine line={finding.line} match={finding.match} />
+              </p>
+            </div>
+          ))}
+        </div>
+
+        <div className="px-6 py-4 border-t space-y-3">
+          <p className="text-sm text-gray-600">
+            Add or enable a masking rule and mask the logs again, or send anyway if these are false positives.
+          </p>
+          <label className="flex items-start gap-2 text-sm text-gray-900">
+            <input
+              type="checkbox"
+              checked={acknowledged}
+              onChange={(e) => setAcknowledged(e.target.checked)}
+              className="mt-0.5 h-4 w-4 text-red-600 focus:ring-red-500 border-gray-300 rounded"
+            />
+            I have reviewed these lines and accept sending them. This override is recorded in the analysis report.
+          </label>
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={onCancel}
+              className="px-4 py-2 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={onOverride}
+              disabled={!acknowledged}
+              className="px-4 py-2 rounded-lg bg-red-600 text-white hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Send anyway
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LeakScanDialog;
@@ -0,0 +1,111 @@
+import { useState, useEffect } from 'react';
+import { LogEntry, TimeBucket } from '../types';
+
+interface LevelHistogramProps {
+  buckets: TimeBucket[];
+  // Bucket start -> anomaly count, drawn as a dot above the bar
+  markers?: Map<string, number>;
+  height?: number;
+  // Enables drag-selection; a click selects a single bucket
+  onSelectRange?: (first: number, last: number) => void;
+}
+
+// Stacked bottom to top
+const LEVELS: LogEntry['level'][] = ['DEBUG', 'INFO', 'WARN', 'ERROR'];
+
+const LEVEL_COLORS: Record<LogEntry['level'], string> = {
+  ERROR: 'bg-red-500',
+  WARN: 'bg-yellow-400',
+  INFO: 'bg-blue-400',
+  DEBUG: 'bg-gray-300',
+};
+
+const MARKER_HEIGHT_PX = 12;
+
+const LevelHistogram: React.FC<LevelHistogramProps> = ({ buckets, markers, height = 96, onSelectRange }) => {
+  const [drag, setDrag] = useState<{ from: number; to: number } | null>(null);
+  const maxTotal = Math.max(1, ...buckets.map(bucket => bucket.total));
+
+  // The button can be released outside the chart
+  useEffect(() => {
+    if (!drag || !onSelectRange) return;
+    const finish = () => {
+      onSelectRange(Math.min(drag.from, drag.to), Math.max(drag.from, drag.to));
+      setDrag(null);
+    };
+    window.addEventListener('mouseup', finish);
+    return () => window.removeEventListener('mouseup', finish);
+  }, [drag, onSelectRange]);
+
+  const isSelected = (index: number) =>
+    drag !== null && index >= Math.min(drag.from, drag.to) && index <= Math.max(drag.from, drag.to);
+
+  const first = buckets[0];
+  const last = buckets[buckets.length - 1];
+
+  return (
+    <div>
+      <div
+        className={`flex items-end gap-px border-b border-gray-300 select-none ${onSelectRange ? 'cursor-crosshair' : ''}`}
+        style={{ height: height + (markers ? MARKER_HEIGHT_PX : 0) }}
+      >
+        {buckets.map((bucket, index) => {
+          const markerCount = markers?.get(bucket.start) || 0;
+          return (
+            <div
+              key={bucket.start}
+              onMouseDown={onSelectRange && ((e) => {
+                e.preventDefault();
+                setDrag({ from: index, to: index });
+              })}
+              onMouseEnter={onSelectRange && (() => setDrag(prev => (prev ? { ...prev, to: index } : prev)))}
+              className={`flex-1 min-w-0 flex flex-col justify-end h-full ${
+                isSelected(index) ? 'bg-blue-100' : onSelectRange ? 'hover:bg-gray-100' : ''
+              }`}
+              title={`${new Date(bucket.start).toLocaleString()}: ${bucket.total} entries${
+                markerCount > 0 ? `, ${markerCount} ${markerCount === 1 ? 'anomaly' : 'anomalies'}` : ''
+              }`}
+            >
+              {markers && (
+                <div className="flex justify-center items-end" style={{ height: MARKER_HEIGHT_PX }}>
+                  {markerCount > 0 && <span className="w-2 h-2 rounded-full bg-red-600" />}
+                </div>
+              )}
+              <div className="flex flex-col-reverse" style={{ height: (bucket.total / maxTotal) * height }}>
+                {LEVELS.filter(level => bucket.levels[level] > 0).map(level => (
+                  <div
+                    key={level}
+                    className={LEVEL_COLORS[level]}
+                    style={{ height: `${(bucket.levels[level] / bucket.total) * 100}%` }}
+                  />
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+      {first && last && (
+        <div className="flex justify-between text-xs text-gray-500 mt-1">
+          <span>{new Date(first.start).toLocaleString()}</span>
+          <span>{new Date(last.end).toLocaleString()}</span>
+        </div>
+      )}
+      <div className="flex flex-wrap gap-3 text-xs text-gray-600 mt-2">
+        {[...LEVELS].reverse().map(level => (
+          <span key={level} className="flex items-center gap-1">
+            <span className={`w-2.5 h-2.5 rounded-sm ${LEVEL_COLORS[level]}`} />
+            {level}
+          </span>
+        ))}
+        {markers && (
+          <span className="flex items-center gap-1">
+            <span className="w-2 h-2 rounded-full bg-red-600" />
+            Anomaly
+          </span>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default LevelHistogram;
@@ -0,0 +1,85 @@
+import { useMemo, useState } from 'react';
+import { BarChart3 } from 'lucide-react';
+import { FilterOptions, LogEntry } from '../types';
+import { countByBucket, formatInterval } from '../anomalyDetection';
+import { useFilteredLogs } from '../worker/useFilteredLogs';
+import LevelHistogram from './LevelHistogram';
+
+interface LogHistogramProps {
+  logs: LogEntry[];
+  filters: FilterOptions;
+  onTimestampRangeChange: (range: FilterOptions['timestampRange']) => void;
+}
+
+// The format of the datetime-local inputs in the filter panel, in local time
+const toDatetimeLocal = (millis: number) => {
+  const date = new Date(millis);
+  const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+  const ms = date.getMilliseconds();
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}${ms ? `.${pad(ms, 3)}` : ''}`;
+};
+
+// Volume of the entries that pass the filters. The time range filter doubles
+// as the zoom: selecting a range narrows it and the chart re-buckets.
+const LogHistogram: React.FC<LogHistogramProps> = ({ logs, filters, onTimestampRangeChange }) => {
+  const [isExpanded, setIsExpanded] = useState(true);
+  const { filteredLogs } = useFilteredLogs(logs, filters);
+  const { intervalMs, buckets } = useMemo(() => countByBucket(filteredLogs, 'auto'), [filteredLogs]);
+  const isZoomed = Boolean(filters.timestampRange.start || filters.timestampRange.end);
+
+  const selectRange = (first: number, last: number) => {
+    // The end of the range is inclusive; stop just short of the next bucket
+    const end = new Date(buckets[last].end).getTime() - 1;
+    onTimestampRangeChange({ start: toDatetimeLocal(new Date(buckets[first].start).getTime()), end: toDatetimeLocal(end) });
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md overflow-hidden">
+      {/* Header */}
+      <div className="px-6 py-4 border-b bg-gray-50">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <BarChart3 className="h-5 w-5 text-gray-600" />
+            <h3 className="text-lg font-semibold text-gray-900">Log Volume</h3>
+            {buckets.length > 0 && (
+              <span className="text-sm text-gray-500">per {formatInterval(intervalMs)}</span>
+            )}
+          </div>
+          <div className="flex items-center gap-3">
+            {isZoomed && (
+              <button
+                onClick={() => onTimestampRangeChange({ start: '', end: '' })}
+                className="text-gray-500 hover:text-gray-700 text-sm"
+              >
+                Reset zoom
+              </button>
+            )}
+            <button
+              onClick={() => setIsExpanded(!isExpanded)}
+              className="text-blue-600 hover:text-blue-800 text-sm font-medium"
+            >
+              {isExpanded ? 'Collapse' : 'Expand'}
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {isExpanded && (
+        <div className="p-4">
+          {buckets.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-4">No entries match the filters.</p>
+          ) : (
+            <>
+              <LevelHistogram buckets={buckets} height={80} onSelectRange={selectRange} />
+              <p className="text-xs text-gray-500 mt-2">
+                Drag across bars to filter to a time range, or click a bar to zoom into it.
+              </p>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LogHistogram;
@@ -1,65 +1,234 @@
-import { useMemo, useState, useEffect } from 'react';
-import { Eye, EyeOff, Clock, AlertTriangle, Info, Bug, Zap } from 'lucide-react';
-import { LogEntry, FilterOptions } from '../types';
+import { useCallback, useMemo, useState, useEffect, useRef } from 'react';
+import { Eye, EyeOff, Clock, AlertTriangle, Info, Bug, Zap, ChevronDown, ChevronRight, ChevronUp, Columns } from 'lucide-react';
+import { SortingState, VisibilityState } from '@tanstack/react-table';
+import { LogEntry, FilterOptions, MatchRange } from '../types';
+import { MaskingVault } from '../vault';
+import { compileFilterQuery, listSources } from '../logFilter';
+import { useFilteredLogs } from '../worker/useFilteredLogs';
+import { useHighlightedLogs } from '../worker/useHighlightedLogs';
+import LogTable, { LogColumn, sortLogs } from './LogTable';
 
 interface LogPreviewProps {
   logs: LogEntry[];
   filters: FilterOptions;
   isMasked: boolean;
   onFilteredCountChange?: (count: number) => void;
+  vault?: MaskingVault;
+  onReveal?: (tokens: string[]) => void;
+  // Jump to and highlight this entry; a new object repeats the jump
+  highlightedLog?: { id: string } | null;
 }
 
-const LogPreview: React.FC<LogPreviewProps> = ({ logs, filters, isMasked, onFilteredCountChange }) => {
-  const [showDetails, setShowDetails] = useState<string | null>(null);
-  const [currentPage, setCurrentPage] = useState(1);
-  const logsPerPage = 50;
-
-  const filteredLogs = useMemo(() => {
-    return logs.filter(log => {
-      // Timestamp filter
-      if (filters.timestampRange.start || filters.timestampRange.end) {
-        const logTime = new Date(log.timestamp);
-        if (filters.timestampRange.start && logTime < new Date(filters.timestampRange.start)) {
-          return false;
-        }
-        if (filters.timestampRange.end && logTime > new Date(filters.timestampRange.end)) {
-          return false;
-        }
-      }
-
-      // Log level filter
-      if (filters.logLevel && log.level !== filters.logLevel) {
-        return false;
-      }
-
-      // Keyword filter
-      if (filters.keyword && !log.message.toLowerCase().includes(filters.keyword.toLowerCase())) {
-        return false;
-      }
-
-      // Component filter
-      if (filters.component && (!log.component || !log.component.toLowerCase().includes(filters.component.toLowerCase()))) {
-        return false;
-      }
-
-      // Response code filter
-      if (filters.responseCode) {
-        if (filters.responseCode.length === 1) {
-          // Filter by status code category (2xx, 3xx, etc.)
-          if (!log.responseCode || !log.responseCode.startsWith(filters.responseCode)) {
-            return false;
-          }
-        } else {
-          // Filter by exact status code
-          if (log.responseCode !== filters.responseCode) {
-            return false;
-          }
-        }
-      }
-
-      return true;
+// Assigned to the sources in order; cycles when there are more sources
+const SOURCE_COLORS = [
+  { border: 'border-l-indigo-400', badge: 'bg-indigo-100 text-indigo-800' },
+  { border: 'border-l-teal-400', badge: 'bg-teal-100 text-teal-800' },
+  { border: 'border-l-orange-400', badge: 'bg-orange-100 text-orange-800' },
+  { border: 'border-l-pink-400', badge: 'bg-pink-100 text-pink-800' },
+  { border: 'border-l-lime-500', badge: 'bg-lime-100 text-lime-800' },
+  { border: 'border-l-sky-400', badge: 'bg-sky-100 text-sky-800' },
+  { border: 'border-l-violet-400', badge: 'bg-violet-100 text-violet-800' },
+  { border: 'border-l-amber-500', badge: 'bg-amber-100 text-amber-800' },
+];
+
+// Sorting by level puts the most severe first when descending
+const LEVEL_RANK: Record<LogEntry['level'], number> = { DEBUG: 0, INFO: 1, WARN: 2, ERROR: 3 };
+
+// Metadata keys offered as columns; JSON logs can carry hundreds
+const MAX_METADATA_COLUMNS = 30;
+
+const HighlightedText = ({ text, ranges }: { text: string; ranges: MatchRange[] }) => {
+  if (ranges.length === 0) return <>{text}</>;
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+  ranges.forEach(([start, end], index) => {
+    if (start > position) parts.push(text.slice(position, start));
+    parts.push(<mark key={index} className="bg-yellow-200 text-gray-900 rounded-sm">{text.slice(start, end)}</mark>);
+    position = end;
+  });
+  if (position < text.length) parts.push(text.slice(position));
+  return <>{parts}</>;
+};
+
+const formatMetadataValue = (value: unknown) =>
+  typeof value === 'string' ? value : JSON.stringify(value);
+
+// Every displayed field that may hold a pseudonymized token
+const displayedText = (log: LogEntry): string => [
+  log.message,
+  log.stackTrace,
+  log.url,
+  log.clientIp,
+  log.userAgent,
+  ...Object.values(log.headers || {}),
+  ...Object.values(log.metadata || {}).map(formatMetadataValue),
+].filter(Boolean).join('\n');
+
+const collectMetadataKeys = (logs: LogEntry[]): string[] => {
+  const keys = new Set<string>();
+  for (const log of logs) {
+    for (const key of Object.keys(log.metadata || {})) {
+      if (keys.size >= MAX_METADATA_COLUMNS) break;
+      keys.add(key);
+    }
+    if (keys.size >= MAX_METADATA_COLUMNS) break;
+  }
+  return Array.from(keys).sort();
+};
+
+const getLevelIcon = (level: LogEntry['level']) => {
+  switch (level) {
+    case 'ERROR':
+      return <AlertTriangle className="w-4 h-4 text-red-500" />;
+    case 'WARN':
+      return <Zap className="w-4 h-4 text-yellow-500" />;
+    case 'INFO':
+      return <Info className="w-4 h-4 text-blue-500" />;
+    case 'DEBUG':
+      return <Bug className="w-4 h-4 text-gray-500" />;
+    default:
+      return <Info className="w-4 h-4 text-gray-500" />;
+  }
+};
+
+const getLevelStyles = (level: LogEntry['level']) => {
+  switch (level) {
+    case 'ERROR':
+      return 'bg-red-50 border-red-200 text-red-800';
+    case 'WARN':
+      return 'bg-yellow-50 border-yellow-200 text-yellow-800';
+    case 'INFO':
+      return 'bg-blue-50 border-blue-200 text-blue-800';
+    case 'DEBUG':
+      return 'bg-gray-50 border-gray-200 text-gray-800';
+    default:
+      return 'bg-gray-50 border-gray-200 text-gray-800';
+  }
+};
+
+const getStatusStyles = (code: string) =>
+  code.startsWith('2') ? 'bg-green-100 text-green-800' :
+  code.startsWith('4') || code.startsWith('5') ? 'bg-red-100 text-red-800' :
+  'bg-gray-100 text-gray-800';
+
+const formatTimestamp = (timestamp: string) => {
+  try {
+    return new Date(timestamp).toLocaleString();
+  } catch {
+    return timestamp;
+  }
+};
+
+const getHttpDetails = (log: LogEntry): [string, string][] => {
+  const details: [string, string | undefined][] = [
+    ['Method', log.method],
+    ['Client IP', log.clientIp],
+    ['Bytes', log.bytes?.toString()],
+    ['Latency', log.latencyMs !== undefined ? `${log.latencyMs} ms` : undefined],
+    ['User agent', log.userAgent],
+  ];
+  return details.filter((detail): detail is [string, string] => detail[1] !== undefined);
+};
+
+const hasDetails = (log: LogEntry) =>
+  Boolean(log.url || log.headers || log.metadata || getHttpDetails(log).length > 0);
+
+const LogPreview: React.FC<LogPreviewProps> = ({ logs, filters, isMasked, onFilteredCountChange, vault, onReveal, highlightedLog }) => {
+  const [showDetails, setShowDetails] = useState(false);
+  const [isTraceExpanded, setIsTraceExpanded] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [hiddenHighlight, setHiddenHighlight] = useState<string | null>(null);
+  const [scrollRequest, setScrollRequest] = useState<{ index: number } | null>(null);
+  const [visibleRange, setVisibleRange] = useState<[number, number]>([0, -1]);
+  const [sorting, setSorting] = useState<SortingState>([]);
+  const [columnVisibility, setColumnVisibility] = useState<VisibilityState>({});
+  const [isColumnMenuOpen, setIsColumnMenuOpen] = useState(false);
+  const columnMenuRef = useRef<HTMLDivElement>(null);
+  const [isRevealed, setIsRevealed] = useState(false);
+
+  const { filteredLogs, isFiltering } = useFilteredLogs(logs, filters);
+  const highlightedLogs = useHighlightedLogs(logs, filters);
+
+  // Colour coding only helps when files were merged
+  const sourceColors = useMemo(() => {
+    const sources = listSources(logs);
+    return sources.length > 1
+      ? new Map(sources.map((source, index) => [source, SOURCE_COLORS[index % SOURCE_COLORS.length]]))
+      : null;
+  }, [logs]);
+
+  const metadataKeys = useMemo(() => collectMetadataKeys(logs), [logs]);
+
+  // Columns start visible when the logs have data for them; metadata columns
+  // start hidden and are picked from the Columns menu
+  const defaultVisibility = useMemo<VisibilityState>(() => {
+    const has = (field: keyof LogEntry) => logs.some(log => log[field] !== undefined && log[field] !== '');
+    const visibility: VisibilityState = {
+      source: sourceColors !== null,
+      component: has('component'),
+      status: has('responseCode'),
+      method: has('method'),
+      url: has('url'),
+    };
+    metadataKeys.forEach(key => {
+      visibility[`meta.${key}`] = false;
     });
-  }, [logs, filters]);
+    return visibility;
+  }, [logs, sourceColors, metadataKeys]);
+
+  // New logs with the same shape keep the columns the user picked
+  const visibilityKey = JSON.stringify(defaultVisibility);
+  useEffect(() => {
+    setColumnVisibility(defaultVisibility);
+  }, [visibilityKey]);
+
+  const display = useCallback(
+    (text: string) => (isRevealed && vault ? vault.reveal(text) : text),
+    [isRevealed, vault]
+  );
+
+  // What each column sorts on. Sort values do not depend on how cells
+  // render, so revealing values or a new highlight does not re-sort.
+  const sortColumns = useMemo<LogColumn[]>(() => [
+    { id: 'timestamp', header: 'Time', accessorFn: log => log.timestampMs, size: 180 },
+    { id: 'level', header: 'Level', accessorFn: log => LEVEL_RANK[log.level], size: 100, sortDescFirst: true },
+    { id: 'source', header: 'Source', accessorFn: log => log.source ?? '', size: 140 },
+    { id: 'component', header: 'Component', accessorFn: log => log.component ?? '', size: 140 },
+    {
+      id: 'status',
+      header: 'Status',
+      accessorFn: log => (log.responseCode ? Number(log.responseCode) : undefined),
+      sortUndefined: 'last',
+      size: 80,
+    },
+    { id: 'method', header: 'Method', accessorFn: log => log.method ?? '', size: 80 },
+    { id: 'url', header: 'URL', accessorFn: log => log.url ?? '', size: 240 },
+    { id: 'message', header: 'Message', accessorFn: log => log.message, size: 600, enableHiding: false },
+    ...metadataKeys.map((key): LogColumn => ({
+      id: `meta.${key}`,
+      header: key,
+      accessorFn: log => (log.metadata?.[key] !== undefined ? formatMetadataValue(log.metadata[key]) : ''),
+      size: 140,
+    })),
+  ], [metadataKeys]);
+
+  const sortedLogs = useMemo(() => sortLogs(filteredLogs, sortColumns, sorting), [filteredLogs, sortColumns, sorting]);
+
+  // Positions in sortedLogs of entries whose message highlights a search term
+  const matchIndices = useMemo(() => {
+    const indices: number[] = [];
+    sortedLogs.forEach((log, index) => {
+      if (highlightedLogs.has(log)) indices.push(index);
+    });
+    return indices;
+  }, [highlightedLogs, sortedLogs]);
+  const [currentMatch, setCurrentMatch] = useState(-1);
+
+  const selectedIndex = useMemo(
+    () => (selectedId === null ? -1 : sortedLogs.findIndex(log => log.id === selectedId)),
+    [sortedLogs, selectedId]
+  );
+  const selectedLog = selectedIndex === -1 ? undefined : sortedLogs[selectedIndex];
 
   // Notify parent of filtered count change
   useEffect(() => {
@@ -68,59 +237,133 @@ const LogPreview: React.FC<LogPreviewProps> = ({ logs, filters, isMasked, onFilt
     }
   }, [filteredLogs.length, onFilteredCountChange]);
 
-  const paginatedLogs = useMemo(() => {
-    const startIndex = (currentPage - 1) * logsPerPage;
-    return filteredLogs.slice(startIndex, startIndex + logsPerPage);
-  }, [filteredLogs, currentPage]);
-
-  const totalPages = Math.ceil(filteredLogs.length / logsPerPage);
-
-  const getLevelIcon = (level: LogEntry['level']) => {
-    switch (level) {
-      case 'ERROR':
-        return <AlertTriangle className="w-4 h-4 text-red-500" />;
-      case 'WARN':
-        return <Zap className="w-4 h-4 text-yellow-500" />;
-      case 'INFO':
-        return <Info className="w-4 h-4 text-blue-500" />;
-      case 'DEBUG':
-        return <Bug className="w-4 h-4 text-gray-500" />;
-      default:
-        return <Info className="w-4 h-4 text-gray-500" />;
-    }
-  };
+  useEffect(() => {
+    setCurrentMatch(-1);
+  }, [filters]);
 
-  const getLevelStyles = (level: LogEntry['level']) => {
-    switch (level) {
-      case 'ERROR':
-        return 'bg-red-50 border-red-200 text-red-800';
-      case 'WARN':
-        return 'bg-yellow-50 border-yellow-200 text-yellow-800';
-      case 'INFO':
-        return 'bg-blue-50 border-blue-200 text-blue-800';
-      case 'DEBUG':
-        return 'bg-gray-50 border-gray-200 text-gray-800';
-      default:
-        return 'bg-gray-50 border-gray-200 text-gray-800';
+  const selectRow = (index: number) => {
+    const id = sortedLogs[index].id;
+    if (id !== selectedId) {
+      setShowDetails(false);
+      setIsTraceExpanded(false);
     }
+    setSelectedId(id);
+    setHiddenHighlight(null);
   };
 
-  const formatTimestamp = (timestamp: string) => {
-    try {
-      return new Date(timestamp).toLocaleString();
-    } catch {
-      return timestamp;
+  // Runs per request only, so changing the filters afterwards does not jump again
+  useEffect(() => {
+    if (!highlightedLog) return;
+    const index = sortedLogs.findIndex(log => log.id === highlightedLog.id);
+    setSelectedId(highlightedLog.id);
+    if (index === -1) {
+      setHiddenHighlight(highlightedLog.id);
+      return;
     }
-  };
+    setHiddenHighlight(null);
+    setShowDetails(false);
+    setIsTraceExpanded(false);
+    setScrollRequest({ index });
+  }, [highlightedLog]);
 
-  const toggleDetails = (logId: string) => {
-    setShowDetails(showDetails === logId ? null : logId);
+  // Matches wrap around at either end
+  const goToMatch = (step: 1 | -1) => {
+    if (matchIndices.length === 0) return;
+    const next = currentMatch === -1 && step === -1
+      ? matchIndices.length - 1
+      : (currentMatch + step + matchIndices.length) % matchIndices.length;
+    setCurrentMatch(next);
+    selectRow(matchIndices[next]);
+    setScrollRequest({ index: matchIndices[next] });
   };
 
-  const goToPage = (page: number) => {
-    setCurrentPage(page);
-    setShowDetails(null);
-  };
+  const handleVisibleRangeChange = useCallback((first: number, last: number) => setVisibleRange([first, last]), []);
+
+  // The rows rendered, plus the one open in the detail pane
+  const onScreen = useMemo(() => {
+    const rows = sortedLogs.slice(visibleRange[0], visibleRange[1] + 1);
+    if (selectedLog && !rows.includes(selectedLog)) rows.push(selectedLog);
+    return rows;
+  }, [sortedLogs, visibleRange, selectedLog]);
+
+  // Only the tokens on screen are revealed (and audited)
+  const visibleTokens = useMemo(
+    () => (vault && isMasked ? vault.findTokens(onScreen.map(displayedText).join('\n')) : []),
+    [vault, isMasked, onScreen]
+  );
+  const canReveal = Boolean(vault && isMasked && vault.size() > 0);
+
+  // Only highlights what is on screen, so it is compiled over those rows: a
+  // fuzzy search indexes every entry it is given
+  const compiledQuery = useMemo(() => compileFilterQuery(filters, onScreen), [filters, onScreen]);
+
+  const columns = useMemo<LogColumn[]>(() => {
+    const cells: Record<string, LogColumn['cell']> = {
+      timestamp: ({ row: { original: log } }) => (
+        <span
+          className="text-gray-500"
+          title={log.rawTimestamp ? `As logged: ${log.rawTimestamp}` : 'No timestamp in the line; taken from the entry before it'}
+        >
+          {formatTimestamp(log.timestamp)}
+          {!log.rawTimestamp && <span className="ml-1 text-gray-400">(inherited)</span>}
+        </span>
+      ),
+      level: ({ row: { original: log } }) => (
+        <span className="inline-flex items-center gap-1">
+          {getLevelIcon(log.level)}
+          <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium border ${getLevelStyles(log.level)}`}>
+            {log.level}
+          </span>
+        </span>
+      ),
+      source: ({ row: { original: log } }) =>
+        log.source ? (
+          <span className={`px-2 py-0.5 rounded text-xs font-medium ${sourceColors?.get(log.source)?.badge ?? 'bg-gray-100 text-gray-800'}`}>
+            {log.source}
+          </span>
+        ) : null,
+      component: ({ row: { original: log } }) =>
+        log.component ? (
+          <span className="px-2 py-0.5 rounded text-xs font-medium bg-gray-100 text-gray-800">{log.component}</span>
+        ) : null,
+      status: ({ row: { original: log } }) =>
+        log.responseCode ? (
+          <span className={`px-2 py-0.5 rounded text-xs font-medium ${getStatusStyles(log.responseCode)}`}>
+            {log.responseCode}
+          </span>
+        ) : null,
+      method: ({ row: { original: log } }) => <span className="font-mono text-xs text-gray-700">{log.method}</span>,
+      url: ({ row: { original: log } }) =>
+        log.url ? <span className="font-mono text-xs text-gray-700" title={display(log.url)}>{display(log.url)}</span> : null,
+      message: ({ row: { original: log } }) => {
+        const text = display(log.message);
+        return (
+          <span className="font-mono text-gray-900">
+            <HighlightedText text={text} ranges={compiledQuery ? compiledQuery.highlight(log, text) : []} />
+          </span>
+        );
+      },
+    };
+    const metadataCell: LogColumn['cell'] = ({ getValue }) => (
+      <span className="font-mono text-xs text-gray-700">{display(getValue() as string)}</span>
+    );
+    return sortColumns.map(column => ({ ...column, cell: cells[column.id] ?? metadataCell }));
+  }, [sortColumns, display, compiledQuery, sourceColors]);
+
+  useEffect(() => {
+    if (isRevealed && visibleTokens.length > 0) {
+      onReveal?.(visibleTokens);
+    }
+  }, [isRevealed, visibleTokens, onReveal]);
+
+  useEffect(() => {
+    if (!isColumnMenuOpen) return;
+    const close = (e: MouseEvent) => {
+      if (!columnMenuRef.current?.contains(e.target as Node)) setIsColumnMenuOpen(false);
+    };
+    document.addEventListener('mousedown', close);
+    return () => document.removeEventListener('mousedown', close);
+  }, [isColumnMenuOpen]);
 
   return (
     <div className="bg-white rounded-lg shadow-md overflow-hidden">
@@ -142,133 +385,205 @@ const LogPreview: React.FC<LogPreviewProps> = ({ logs, filters, isMasked, onFilt
               </span>
             )}
           </div>
-          <div className="text-sm text-gray-500">
-            Showing {paginatedLogs.length} of {filteredLogs.length} logs
+          <div className="flex items-center gap-3">
+            {canReveal && (
+              <button
+                onClick={() => setIsRevealed(!isRevealed)}
+                aria-pressed={isRevealed}
+                title="Swap pseudonymized tokens back to the real values, in this browser only"
+                className={`text-xs font-medium px-2.5 py-1 rounded border ${
+                  isRevealed
+                    ? 'bg-amber-100 border-amber-300 text-amber-800'
+                    : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                {isRevealed ? 'Hide values' : 'Reveal values'}
+              </button>
+            )}
+            <div ref={columnMenuRef} className="relative">
+              <button
+                onClick={() => setIsColumnMenuOpen(!isColumnMenuOpen)}
+                aria-expanded={isColumnMenuOpen}
+                className="flex items-center gap-1 text-xs font-medium px-2.5 py-1 rounded border bg-white border-gray-300 text-gray-700 hover:bg-gray-50"
+              >
+                <Columns className="w-3.5 h-3.5" />
+                Columns
+              </button>
+              {isColumnMenuOpen && (
+                <div className="absolute right-0 z-20 mt-1 w-56 max-h-80 overflow-y-auto bg-white border border-gray-200 rounded-md shadow-lg py-1 text-sm">
+                  {columns.filter(column => column.enableHiding !== false).map(column => (
+                    <label key={column.id} className="flex items-center gap-2 px-3 py-1 hover:bg-gray-50 cursor-pointer text-gray-800">
+                      <input
+                        type="checkbox"
+                        checked={columnVisibility[column.id] !== false}
+                        onChange={(e) => setColumnVisibility({ ...columnVisibility, [column.id]: e.target.checked })}
+                        className="rounded border-gray-300"
+                      />
+                      <span className={`truncate ${column.id.startsWith('meta.') ? 'font-mono text-xs' : ''}`}>
+                        {column.header}
+                      </span>
+                    </label>
+                  ))}
+                </div>
+              )}
+            </div>
+            <div className="text-sm text-gray-500">
+              {isFiltering ? 'Filtering…' : `Showing ${filteredLogs.length} of ${logs.length} logs`}
+            </div>
           </div>
         </div>
       </div>
 
+      {hiddenHighlight && (
+        <div className="px-6 py-2 border-b bg-yellow-50 text-sm text-yellow-800">
+          {hiddenHighlight} is hidden by the current filters.
+        </div>
+      )}
+
+      {matchIndices.length > 0 && (
+        <div className="px-6 py-2 border-b bg-gray-50 flex items-center justify-end gap-2 text-sm text-gray-700">
+          <span>
+            {currentMatch === -1
+              ? `${matchIndices.length} ${matchIndices.length === 1 ? 'entry matches' : 'entries match'} the search`
+              : `Match ${currentMatch + 1} of ${matchIndices.length}`}
+          </span>
+          <button
+            onClick={() => goToMatch(-1)}
+            className="p-1 rounded border border-gray-300 bg-white hover:bg-gray-100"
+            title="Previous match"
+            aria-label="Previous match"
+          >
+            <ChevronUp className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => goToMatch(1)}
+            className="p-1 rounded border border-gray-300 bg-white hover:bg-gray-100"
+            title="Next match"
+            aria-label="Next match"
+          >
+            <ChevronDown className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
       {/* Log Entries */}
-      <div className="max-h-96 overflow-y-auto">
-        {paginatedLogs.length === 0 ? (
-          <div className="p-8 text-center text-gray-500">
-            <Clock className="mx-auto h-12 w-12 mb-4 opacity-50" />
-            <p className="text-lg font-medium mb-2">No logs found</p>
-            <p className="text-sm">Try adjusting your filters or upload different log data.</p>
-          </div>
-        ) : (
-          <div className="divide-y divide-gray-200">
-            {paginatedLogs.map((log) => (
-              <div key={log.id} className="p-4 hover:bg-gray-50">
-                <div className="flex items-start gap-3">
-                  <div className="flex-shrink-0 mt-0.5">
-                    {getLevelIcon(log.level)}
-                  </div>
-                  <div className="flex-grow min-w-0">
-                    <div className="flex items-center gap-2 mb-2">
-                      <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium border ${getLevelStyles(log.level)}`}>
-                        {log.level}
-                      </span>
-                      <span className="text-sm text-gray-500">
-                        {formatTimestamp(log.timestamp)}
-                      </span>
-                      {log.component && (
-                        <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-gray-100 text-gray-800">
-                          {log.component}
-                        </span>
-                      )}
-                      {log.responseCode && (
-                        <span className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-medium ${
-                          log.responseCode.startsWith('2') ? 'bg-green-100 text-green-800' :
-                          log.responseCode.startsWith('4') || log.responseCode.startsWith('5') ? 'bg-red-100 text-red-800' :
-                          'bg-gray-100 text-gray-800'
-                        }`}>
-                          {log.responseCode}
-                        </span>
-                      )}
-                    </div>
-                    <p className="text-sm text-gray-900 font-mono leading-relaxed break-words">
-                      {log.message}
-                    </p>
-                    {(log.url || log.headers) && (
-                      <button
-                        onClick={() => toggleDetails(log.id)}
-                        className="mt-2 text-xs text-blue-600 hover:text-blue-800"
-                      >
-                        {showDetails === log.id ? 'Hide details' : 'Show details'}
-                      </button>
-                    )}
-                    {showDetails === log.id && (
-                      <div className="mt-3 p-3 bg-gray-100 rounded-md">
-                        {log.url && (
-                          <div className="mb-2">
-                            <span className="text-xs font-medium text-gray-700">URL:</span>
-                            <p className="text-xs text-gray-600 font-mono mt-1 break-all">{log.url}</p>
-                          </div>
-                        )}
-                        {log.headers && Object.keys(log.headers).length > 0 && (
-                          <div>
-                            <span className="text-xs font-medium text-gray-700">Headers:</span>
-                            <div className="mt-1 space-y-1">
-                              {Object.entries(log.headers).map(([key, value]) => (
-                                <div key={key} className="text-xs">
-                                  <span className="text-gray-600 font-mono">{key}:</span>
-                                  <span className="text-gray-800 font-mono ml-2">{value}</span>
-                                </div>
-                              ))}
-                            </div>
-                          </div>
-                        )}
-                      </div>
-                    )}
-                  </div>
-                </div>
-              </div>
-            ))}
-          </div>
-        )}
-      </div>
+      {filteredLogs.length === 0 ? (
+        <div className="p-8 text-center text-gray-500">
+          <Clock className="mx-auto h-12 w-12 mb-4 opacity-50" />
+          <p className="text-lg font-medium mb-2">No logs found</p>
+          <p className="text-sm">Try adjusting your filters or upload different log data.</p>
+        </div>
+      ) : (
+        <LogTable
+          logs={sortedLogs}
+          columns={columns}
+          sorting={sorting}
+          onSortingChange={setSorting}
+          columnVisibility={columnVisibility}
+          selectedIndex={selectedIndex}
+          onSelect={selectRow}
+          onActivate={() => setShowDetails(!showDetails)}
+          scrollRequest={scrollRequest}
+          onVisibleRangeChange={handleVisibleRangeChange}
+          rowClassName={log => (sourceColors && log.source ? `border-l-4 ${sourceColors.get(log.source)?.border}` : '')}
+        />
+      )}
 
-      {/* Pagination */}
-      {totalPages > 1 && (
+      {/* Selected entry */}
+      {selectedLog && (
         <div className="px-6 py-4 border-t bg-gray-50">
-          <div className="flex items-center justify-between">
-            <div className="text-sm font-medium text-black">
-              Page {currentPage} of {totalPages}
-            </div>
-            <div className="flex items-center space-x-3">
-              <button
-                onClick={() => goToPage(currentPage - 1)}
-                disabled={currentPage === 1}
-                className="px-3 py-1 text-sm bg-white border border-gray-300 rounded hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed text-black"
-              >
-                Previous
-              </button>
-              {Array.from({ length: Math.min(5, totalPages) }, (_, i) => {
-                const page = Math.max(1, Math.min(totalPages - 4, currentPage - 2)) + i;
-                return (
-                  <button
-                    key={page}
-                    onClick={() => goToPage(page)}
-                    className={`px-3 py-1 text-sm border rounded ${
-                      currentPage === page
-                        ? 'bg-blue-600 text-white border-blue-600'
-                        : 'bg-white border-gray-300 hover:bg-gray-50 text-black'
-                    }`}
-                  >
-                    {page}
-                  </button>
-                );
-              })}
+          <div className="flex items-center gap-2 mb-2">
+            {getLevelIcon(selectedLog.level)}
+            <span className="text-xs font-medium text-gray-700">{selectedLog.id}</span>
+            <span className="text-xs text-gray-500">{formatTimestamp(selectedLog.timestamp)}</span>
+            <button
+              onClick={() => setSelectedId(null)}
+              className="ml-auto text-xs text-gray-500 hover:text-gray-700"
+            >
+              Close
+            </button>
+          </div>
+          <p className="text-sm text-gray-900 font-mono leading-relaxed break-words whitespace-pre-wrap">
+            <HighlightedText
+              text={display(selectedLog.message)}
+              ranges={compiledQuery ? compiledQuery.highlight(selectedLog, display(selectedLog.message)) : []}
+            />
+          </p>
+          {selectedLog.stackTrace && (
+            <div className="mt-2">
               <button
-                onClick={() => goToPage(currentPage + 1)}
-                disabled={currentPage === totalPages}
-                className="px-3 py-1 text-sm bg-white border border-gray-300 rounded hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed text-black"
+                onClick={() => setIsTraceExpanded(!isTraceExpanded)}
+                aria-expanded={isTraceExpanded}
+                className="flex items-center gap-1 text-xs text-red-700 hover:text-red-900"
               >
-                Next
+                {isTraceExpanded ? (
+                  <ChevronDown className="w-3 h-3" />
+                ) : (
+                  <ChevronRight className="w-3 h-3" />
+                )}
+                Stack trace ({selectedLog.stackTrace.split('\n').length} lines)
               </button>
+              {isTraceExpanded && (
+                <pre className="mt-1 p-3 bg-gray-900 text-gray-100 text-xs font-mono rounded-md overflow-x-auto whitespace-pre">
+                  {display(selectedLog.stackTrace)}
+                </pre>
+              )}
             </div>
-          </div>
+          )}
+          {hasDetails(selectedLog) && (
+            <button
+              onClick={() => setShowDetails(!showDetails)}
+              className="mt-2 text-xs text-blue-600 hover:text-blue-800"
+            >
+              {showDetails ? 'Hide details' : 'Show details'}
+            </button>
+          )}
+          {showDetails && (
+            <div className="mt-3 p-3 bg-gray-100 rounded-md">
+              {selectedLog.url && (
+                <div className="mb-2">
+                  <span className="text-xs font-medium text-gray-700">URL:</span>
+                  <p className="text-xs text-gray-600 font-mono mt-1 break-all">{display(selectedLog.url)}</p>
+                </div>
+              )}
+              {getHttpDetails(selectedLog).length > 0 && (
+                <div className="mb-2 grid grid-cols-[auto,1fr] gap-x-2 gap-y-1">
+                  {getHttpDetails(selectedLog).map(([label, value]) => (
+                    <div key={label} className="contents text-xs">
+                      <span className="font-medium text-gray-700">{label}:</span>
+                      <span className="text-gray-600 font-mono break-all">{display(value)}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+              {selectedLog.headers && Object.keys(selectedLog.headers).length > 0 && (
+                <div className="mb-2">
+                  <span className="text-xs font-medium text-gray-700">Headers:</span>
+                  <div className="mt-1 space-y-1">
+                    {Object.entries(selectedLog.headers).map(([key, value]) => (
+                      <div key={key} className="text-xs">
+                        <span className="text-gray-600 font-mono">{key}:</span>
+                        <span className="text-gray-800 font-mono ml-2">{display(value)}</span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+              {selectedLog.metadata && Object.keys(selectedLog.metadata).length > 0 && (
+                <div>
+                  <span className="text-xs font-medium text-gray-700">Fields:</span>
+                  <div className="mt-1 space-y-1">
+                    {Object.entries(selectedLog.metadata).map(([key, value]) => (
+                      <div key={key} className="text-xs">
+                        <span className="text-gray-600 font-mono">{key}:</span>
+                        <span className="text-gray-800 font-mono ml-2 break-all">{display(formatMetadataValue(value))}</span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
         </div>
       )}
     </div>
@@ -0,0 +1,269 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { ArrowDown, ArrowUp } from 'lucide-react';
+import {
+  AccessorFnColumnDefBase,
+  ColumnSizingState,
+  IdIdentifier,
+  OnChangeFn,
+  Row,
+  SortingState,
+  VisibilityState,
+  flexRender,
+  getCoreRowModel,
+  useReactTable,
+} from '@tanstack/react-table';
+import { LogEntry } from '../types';
+
+// Every column has an id, a plain-text header (also used by the column
+// picker) and a value to sort on
+export type LogColumn = AccessorFnColumnDefBase<LogEntry, unknown> & IdIdentifier<LogEntry, unknown> & { header: string };
+
+interface LogTableProps {
+  // Already filtered and sorted; see sortLogs
+  logs: LogEntry[];
+  columns: LogColumn[];
+  sorting: SortingState;
+  onSortingChange: OnChangeFn<SortingState>;
+  columnVisibility: VisibilityState;
+  // -1 when nothing is selected
+  selectedIndex: number;
+  onSelect: (index: number) => void;
+  // Enter on the selected row
+  onActivate?: (index: number) => void;
+  // Scroll this row into view; a new object repeats the scroll
+  scrollRequest: { index: number } | null;
+  // Rows currently rendered, e.g. to reveal only what is on screen
+  onVisibleRangeChange?: (first: number, last: number) => void;
+  rowClassName?: (log: LogEntry) => string;
+}
+
+const ROW_HEIGHT = 32;
+const HEADER_HEIGHT = 34;
+const OVERSCAN_ROWS = 10;
+// Browsers cap element heights (Firefox near 17.9M px); beyond this the
+// scroll range is compressed and mapped back onto the rows
+const MAX_SCROLL_HEIGHT = 10_000_000;
+
+const collator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+
+const isMissing = (value: unknown) => value === undefined || value === null || value === '';
+
+const compareValues = (a: unknown, b: unknown) =>
+  typeof a === 'number' && typeof b === 'number' ? a - b : collator.compare(String(a), String(b));
+
+// The table only ever sees the rows in view, so sorting the whole list is
+// done here. Sort values are read once per entry; missing values go last in
+// either direction and ties keep their original order.
+export function sortLogs(logs: LogEntry[], columns: LogColumn[], sorting: SortingState): LogEntry[] {
+  const keys = sorting.flatMap(({ id, desc }) => {
+    const column = columns.find(c => c.id === id);
+    return column ? [{ values: logs.map((log, index) => column.accessorFn(log, index)), direction: desc ? -1 : 1 }] : [];
+  });
+  if (keys.length === 0) return logs;
+
+  const order = logs.map((_, index) => index);
+  order.sort((a, b) => {
+    for (const { values, direction } of keys) {
+      const [x, y] = [values[a], values[b]];
+      if (isMissing(x) || isMissing(y)) {
+        if (isMissing(x) !== isMissing(y)) return isMissing(x) ? 1 : -1;
+        continue;
+      }
+      const result = compareValues(x, y);
+      if (result !== 0) return result * direction;
+    }
+    return a - b;
+  });
+  return order.map(index => logs[index]);
+}
+
+// Only the rows in view are rendered, at a fixed height, and only they are
+// handed to TanStack Table, so a million rows cost the same as fifty
+const LogTable: React.FC<LogTableProps> = ({
+  logs,
+  columns,
+  sorting,
+  onSortingChange,
+  columnVisibility,
+  selectedIndex,
+  onSelect,
+  onActivate,
+  scrollRequest,
+  onVisibleRangeChange,
+  rowClassName,
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(448);
+
+  const [columnSizing, setColumnSizing] = useState<ColumnSizingState>({});
+
+  const rowsHeight = logs.length * ROW_HEIGHT;
+  const contentHeight = Math.min(rowsHeight, MAX_SCROLL_HEIGHT);
+  const bodyHeight = Math.max(0, viewportHeight - HEADER_HEIGHT);
+  const maxScroll = Math.max(0, contentHeight - bodyHeight);
+  const maxOffset = Math.max(0, rowsHeight - bodyHeight);
+  // Offset into the full list of rows; equals scrollTop unless compressed
+  const offset = maxScroll > 0 ? (Math.min(scrollTop, maxScroll) / maxScroll) * maxOffset : 0;
+  const first = Math.max(0, Math.floor(offset / ROW_HEIGHT) - OVERSCAN_ROWS);
+  const last = Math.min(logs.length - 1, Math.ceil((offset + bodyHeight) / ROW_HEIGHT) + OVERSCAN_ROWS);
+  const pageSize = Math.max(1, Math.floor(bodyHeight / ROW_HEIGHT) - 1);
+
+  const windowLogs = useMemo(() => logs.slice(first, last + 1), [logs, first, last]);
+  const table = useReactTable({
+    data: windowLogs,
+    columns,
+    state: { sorting, columnVisibility, columnSizing },
+    onSortingChange,
+    onColumnSizingChange: setColumnSizing,
+    manualSorting: true,
+    getCoreRowModel: getCoreRowModel(),
+    getRowId: log => log.id,
+    columnResizeMode: 'onChange',
+    defaultColumn: { minSize: 60, maxSize: 2000 },
+  });
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(() => setViewportHeight(container.clientHeight));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    onVisibleRangeChange?.(first, last);
+  }, [first, last, onVisibleRangeChange]);
+
+  const scrollToIndex = (index: number, align: 'center' | 'nearest') => {
+    const container = containerRef.current;
+    if (!container) return;
+    const rowTop = index * ROW_HEIGHT;
+    let target = offset;
+    if (align === 'center') {
+      target = rowTop - bodyHeight / 2 + ROW_HEIGHT / 2;
+    } else if (rowTop < offset) {
+      target = rowTop;
+    } else if (rowTop + ROW_HEIGHT > offset + bodyHeight) {
+      target = rowTop + ROW_HEIGHT - bodyHeight;
+    }
+    target = Math.max(0, Math.min(target, maxOffset));
+    container.scrollTop = maxOffset > 0 ? (target / maxOffset) * maxScroll : 0;
+  };
+
+  useEffect(() => {
+    // Runs per request only
+    if (scrollRequest) scrollToIndex(scrollRequest.index, 'center');
+  }, [scrollRequest]);
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (logs.length === 0) return;
+    const moves: Record<string, number> = {
+      ArrowDown: 1,
+      ArrowUp: -1,
+      PageDown: pageSize,
+      PageUp: -pageSize,
+      Home: -logs.length,
+      End: logs.length,
+    };
+    if (e.key in moves) {
+      e.preventDefault();
+      // Without a selection, the first arrow press lands on the top row in view
+      const current = selectedIndex !== -1 ? selectedIndex : Math.ceil(offset / ROW_HEIGHT) - Math.sign(moves[e.key]);
+      const next = Math.max(0, Math.min(logs.length - 1, current + moves[e.key]));
+      onSelect(next);
+      scrollToIndex(next, 'nearest');
+    } else if (e.key === 'Enter' && selectedIndex !== -1) {
+      e.preventDefault();
+      onActivate?.(selectedIndex);
+    }
+  };
+
+  const renderRow = (row: Row<LogEntry>, index: number) => (
+    <div
+      key={row.id}
+      role="row"
+      aria-selected={index === selectedIndex}
+      onClick={() => onSelect(index)}
+      onDoubleClick={() => onActivate?.(index)}
+      className={`absolute left-0 flex items-center border-b border-gray-100 text-sm cursor-pointer ${
+        index === selectedIndex ? 'bg-blue-50 ring-2 ring-inset ring-blue-400' : 'hover:bg-gray-50'
+      } ${rowClassName?.(row.original) ?? ''}`}
+      style={{ top: scrollTop + index * ROW_HEIGHT - offset, height: ROW_HEIGHT, width: table.getTotalSize() }}
+    >
+      {row.getVisibleCells().map(cell => (
+        <div
+          key={cell.id}
+          role="gridcell"
+          className="px-2 truncate flex-none"
+          style={{ width: cell.column.getSize() }}
+        >
+          {flexRender(cell.column.columnDef.cell, cell.getContext())}
+        </div>
+      ))}
+    </div>
+  );
+
+  return (
+    <div
+      ref={containerRef}
+      role="grid"
+      aria-rowcount={logs.length}
+      tabIndex={0}
+      onKeyDown={handleKeyDown}
+      onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+      className="h-[28rem] overflow-auto focus:outline-none focus:ring-2 focus:ring-inset focus:ring-blue-300"
+    >
+      <div style={{ width: table.getTotalSize(), minWidth: '100%' }}>
+        {/* Header */}
+        {table.getHeaderGroups().map(headerGroup => (
+          <div
+            key={headerGroup.id}
+            role="row"
+            className="sticky top-0 z-10 flex bg-gray-100 border-b border-gray-200 text-xs font-medium text-gray-700"
+            style={{ height: HEADER_HEIGHT }}
+          >
+            {headerGroup.headers.map(header => {
+              const sorted = header.column.getIsSorted();
+              return (
+                <div
+                  key={header.id}
+                  role="columnheader"
+                  aria-sort={sorted === 'asc' ? 'ascending' : sorted === 'desc' ? 'descending' : 'none'}
+                  className="relative flex-none flex items-center px-2 select-none"
+                  style={{ width: header.getSize() }}
+                >
+                  <button
+                    onClick={header.column.getToggleSortingHandler()}
+                    className="flex items-center gap-1 truncate hover:text-gray-900"
+                    title="Sort"
+                  >
+                    <span className="truncate">{flexRender(header.column.columnDef.header, header.getContext())}</span>
+                    {sorted === 'asc' && <ArrowUp className="w-3 h-3 flex-shrink-0" />}
+                    {sorted === 'desc' && <ArrowDown className="w-3 h-3 flex-shrink-0" />}
+                  </button>
+                  <div
+                    onMouseDown={header.getResizeHandler()}
+                    onTouchStart={header.getResizeHandler()}
+                    onDoubleClick={() => header.column.resetSize()}
+                    className={`absolute right-0 top-0 h-full w-1.5 cursor-col-resize ${
+                      header.column.getIsResizing() ? 'bg-blue-400' : 'hover:bg-gray-300'
+                    }`}
+                    title="Drag to resize, double-click to reset"
+                  />
+                </div>
+              );
+            })}
+          </div>
+        ))}
+
+        {/* Rows */}
+        <div className="relative" style={{ height: contentHeight }}>
+          {table.getRowModel().rows.map((row, i) => renderRow(row, first + i))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LogTable;
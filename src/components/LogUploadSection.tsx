@@ -1,17 +1,124 @@
-import { useState, useRef } from 'react';
-import { Upload, FileText, X } from 'lucide-react';
-import { LogEntry } from '../types';
+import { useState, useRef, useMemo, useEffect } from 'react';
+import { Upload, FileText, FolderOpen, X, Settings } from 'lucide-react';
+import { DateOrder, LogEntry, SelectedFile, WorkerProgress, WorkerStage } from '../types';
+import { LOCAL_TIME_ZONE } from '../parsers/timestamps';
+import { isAbortError } from '../llm/http';
+import { archiveKind, gunzippedName } from '../archive';
+import { listArchiveInWorker, parseFilesInWorker, parseTextInWorker } from '../worker/client';
+import { MAX_UPLOAD_SIZE, UploadTooLargeError, WorkerMemoryError } from '../worker/protocol';
+import ArchiveMemberDialog, { ListedArchive } from './ArchiveMemberDialog';
 
 interface LogUploadSectionProps {
   onLogsUpload: (logs: LogEntry[]) => void;
 }
 
+// Older browsers only get the browser zone and UTC
+const supportedTimeZones = (): string[] => {
+  const intl = Intl as typeof Intl & { supportedValuesOf?: (key: 'timeZone') => string[] };
+  return intl.supportedValuesOf ? intl.supportedValuesOf('timeZone') : [];
+};
+
+const MAX_UPLOAD_MB = MAX_UPLOAD_SIZE / (1024 * 1024);
+
+const STAGE_LABELS: Record<WorkerStage, string> = {
+  reading: 'Reading',
+  parsing: 'Parsing',
+  masking: 'Masking',
+};
+
+const ALLOWED_TYPES = ['text/plain', 'text/log', 'application/log', 'text/x-log'];
+const ALLOWED_EXTENSIONS = ['.log', '.txt', '.text', '.out'];
+
+// Rotated logs keep a counter after the extension: app.log.1
+const hasLogExtension = (name: string) => {
+  const lower = name.toLowerCase().replace(/(\.\d+)+$/, '');
+  return ALLOWED_EXTENSIONS.includes(lower.substring(lower.lastIndexOf('.')));
+};
+
+const isLogFile = (file: File) =>
+  ALLOWED_TYPES.includes(file.type) || hasLogExtension(file.name) || archiveKind(file.name) !== null;
+
+// Zip and tar archives are listed first so the user can pick what to load;
+// a gzipped file holds just one
+const isMultiFileArchive = (name: string) => {
+  const kind = archiveKind(name);
+  return kind !== null && kind !== 'gzip';
+};
+
+// Bytes the chosen members unpack to; gzipped members count as stored
+const selectedSize = ({ members }: ListedArchive, selected?: string[]) =>
+  members
+    .filter(member => !member.unsupported && (!selected || selected.includes(member.name)))
+    .reduce((sum, member) => sum + member.size, 0);
+
+// Bytes of text an upload holds once unpacked, as far as is known before reading
+const uploadSize = (candidates: SelectedFile[], listed: ListedArchive[]) =>
+  candidates.reduce((sum, { file, name, members }) => {
+    const archive = listed.find(listedArchive => listedArchive.name === name);
+    return sum + (archive ? selectedSize(archive, members) : file.size);
+  }, 0);
+
+// Log files are ticked at first; all of them when none looks like a log
+const preselectMembers = ({ members }: ListedArchive): string[] => {
+  const loadable = members.filter(member => !member.unsupported).map(({ name }) => name);
+  const logs = loadable.filter(name => hasLogExtension(gunzippedName(name)));
+  return logs.length > 0 ? logs : loadable;
+};
+
+// Walks a dropped folder; a directory reader hands out its entries in batches
+const readEntryFiles = async (entry: FileSystemEntry): Promise<SelectedFile[]> => {
+  const name = entry.fullPath.replace(/^\//, '');
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+    return [{ file, name }];
+  }
+  if (!entry.isDirectory || entry.name.startsWith('.')) return [];
+  const reader = (entry as FileSystemDirectoryEntry).createReader();
+  const children: FileSystemEntry[] = [];
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+    if (batch.length === 0) break;
+    children.push(...batch);
+  }
+  const nested = await Promise.all(children.map(child => readEntryFiles(child)));
+  return nested.flat();
+};
+
+const DATE_ORDER_LABELS: Record<DateOrder, string> = {
+  'day-first': 'DD/MM dates',
+  'month-first': 'MM/DD dates',
+};
+
 const LogUploadSection: React.FC<LogUploadSectionProps> = ({ onLogsUpload }) => {
   const [activeTab, setActiveTab] = useState<'upload' | 'paste'>('upload');
   const [textInput, setTextInput] = useState('');
   const [dragActive, setDragActive] = useState(false);
   const [uploadedFileName, setUploadedFileName] = useState<string | null>(null);
+  const [detectedFormat, setDetectedFormat] = useState<string | null>(null);
+  const [showParsingOptions, setShowParsingOptions] = useState(false);
+  const [nginxLogFormat, setNginxLogFormat] = useState('');
+  const [timeZone, setTimeZone] = useState(LOCAL_TIME_ZONE);
+  const [dateOrder, setDateOrder] = useState<DateOrder | undefined>();
+  const [sourceNames, setSourceNames] = useState<string[]>([]);
+  const [progress, setProgress] = useState<WorkerProgress | null>(null);
+  // Archives waiting for the user to pick members, with the rest of the
+  // selection and the members of every archive in it
+  const [pendingArchives, setPendingArchives] = useState<{
+    candidates: SelectedFile[];
+    archives: ListedArchive[];
+    listed: ListedArchive[];
+  } | null>(null);
+  const uploadAbortRef = useRef<AbortController | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+
+  // `webkitdirectory` is not a known React attribute
+  useEffect(() => {
+    folderInputRef.current?.setAttribute('webkitdirectory', '');
+  }, [activeTab]);
+
+  const timeZones = useMemo(supportedTimeZones, []);
+  const browserTimeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
 
   const handleDrag = (e: React.DragEvent) => {
     e.preventDefault();
@@ -23,72 +130,181 @@ const LogUploadSection: React.FC<LogUploadSectionProps> = ({ onLogsUpload }) =>
     }
   };
 
-  const handleDrop = (e: React.DragEvent) => {
+  const handleDrop = async (e: React.DragEvent) => {
     e.preventDefault();
     e.stopPropagation();
     setDragActive(false);
+    // One upload at a time; cancel the running one first
+    if (progress) return;
 
-    if (e.dataTransfer.files && e.dataTransfer.files[0]) {
-      handleFile(e.dataTransfer.files[0]);
+    // The entries have to be taken before the first await; the drop data is
+    // gone once the event handler returns
+    const entries = Array.from(e.dataTransfer.items)
+      .map(item => item.webkitGetAsEntry())
+      .filter((entry): entry is FileSystemEntry => entry !== null);
+    if (entries.length === 0) {
+      handleFiles(Array.from(e.dataTransfer.files).map(file => ({ file, name: file.name })), false);
+      return;
+    }
+
+    try {
+      const selected = (await Promise.all(entries.map(entry => readEntryFiles(entry)))).flat();
+      handleFiles(selected, entries.some(entry => entry.isDirectory));
+    } catch (error) {
+      console.error('Error reading dropped folder:', error);
+      alert('Error reading the dropped files. Please try choosing them with the file browser.');
     }
   };
 
   const handleFileInput = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      handleFile(e.target.files[0]);
+    const files = Array.from(e.target.files ?? []);
+    if (files.length > 0) {
+      // Files picked from a folder carry their path inside it
+      const fromFolder = files.some(file => file.webkitRelativePath);
+      handleFiles(files.map(file => ({ file, name: file.webkitRelativePath || file.name })), fromFolder);
     }
   };
 
-  const handleFile = async (file: File) => {
+  // Runs a job in the log worker with progress; null when cancelled
+  const runWorkerJob = async <T,>(job: (signal: AbortSignal) => Promise<T>): Promise<T | null> => {
+    const controller = new AbortController();
+    uploadAbortRef.current = controller;
+    setProgress({ stage: 'reading', loaded: 0, total: 0, percentage: 0 });
+    try {
+      return await job(controller.signal);
+    } catch (error) {
+      if (isAbortError(error)) {
+        console.log('Upload cancelled');
+        return null;
+      }
+      throw error;
+    } finally {
+      uploadAbortRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  const handleFiles = async (selected: SelectedFile[], fromFolder: boolean) => {
     // File validation
-    const maxSize = 50 * 1024 * 1024; // 50MB
-    const allowedTypes = [
-      'text/plain',
-      'text/log',
-      'application/log',
-      'text/x-log'
-    ];
-    
-    const allowedExtensions = ['.log', '.txt', '.text', '.out'];
-    const fileExtension = file.name.toLowerCase().substring(file.name.lastIndexOf('.'));
-    
-    if (file.size > maxSize) {
-      alert(`File is too large. Maximum size is ${maxSize / (1024 * 1024)}MB`);
+    const tooLarge = selected.filter(({ file }) => file.size > MAX_UPLOAD_SIZE);
+    if (tooLarge.length > 0) {
+      alert(
+        `${tooLarge.map(({ name }) => name).join(', ')} ${tooLarge.length === 1 ? 'is' : 'are'} too large and will be skipped. Maximum size is ${MAX_UPLOAD_MB}MB`
+      );
+    }
+
+    let candidates = selected.filter(({ file }) => file.size <= MAX_UPLOAD_SIZE);
+    const unknownType = candidates.filter(({ file }) => !isLogFile(file));
+    if (unknownType.length > 0) {
+      if (fromFolder) {
+        // A folder usually holds more than logs; only the log files are taken
+        candidates = candidates.filter(({ file }) => isLogFile(file));
+      } else {
+        const confirmed = confirm(
+          unknownType.length === 1 && candidates.length === 1
+            ? 'This file type may not be a log file. Do you want to continue anyway?'
+            : `${unknownType.map(({ name }) => name).join(', ')} may not be log files. Do you want to include them anyway?`
+        );
+        if (!confirmed) return;
+      }
+    }
+
+    if (candidates.length === 0) {
+      alert(fromFolder ? 'No log files were found in the folder.' : 'No files to load.');
       return;
     }
-    
-    if (!allowedTypes.includes(file.type) && !allowedExtensions.includes(fileExtension)) {
-      const confirmed = confirm(
-        'This file type may not be a log file. Do you want to continue anyway?'
+
+    // Every file of an upload is held in memory together
+    if (candidates.reduce((sum, { file }) => sum + file.size, 0) > MAX_UPLOAD_SIZE) {
+      alert(`Together these files are over ${MAX_UPLOAD_MB}MB, more than fits in memory. Please choose fewer files.`);
+      return;
+    }
+
+    // Archives are listed first: a zip or tar to pick members from, and any
+    // archive for the size it unpacks to
+    const archives = candidates.filter(({ name }) => archiveKind(name));
+    if (archives.length === 0) {
+      loadFiles(candidates, []);
+      return;
+    }
+
+    try {
+      const listed = await runWorkerJob(async signal => {
+        // One at a time, so the progress bar follows a single archive
+        const result: ListedArchive[] = [];
+        for (const archive of archives) {
+          setProgress({ stage: 'reading', loaded: 0, total: archive.file.size, percentage: 0, detail: archive.name });
+          result.push({ name: archive.name, members: await listArchiveInWorker(archive, { onProgress: setProgress, signal }) });
+        }
+        return result;
+      });
+      if (!listed) return;
+
+      const empty = listed.filter(({ members }) => !members.some(member => !member.unsupported));
+      if (empty.length > 0) {
+        alert(`${empty.map(({ name }) => name).join(', ')} ${empty.length === 1 ? 'holds' : 'hold'} no files that can be loaded and will be skipped.`);
+      }
+      const remaining = candidates.filter(({ name }) => !empty.some(archive => archive.name === name));
+      const choices = listed.filter(archive => isMultiFileArchive(archive.name) && !empty.includes(archive));
+      if (remaining.length === 0) return;
+
+      // Nothing to choose when every archive holds a single file
+      if (choices.every(({ members }) => members.filter(member => !member.unsupported).length === 1)) {
+        loadFiles(remaining, listed);
+        return;
+      }
+      setPendingArchives({ candidates: remaining, archives: choices, listed });
+    } catch (error) {
+      console.error('Error listing archive:', error);
+      alert(`Error reading the archive. ${error instanceof Error ? error.message : ''}`.trim());
+    }
+  };
+
+  const handleArchiveSelection = (selection: Record<string, string[]>) => {
+    if (!pendingArchives) return;
+    setPendingArchives(null);
+    const selected = pendingArchives.candidates.flatMap(candidate => {
+      if (!isMultiFileArchive(candidate.name)) return [candidate];
+      const members = selection[candidate.name] ?? [];
+      return members.length > 0 ? [{ ...candidate, members }] : [];
+    });
+    if (selected.length > 0) loadFiles(selected, pendingArchives.listed);
+  };
+
+  // `listed` gives the unpacked sizes of archives, known before any is read
+  const loadFiles = async (candidates: SelectedFile[], listed: ListedArchive[]) => {
+    const textSize = uploadSize(candidates, listed);
+    if (textSize > MAX_UPLOAD_SIZE) {
+      alert(
+        `The selected files unpack to ${Math.ceil(textSize / (1024 * 1024))}MB, over the ${MAX_UPLOAD_MB}MB that fits in memory. Please choose fewer files.`
       );
-      if (!confirmed) return;
+      return;
     }
-    
-    setUploadedFileName(file.name);
+
+    setUploadedFileName(candidates.length === 1 ? candidates[0].name : `${candidates.length} files`);
     
     try {
-      const text = await file.text();
-      
-      if (!text.trim()) {
-        alert('The file appears to be empty.');
+      const upload = await runWorkerJob(signal =>
+        parseFilesInWorker(candidates, { nginxLogFormat, timeZone }, { onProgress: setProgress, signal })
+      );
+      if (!upload) {
+        setUploadedFileName(null);
         return;
       }
-      
-      if (text.length < 10) {
-        const confirmed = confirm(
-          'The file content seems very short. Are you sure this is a log file?'
-        );
-        if (!confirmed) return;
-      }
-      
-      const logs = parseLogText(text);
-      
-      if (logs.length === 0) {
-        alert('No valid log entries were found in the file.');
+
+      const { logs, files } = upload;
+      if (files.length === 0) {
+        alert(candidates.length === 1 ? 'No valid log entries were found in the file.' : 'No valid log entries were found in the files.');
+        setUploadedFileName(null);
         return;
       }
       
       onLogsUpload(logs);
+      setSourceNames(files.map(({ name }) => name));
+      const formats = new Set(files.map(({ format }) => format));
+      const dateOrders = new Set(files.flatMap(({ dateOrder }) => (dateOrder ? [dateOrder] : [])));
+      setDetectedFormat(formats.size === 1 ? [...formats][0] : `${formats.size} formats`);
+      setDateOrder(dateOrders.size === 1 ? [...dateOrders][0] : undefined);
       
       // Show success message with parsing stats
       const logLevels = logs.reduce((acc, log) => {
@@ -96,15 +312,22 @@ const LogUploadSection: React.FC<LogUploadSectionProps> = ({ onLogsUpload }) =>
         return acc;
       }, {} as Record<string, number>);
       
-      console.log(`Successfully parsed ${logs.length} log entries:`, logLevels);
+      console.log(`Successfully parsed ${logs.length} log entries from ${files.length} file(s):`, logLevels);
       
     } catch (error) {
       console.error('Error reading file:', error);
+      if (error instanceof UploadTooLargeError || error instanceof WorkerMemoryError) {
+        alert(error.message);
+        setUploadedFileName(null);
+        return;
+      }
       
       let errorMessage = 'Error reading file. ';
       if (error instanceof Error) {
         if (error.message.includes('encoding')) {
           errorMessage += 'The file encoding may not be supported. Please ensure it\'s a UTF-8 text file.';
+        } else if (candidates.some(({ name }) => archiveKind(name))) {
+          errorMessage += `The archive may be damaged: ${error.message}`;
         } else {
           errorMessage += 'Please ensure it\'s a valid text file.';
         }
@@ -115,7 +338,7 @@ const LogUploadSection: React.FC<LogUploadSectionProps> = ({ onLogsUpload }) =>
     }
   };
 
-  const handleTextSubmit = () => {
+  const handleTextSubmit = async () => {
     if (!textInput.trim()) {
       alert('Please enter some log data');
       return;
@@ -135,7 +358,11 @@ const LogUploadSection: React.FC<LogUploadSectionProps> = ({ onLogsUpload }) =>
     }
 
     try {
-      const logs = parseLogText(textInput);
+      const upload = await runWorkerJob(signal =>
+        parseTextInWorker(textInput, { nginxLogFormat, timeZone }, { onProgress: setProgress, signal })
+      );
+      if (!upload) return;
+      const { logs, files: [{ format, dateOrder }] } = upload;
       
       if (logs.length === 0) {
         alert('No valid log entries were parsed from the input.');
@@ -143,6 +370,9 @@ const LogUploadSection: React.FC<LogUploadSectionProps> = ({ onLogsUpload }) =>
       }
       
       onLogsUpload(logs);
+      setDetectedFormat(format);
+      setDateOrder(dateOrder);
+      setSourceNames([]);
       setUploadedFileName(`Manual Input (${logs.length} entries)`);
       
       // Show parsing stats
@@ -155,149 +385,24 @@ const LogUploadSection: React.FC<LogUploadSectionProps> = ({ onLogsUpload }) =>
       
     } catch (error) {
       console.error('Error parsing log text:', error);
-      alert('Error parsing the log data. Please check the format and try again.');
+      alert(
+        error instanceof WorkerMemoryError ? error.message : 'Error parsing the log data. Please check the format and try again.'
+      );
     }
   };
 
-  const parseLogText = (text: string): LogEntry[] => {
-    const lines = text.split('\n').filter(line => line.trim());
-    const logs: LogEntry[] = [];
-    let parsedCount = 0;
-    let errorCount = 0;
-
-    lines.forEach((line, index) => {
-      try {
-        // Enhanced log parsing with multiple timestamp formats
-        const timestampPatterns = [
-          /(\d{4}-\d{2}-\d{2}[T\s]\d{2}:\d{2}:\d{2}(?:\.\d{3})?(?:Z|[+-]\d{2}:\d{2})?)/,
-          /(\d{2}\/\d{2}\/\d{4}\s+\d{2}:\d{2}:\d{2})/,
-          /(\w{3}\s+\d{1,2}\s+\d{2}:\d{2}:\d{2})/,
-          /(\d{13})/  // Unix timestamp in milliseconds
-        ];
-
-        let timestamp = new Date().toISOString();
-        for (const pattern of timestampPatterns) {
-          const match = line.match(pattern);
-          if (match) {
-            timestamp = match[1];
-            // Convert Unix timestamp if needed
-            if (/^\d{13}$/.test(timestamp)) {
-              timestamp = new Date(parseInt(timestamp)).toISOString();
-            }
-            break;
-          }
-        }
-
-        // Enhanced log level detection
-        const levelMatch = line.match(/\b(TRACE|DEBUG|INFO|WARN|WARNING|ERROR|FATAL|CRITICAL)\b/i);
-        let level: LogEntry['level'] = 'INFO';
-        if (levelMatch) {
-          const matchedLevel = levelMatch[1].toUpperCase();
-          switch (matchedLevel) {
-            case 'WARNING':
-              level = 'WARN';
-              break;
-            case 'FATAL':
-            case 'CRITICAL':
-              level = 'ERROR';
-              break;
-            case 'TRACE':
-              level = 'DEBUG';
-              break;
-            default:
-              level = matchedLevel as LogEntry['level'];
-          }
-        }
-
-        // Enhanced URL detection
-        const urlMatch = line.match(/https?:\/\/[^\s,;)}\]]+/) || 
-                        line.match(/\/[a-zA-Z0-9\/\-_.~!*'();:@&=+$,?#[\]]*/) ||
-                        line.match(/\w+:\/\/[^\s,;)}\]]+/);
-
-        // Enhanced response code detection
-        const responseCodeMatch = line.match(/\b([1-5]\d{2})\b/) ||
-                                 line.match(/status[=:\s]+([1-5]\d{2})/i) ||
-                                 line.match(/code[=:\s]+([1-5]\d{2})/i);
-
-        // Enhanced component extraction
-        const componentPatterns = [
-          /\[([^\]]+)\]/,
-          /(\w+Service|\w+Controller|\w+Module|\w+Handler|\w+Provider)/,
-          /logger[=:\s]+(\w+)/i,
-          /class[=:\s]+(\w+)/i,
-          /^(\w+):/
-        ];
-
-        let component = undefined;
-        for (const pattern of componentPatterns) {
-          const match = line.match(pattern);
-          if (match) {
-            component = match[1];
-            break;
-          }
-        }
-
-        // Extract additional metadata
-        const headers: Record<string, string> = {};
-        const headerMatches = line.match(/headers?\s*[:=]\s*\{([^}]+)\}/i);
-        if (headerMatches) {
-          try {
-            // Simple header parsing
-            const headerString = headerMatches[1];
-            const headerPairs = headerString.split(',');
-            headerPairs.forEach(pair => {
-              const [key, value] = pair.split(':').map(s => s.trim().replace(/['"]/g, ''));
-              if (key && value) {
-                headers[key] = value;
-              }
-            });
-          } catch (e) {
-            // Ignore header parsing errors
-          }
-        }
-
-        const log: LogEntry = {
-          id: `log-${index + 1}`,
-          timestamp,
-          level,
-          message: line.trim(),
-          url: urlMatch ? urlMatch[0] : undefined,
-          responseCode: responseCodeMatch ? responseCodeMatch[1] : undefined,
-          component,
-          headers: Object.keys(headers).length > 0 ? headers : undefined,
-        };
-
-        logs.push(log);
-        parsedCount++;
-      } catch (error) {
-        errorCount++;
-        console.warn(`Error parsing line ${index + 1}:`, error);
-        
-        // Create a fallback log entry for unparseable lines
-        const fallbackLog: LogEntry = {
-          id: `log-${index + 1}`,
-          timestamp: new Date().toISOString(),
-          level: 'INFO',
-          message: line.trim() || `[Unparseable log entry at line ${index + 1}]`,
-        };
-        logs.push(fallbackLog);
-      }
-    });
-
-    // Show parsing summary
-    if (errorCount > 0) {
-      console.log(`Parsed ${parsedCount} logs successfully, ${errorCount} lines had parsing issues`);
-    }
-
-    return logs;
-  };
-
   const clearUpload = () => {
     setUploadedFileName(null);
+    setDetectedFormat(null);
+    setDateOrder(undefined);
+    setSourceNames([]);
     setTextInput('');
     if (fileInputRef.current) {
       fileInputRef.current.value = '';
     }
+    if (folderInputRef.current) {
+      folderInputRef.current.value = '';
+    }
     onLogsUpload([]);
   };
 
@@ -350,22 +455,41 @@ const LogUploadSection: React.FC<LogUploadSectionProps> = ({ onLogsUpload }) =>
                 dragActive ? 'text-blue-500' : 'text-gray-400'
               }`} />
               <div className="text-lg sm:text-xl lg:text-2xl font-semibold text-gray-900 mb-2 sm:mb-3">
-                Drop your log files here, or click to browse
+                Drop your log files or a folder here, or click to browse
               </div>
               <p className="text-sm sm:text-base text-gray-500 mb-6 sm:mb-8 max-w-md mx-auto">
-                Supports .log, .txt, and other text-based log files up to 50MB
+                Supports .log, .txt, and other text-based log files, gzipped or in .zip and .tar.gz archives, up to{' '}
+                {MAX_UPLOAD_MB}MB in all. Several files are merged into one timeline
               </p>
-              <button
-                onClick={() => fileInputRef.current?.click()}
-                className="bg-blue-600 text-white px-6 sm:px-8 py-3 sm:py-4 rounded-lg hover:bg-blue-700 transition-colors font-medium shadow-sm text-sm sm:text-base"
-              >
-                Choose File
-              </button>
+              <div className="flex flex-col sm:flex-row gap-3 justify-center">
+                <button
+                  onClick={() => fileInputRef.current?.click()}
+                  disabled={progress !== null}
+                  className="bg-blue-600 text-white px-6 sm:px-8 py-3 sm:py-4 rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors font-medium shadow-sm text-sm sm:text-base"
+                >
+                  Choose Files
+                </button>
+                <button
+                  onClick={() => folderInputRef.current?.click()}
+                  disabled={progress !== null}
+                  className="bg-white text-blue-700 border border-blue-600 px-6 sm:px-8 py-3 sm:py-4 rounded-lg hover:bg-blue-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors font-medium shadow-sm text-sm sm:text-base flex items-center justify-center gap-2"
+                >
+                  <FolderOpen className="w-4 h-4" />
+                  Choose Folder
+                </button>
+              </div>
               <input
                 ref={fileInputRef}
                 type="file"
+                multiple
+                className="hidden"
+                accept=".log,.txt,.text,.gz,.tgz,.tar,.zip"
+                onChange={handleFileInput}
+              />
+              <input
+                ref={folderInputRef}
+                type="file"
                 className="hidden"
-                accept=".log,.txt,.text"
                 onChange={handleFileInput}
               />
             </div>
@@ -394,7 +518,7 @@ Example format:
             <div className="flex flex-col sm:flex-row gap-3 sm:gap-4 max-w-md mx-auto">
               <button
                 onClick={handleTextSubmit}
-                disabled={!textInput.trim()}
+                disabled={!textInput.trim() || progress !== null}
                 className="flex-1 bg-green-600 text-white px-4 sm:px-6 py-2 sm:py-3 rounded-lg hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors font-medium text-sm sm:text-base"
               >
                 Process Logs
@@ -409,14 +533,98 @@ Example format:
           </div>
         )}
 
+        {/* Parsing Options */}
+        <div className="mt-4 sm:mt-6 max-w-2xl mx-auto">
+          <button
+            onClick={() => setShowParsingOptions(!showParsingOptions)}
+            className="text-xs sm:text-sm text-blue-600 hover:text-blue-800 flex items-center gap-1"
+          >
+            <Settings className="w-4 h-4" />
+            {showParsingOptions ? 'Hide parsing options' : 'Parsing options'}
+          </button>
+          {showParsingOptions && (
+            <div className="mt-3 p-4 bg-gray-50 border border-gray-200 rounded-lg">
+              <label htmlFor="nginxLogFormat" className="block text-sm font-medium text-gray-700 mb-1">
+                Custom Nginx log_format (optional)
+              </label>
+              <input
+                id="nginxLogFormat"
+                type="text"
+                value={nginxLogFormat}
+                onChange={(e) => setNginxLogFormat(e.target.value)}
+                placeholder='$remote_addr - $remote_user [$time_local] "$request" $status $body_bytes_sent $request_time'
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent font-mono text-xs text-black"
+              />
+              <p className="mt-1 text-xs text-gray-500">
+                Common/Combined, AWS ALB/ELB, CloudFront, JSON lines and logfmt logs are detected automatically.
+              </p>
+              <label htmlFor="sourceTimeZone" className="block text-sm font-medium text-gray-700 mt-4 mb-1">
+                Timezone of the logs
+              </label>
+              <select
+                id="sourceTimeZone"
+                value={timeZone}
+                onChange={(e) => setTimeZone(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm text-black"
+              >
+                <option value={LOCAL_TIME_ZONE}>{`Browser time zone (${browserTimeZone})`}</option>
+                <option value="UTC">UTC</option>
+                {timeZones.filter(zone => zone !== 'UTC').map(zone => (
+                  <option key={zone} value={zone}>{zone}</option>
+                ))}
+              </select>
+              <p className="mt-1 text-xs text-gray-500">
+                Applies to timestamps without a UTC offset, on the next upload. Day/month order and the year of
+                syslog dates are worked out from the file.
+              </p>
+            </div>
+          )}
+        </div>
+
+        {/* Parse Progress */}
+        {progress && (
+          <div className="mt-4 sm:mt-6 p-3 sm:p-4 bg-blue-50 border border-blue-200 rounded-lg max-w-2xl mx-auto">
+            <div className="flex items-center justify-between gap-3 text-sm text-blue-900 mb-2">
+              <span className="truncate">
+                {STAGE_LABELS[progress.stage]} {progress.detail ?? uploadedFileName ?? 'logs'}…
+              </span>
+              <div className="flex items-center gap-3 flex-shrink-0">
+                <span>{progress.percentage}%</span>
+                <button
+                  onClick={() => uploadAbortRef.current?.abort()}
+                  className="text-blue-700 hover:text-blue-900 font-medium"
+                >
+                  Cancel
+                </button>
+              </div>
+            </div>
+            <div className="w-full bg-blue-100 rounded-full h-2">
+              <div
+                className="bg-blue-600 h-2 rounded-full transition-all"
+                style={{ width: `${progress.percentage}%` }}
+              />
+            </div>
+          </div>
+        )}
+
         {/* Upload Status */}
-        {uploadedFileName && (
+        {uploadedFileName && !progress && (
           <div className="mt-4 sm:mt-6 p-3 sm:p-4 bg-green-50 border border-green-200 rounded-lg flex items-center justify-between max-w-2xl mx-auto">
             <div className="flex items-center min-w-0 flex-1">
               <FileText className="h-5 w-5 text-green-600 mr-2 flex-shrink-0" />
-              <span className="text-sm text-green-800 font-medium truncate">
+              <span className="text-sm text-green-800 font-medium truncate" title={sourceNames.join('\n') || undefined}>
                 {uploadedFileName}
               </span>
+              {detectedFormat && (
+                <span className="ml-2 flex-shrink-0 bg-green-100 text-green-800 text-xs font-medium px-2 py-0.5 rounded-full">
+                  {detectedFormat}
+                </span>
+              )}
+              {dateOrder && (
+                <span className="ml-2 flex-shrink-0 bg-green-100 text-green-800 text-xs font-medium px-2 py-0.5 rounded-full">
+                  {DATE_ORDER_LABELS[dateOrder]}
+                </span>
+              )}
             </div>
             <button
               onClick={clearUpload}
@@ -428,6 +636,19 @@ Example format:
           </div>
         )}
       </div>
+
+      {pendingArchives && (
+        <ArchiveMemberDialog
+          archives={pendingArchives.archives}
+          maxSize={
+            MAX_UPLOAD_SIZE -
+            uploadSize(pendingArchives.candidates.filter(({ name }) => !isMultiFileArchive(name)), pendingArchives.listed)
+          }
+          initialSelection={Object.fromEntries(pendingArchives.archives.map(archive => [archive.name, preselectMembers(archive)]))}
+          onCancel={() => setPendingArchives(null)}
+          onLoad={handleArchiveSelection}
+        />
+      )}
     </div>
   );
 };
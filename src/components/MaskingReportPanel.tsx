@@ -0,0 +1,148 @@
+import { useState } from 'react';
+import { ClipboardCheck, AlertTriangle } from 'lucide-react';
+import { MaskingReport } from '../types';
+
+interface MaskingReportPanelProps {
+  report: MaskingReport;
+}
+
+const MAX_VISIBLE_ENTRIES = 100;
+
+const MaskingReportPanel: React.FC<MaskingReportPanelProps> = ({ report }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [activeTab, setActiveTab] = useState<'rules' | 'entries' | 'residue'>('rules');
+
+  const totalHits = report.ruleHits.reduce((sum, hit) => sum + hit.count, 0);
+
+  return (
+    <div className="bg-white rounded-lg shadow-md overflow-hidden">
+      {/* Header */}
+      <div className="px-6 py-4 border-b bg-gray-50">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3 flex-wrap">
+            <ClipboardCheck className="h-5 w-5 text-gray-600" />
+            <h3 className="text-lg font-semibold text-gray-900">Masking Report</h3>
+            <span className="bg-green-100 text-green-800 text-xs font-medium px-2.5 py-0.5 rounded-full">
+              {totalHits} masked in {report.entries.length} of {report.totalEntries} entries
+            </span>
+            {report.residue.length > 0 && (
+              <span className="bg-yellow-100 text-yellow-800 text-xs font-medium px-2.5 py-0.5 rounded-full">
+                {report.residue.length} possible leftovers
+              </span>
+            )}
+          </div>
+          <button
+            onClick={() => setIsExpanded(!isExpanded)}
+            className="text-blue-600 hover:text-blue-800 text-sm font-medium"
+          >
+            {isExpanded ? 'Collapse' : 'Expand'}
+          </button>
+        </div>
+      </div>
+
+      {isExpanded && (
+        <>
+          {/* Tab Navigation */}
+          <div className="flex border-b">
+            {[
+              { id: 'rules', label: `By rule (${report.ruleHits.length})` },
+              { id: 'entries', label: `By entry (${report.entries.length})` },
+              { id: 'residue', label: `Unmasked high-entropy (${report.residue.length})` },
+            ].map(tab => (
+              <button
+                key={tab.id}
+                onClick={() => setActiveTab(tab.id as typeof activeTab)}
+                className={`flex-1 px-4 py-2 text-sm font-medium ${
+                  activeTab === tab.id
+                    ? 'bg-blue-50 text-blue-700 border-b-2 border-blue-500'
+                    : 'text-gray-500 hover:text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                {tab.label}
+              </button>
+            ))}
+          </div>
+
+          <div className="p-4 max-h-96 overflow-y-auto">
+            {activeTab === 'rules' && (
+              report.ruleHits.length === 0 ? (
+                <p className="text-sm text-gray-500 text-center py-4">No rule matched anything in these logs.</p>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-xs text-gray-500 border-b">
+                      <th className="py-1 pr-2 font-medium">Rule</th>
+                      <th className="py-1 text-right font-medium">Matches</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {report.ruleHits.map(hit => (
+                      <tr key={hit.ruleId} className="border-b last:border-0">
+                        <td className="py-1 pr-2 text-gray-800">{hit.ruleName}</td>
+                        <td className="py-1 text-right font-mono text-gray-800">{hit.count}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )
+            )}
+
+            {activeTab === 'entries' && (
+              <div className="space-y-3">
+                {report.entries.slice(0, MAX_VISIBLE_ENTRIES).map(entry => (
+                  <div key={entry.logId} className="border rounded-lg p-3">
+                    <div className="flex items-center gap-2 mb-2 flex-wrap">
+                      <span className="text-xs font-mono text-gray-500">{entry.logId}</span>
+                      {entry.ruleIds.map(ruleId => (
+                        <span key={ruleId} className="bg-gray-100 text-gray-700 text-xs px-1.5 py-0.5 rounded">
+                          {report.ruleHits.find(hit => hit.ruleId === ruleId)?.ruleName ?? ruleId}
+                        </span>
+                      ))}
+                    </div>
+                    {entry.changes.map(change => (
+                      <div key={change.field} className="text-xs font-mono mb-1">
+                        <div className="text-gray-500">{change.field}</div>
+                        <div className="bg-red-50 text-red-800 px-2 py-0.5 break-all">- {change.original}</div>
+                        <div className="bg-green-50 text-green-800 px-2 py-0.5 break-all">+ {change.masked}</div>
+                      </div>
+                    ))}
+                  </div>
+                ))}
+                {report.entries.length > MAX_VISIBLE_ENTRIES && (
+                  <p className="text-xs text-gray-500 text-center">
+                    Showing the first {MAX_VISIBLE_ENTRIES} of {report.entries.length} entries. Export the report for the full list.
+                  </p>
+                )}
+              </div>
+            )}
+
+            {activeTab === 'residue' && (
+              report.residue.length === 0 ? (
+                <p className="text-sm text-gray-500 text-center py-4">
+                  No random-looking strings found in entries that no rule touched.
+                </p>
+              ) : (
+                <div className="space-y-2">
+                  <p className="flex items-center gap-2 text-xs text-yellow-800">
+                    <AlertTriangle className="h-4 w-4" />
+                    No rule fired for these entries, but they contain strings that look like keys or secrets.
+                  </p>
+                  {report.residue.map((item, index) => (
+                    <div key={index} className="flex items-center gap-2 text-xs font-mono border-b last:border-0 py-1">
+                      <span className="text-gray-500 whitespace-nowrap">{item.logId}</span>
+                      <span className="text-gray-500">{item.field}</span>
+                      <span className="text-gray-800 break-all flex-1">{item.value}</span>
+                      <span className="text-gray-500 whitespace-nowrap">{item.entropy.toFixed(2)} bits</span>
+                    </div>
+                  ))}
+                </div>
+              )
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default MaskingReportPanel;
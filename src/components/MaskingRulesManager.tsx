@@ -0,0 +1,378 @@
+import { useState, useRef, useMemo } from 'react';
+import { Shield, ArrowUp, ArrowDown, Pencil, Trash2, Plus, Upload, Download, RotateCcw, FlaskConical } from 'lucide-react';
+import { MaskingRule } from '../types';
+import {
+  DEFAULT_MASKING_RULES,
+  createMasker,
+  exportMaskingRules,
+  hasBuiltinReplacer,
+  importMaskingRules,
+  validateRulePattern,
+} from '../masking';
+
+interface MaskingRulesManagerProps {
+  rules: MaskingRule[];
+  onRulesChange: (rules: MaskingRule[]) => void;
+}
+
+interface RuleDraft {
+  id: string | null;
+  name: string;
+  pattern: string;
+  flags: string;
+  replacement: string;
+  tokenPrefix: string;
+}
+
+const emptyDraft: RuleDraft = { id: null, name: '', pattern: '', flags: 'g', replacement: '***MASKED***', tokenPrefix: '' };
+
+const SAMPLE_TEXT = 'User john.doe@example.com logged in from 192.168.1.100 with token=abc123 (card 4111111111111111)';
+
+const MaskingRulesManager: React.FC<MaskingRulesManagerProps> = ({ rules, onRulesChange }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [draft, setDraft] = useState<RuleDraft | null>(null);
+  const [sampleText, setSampleText] = useState(SAMPLE_TEXT);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const enabledCount = rules.filter(r => r.enabled).length;
+  const draftError = draft ? validateRulePattern(draft.pattern, draft.flags) : null;
+
+  // Preview the draft rule on its own while editing, otherwise the whole set
+  const testOutput = useMemo(() => {
+    if (draft) {
+      if (draftError) return null;
+      return createMasker([{ ...draft, id: draft.id ?? 'draft', enabled: true, tokenPrefix: undefined }])(sampleText);
+    }
+    return createMasker(rules)(sampleText);
+  }, [draft, draftError, rules, sampleText]);
+
+  const updateRule = (id: string, changes: Partial<MaskingRule>) => {
+    onRulesChange(rules.map(r => (r.id === id ? { ...r, ...changes } : r)));
+  };
+
+  const moveRule = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= rules.length) return;
+    const reordered = [...rules];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    onRulesChange(reordered);
+  };
+
+  const deleteRule = (id: string) => {
+    onRulesChange(rules.filter(r => r.id !== id));
+    if (draft?.id === id) setDraft(null);
+  };
+
+  const editRule = (maskingRule: MaskingRule) => {
+    setDraft({
+      id: maskingRule.id,
+      name: maskingRule.name,
+      pattern: maskingRule.pattern,
+      flags: maskingRule.flags ?? 'g',
+      replacement: maskingRule.replacement,
+      tokenPrefix: maskingRule.tokenPrefix ?? '',
+    });
+  };
+
+  const saveDraft = () => {
+    if (!draft || draftError || !draft.name.trim()) return;
+    const saved: MaskingRule = {
+      id: draft.id ?? `custom-${Date.now()}`,
+      name: draft.name.trim(),
+      pattern: draft.pattern,
+      flags: draft.flags,
+      replacement: draft.replacement,
+      enabled: true,
+      tokenPrefix: draft.tokenPrefix.trim().toUpperCase() || undefined,
+    };
+    if (draft.id) {
+      updateRule(draft.id, saved);
+    } else {
+      onRulesChange([...rules, saved]);
+    }
+    setDraft(null);
+  };
+
+  const resetToDefaults = () => {
+    const confirmed = confirm('Replace the current rules with the built-in defaults? Custom rules will be removed.');
+    if (!confirmed) return;
+    onRulesChange(DEFAULT_MASKING_RULES);
+    setDraft(null);
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([exportMaskingRules(rules)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `masking-rules-${new Date().toISOString().split('T')[0]}.json`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const imported = importMaskingRules(await file.text());
+      const confirmed = confirm(`Replace the current rules with ${imported.length} rules from ${file.name}?`);
+      if (!confirmed) return;
+      onRulesChange(imported);
+      setDraft(null);
+    } catch (error) {
+      console.error('Error importing masking rules:', error);
+      alert(`Could not import masking rules: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md overflow-hidden">
+      {/* Header */}
+      <div className="px-6 py-4 border-b bg-gray-50">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <Shield className="h-5 w-5 text-gray-600" />
+            <h3 className="text-lg font-semibold text-gray-900">Masking Rules</h3>
+            <span className="bg-green-100 text-green-800 text-xs font-medium px-2.5 py-0.5 rounded-full">
+              {enabledCount} of {rules.length} enabled
+            </span>
+          </div>
+          <button
+            onClick={() => setIsExpanded(!isExpanded)}
+            className="text-blue-600 hover:text-blue-800 text-sm font-medium"
+          >
+            {isExpanded ? 'Collapse' : 'Expand'}
+          </button>
+        </div>
+      </div>
+
+      {isExpanded && (
+        <div className="p-4 space-y-4">
+          {/* Rule Set Actions */}
+          <div className="flex flex-wrap gap-2">
+            <button
+              onClick={() => setDraft({ ...emptyDraft })}
+              className="flex items-center gap-1 px-3 py-1.5 text-sm bg-blue-600 text-white rounded hover:bg-blue-700"
+            >
+              <Plus className="w-4 h-4" /> Add rule
+            </button>
+            <button
+              onClick={() => importInputRef.current?.click()}
+              className="flex items-center gap-1 px-3 py-1.5 text-sm bg-white border border-gray-300 rounded hover:bg-gray-50 text-black"
+            >
+              <Upload className="w-4 h-4" /> Import
+            </button>
+            <button
+              onClick={handleExport}
+              className="flex items-center gap-1 px-3 py-1.5 text-sm bg-white border border-gray-300 rounded hover:bg-gray-50 text-black"
+            >
+              <Download className="w-4 h-4" /> Export
+            </button>
+            <button
+              onClick={resetToDefaults}
+              className="flex items-center gap-1 px-3 py-1.5 text-sm text-gray-600 hover:text-gray-800"
+            >
+              <RotateCcw className="w-4 h-4" /> Reset
+            </button>
+            <input
+              ref={importInputRef}
+              type="file"
+              accept=".json,application/json"
+              className="hidden"
+              onChange={handleImport}
+            />
+          </div>
+
+          {/* Rule Editor */}
+          {draft && (
+            <div className="p-4 bg-blue-50 border border-blue-200 rounded-lg space-y-3">
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                <div>
+                  <label htmlFor="ruleName" className="block text-xs font-medium text-gray-700 mb-1">Name</label>
+                  <input
+                    id="ruleName"
+                    type="text"
+                    value={draft.name}
+                    onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                    placeholder="e.g. Customer IDs"
+                    className="w-full px-3 py-1.5 border border-gray-300 rounded-md text-sm text-black"
+                  />
+                </div>
+                <div>
+                  <label htmlFor="ruleReplacement" className="block text-xs font-medium text-gray-700 mb-1">Replacement</label>
+                  <input
+                    id="ruleReplacement"
+                    type="text"
+                    value={draft.replacement}
+                    onChange={(e) => setDraft({ ...draft, replacement: e.target.value })}
+                    className="w-full px-3 py-1.5 border border-gray-300 rounded-md font-mono text-sm text-black"
+                  />
+                </div>
+              </div>
+              <div>
+                <label htmlFor="ruleTokenPrefix" className="block text-xs font-medium text-gray-700 mb-1">
+                  Pseudonym prefix (optional)
+                </label>
+                <input
+                  id="ruleTokenPrefix"
+                  type="text"
+                  value={draft.tokenPrefix}
+                  onChange={(e) => setDraft({ ...draft, tokenPrefix: e.target.value.replace(/[^\w]/g, '') })}
+                  placeholder="e.g. CUSTOMER for CUSTOMER_1"
+                  className="w-full px-3 py-1.5 border border-gray-300 rounded-md font-mono text-sm text-black"
+                />
+              </div>
+              <div className="grid grid-cols-[1fr,auto] gap-3">
+                <div>
+                  <label htmlFor="rulePattern" className="block text-xs font-medium text-gray-700 mb-1">Regular expression</label>
+                  <input
+                    id="rulePattern"
+                    type="text"
+                    value={draft.pattern}
+                    onChange={(e) => setDraft({ ...draft, pattern: e.target.value })}
+                    placeholder="CUST-\d{6}"
+                    aria-invalid={Boolean(draftError)}
+                    className={`w-full px-3 py-1.5 border rounded-md font-mono text-sm text-black ${
+                      draftError ? 'border-red-400' : 'border-gray-300'
+                    }`}
+                  />
+                </div>
+                <div>
+                  <label htmlFor="ruleFlags" className="block text-xs font-medium text-gray-700 mb-1">Flags</label>
+                  <input
+                    id="ruleFlags"
+                    type="text"
+                    value={draft.flags}
+                    onChange={(e) => setDraft({ ...draft, flags: e.target.value })}
+                    className="w-16 px-3 py-1.5 border border-gray-300 rounded-md font-mono text-sm text-black"
+                  />
+                </div>
+              </div>
+              {draftError && draft.pattern && (
+                <p className="text-xs text-red-600">{draftError}</p>
+              )}
+              <div className="flex gap-2">
+                <button
+                  onClick={saveDraft}
+                  disabled={Boolean(draftError) || !draft.name.trim()}
+                  className="px-3 py-1.5 text-sm bg-green-600 text-white rounded hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {draft.id ? 'Save rule' : 'Add rule'}
+                </button>
+                <button
+                  onClick={() => setDraft(null)}
+                  className="px-3 py-1.5 text-sm text-gray-600 hover:text-gray-800"
+                >
+                  Cancel
+                </button>
+              </div>
+            </div>
+          )}
+
+          {/* Rule List */}
+          <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg max-h-72 overflow-y-auto">
+            {rules.map((maskingRule, index) => (
+              <li key={maskingRule.id} className="flex items-center gap-3 px-3 py-2">
+                <input
+                  type="checkbox"
+                  checked={maskingRule.enabled}
+                  onChange={(e) => updateRule(maskingRule.id, { enabled: e.target.checked })}
+                  aria-label={`Enable ${maskingRule.name}`}
+                  className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                />
+                <div className="flex-grow min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-medium text-gray-900 truncate">{maskingRule.name}</span>
+                    {!maskingRule.builtin && (
+                      <span className="bg-purple-100 text-purple-800 text-xs px-1.5 py-0.5 rounded">custom</span>
+                    )}
+                    {maskingRule.tokenPrefix && (
+                      <span
+                        className="bg-blue-100 text-blue-800 text-xs font-mono px-1.5 py-0.5 rounded"
+                        title="Token used in pseudonymize mode"
+                      >
+                        {maskingRule.tokenPrefix}_n
+                      </span>
+                    )}
+                  </div>
+                  <p className="text-xs text-gray-500 font-mono truncate" title={maskingRule.pattern}>
+                    /{maskingRule.pattern}/{maskingRule.flags ?? 'g'} → {hasBuiltinReplacer(maskingRule) && !maskingRule.replacement
+                      ? '(built-in URL masking)'
+                      : maskingRule.replacement}
+                  </p>
+                </div>
+                <div className="flex items-center gap-1 flex-shrink-0">
+                  <button
+                    onClick={() => moveRule(index, -1)}
+                    disabled={index === 0}
+                    title="Move up"
+                    aria-label={`Move ${maskingRule.name} up`}
+                    className="p-1 text-gray-500 hover:text-gray-800 disabled:opacity-30"
+                  >
+                    <ArrowUp className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => moveRule(index, 1)}
+                    disabled={index === rules.length - 1}
+                    title="Move down"
+                    aria-label={`Move ${maskingRule.name} down`}
+                    className="p-1 text-gray-500 hover:text-gray-800 disabled:opacity-30"
+                  >
+                    <ArrowDown className="w-4 h-4" />
+                  </button>
+                  {!maskingRule.builtin && (
+                    <>
+                      <button
+                        onClick={() => editRule(maskingRule)}
+                        title="Edit"
+                        aria-label={`Edit ${maskingRule.name}`}
+                        className="p-1 text-blue-600 hover:text-blue-800"
+                      >
+                        <Pencil className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => deleteRule(maskingRule.id)}
+                        title="Delete"
+                        aria-label={`Delete ${maskingRule.name}`}
+                        className="p-1 text-red-600 hover:text-red-800"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+
+          {/* Rule Tester */}
+          <div>
+            <label htmlFor="maskingSample" className="flex items-center gap-1 text-sm font-medium text-gray-700 mb-1">
+              <FlaskConical className="w-4 h-4" />
+              {draft ? 'Test the rule being edited' : 'Test enabled rules'}
+            </label>
+            <textarea
+              id="maskingSample"
+              value={sampleText}
+              onChange={(e) => setSampleText(e.target.value)}
+              className="w-full h-20 p-2 border border-gray-300 rounded-md font-mono text-xs text-black resize-none"
+            />
+            <pre className="mt-2 p-2 bg-gray-100 rounded-md font-mono text-xs text-gray-800 whitespace-pre-wrap break-words">
+              {testOutput ?? 'Fix the pattern to see the result'}
+            </pre>
+          </div>
+
+          <p className="text-xs text-gray-500">
+            Rules run top to bottom. Changes apply the next time logs are masked.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MaskingRulesManager;
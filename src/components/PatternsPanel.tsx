@@ -0,0 +1,119 @@
+import { useState } from 'react';
+import { Layers } from 'lucide-react';
+import { LogEntry, LogPattern } from '../types';
+
+interface PatternsPanelProps {
+  patterns: LogPattern[];
+  totalLogs: number;
+  // Ids the preview is currently limited to, to mark the selected pattern
+  selectedLogIds: string[];
+  onSelectPattern: (pattern: LogPattern) => void;
+}
+
+const MAX_VISIBLE_PATTERNS = 200;
+
+const LEVEL_CLASSES: Record<LogEntry['level'], string> = {
+  ERROR: 'bg-red-100 text-red-800',
+  WARN: 'bg-yellow-100 text-yellow-800',
+  INFO: 'bg-blue-100 text-blue-800',
+  DEBUG: 'bg-gray-100 text-gray-700',
+};
+
+const formatTimestamp = (timestamp: string) => {
+  const date = new Date(timestamp);
+  return Number.isNaN(date.getTime()) ? timestamp : date.toLocaleString();
+};
+
+// Placeholders stand out from the literal text of the template
+const TemplateText = ({ template }: { template: string }) => (
+  <>
+    {template.split(/(<\*>|<NUM>)/).map((part, index) =>
+      index % 2 === 1 ? (
+        <span key={index} className="text-purple-700 bg-purple-50 rounded px-0.5">{part}</span>
+      ) : (
+        part
+      )
+    )}
+  </>
+);
+
+const PatternsPanel: React.FC<PatternsPanelProps> = ({ patterns, totalLogs, selectedLogIds, onSelectPattern }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  return (
+    <div className="bg-white rounded-lg shadow-md overflow-hidden">
+      {/* Header */}
+      <div className="px-6 py-4 border-b bg-gray-50">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3 flex-wrap">
+            <Layers className="h-5 w-5 text-gray-600" />
+            <h3 className="text-lg font-semibold text-gray-900">Patterns</h3>
+            <span className="bg-purple-100 text-purple-800 text-xs font-medium px-2.5 py-0.5 rounded-full">
+              {patterns.length} patterns in {totalLogs} entries
+            </span>
+          </div>
+          <button
+            onClick={() => setIsExpanded(!isExpanded)}
+            className="text-blue-600 hover:text-blue-800 text-sm font-medium"
+          >
+            {isExpanded ? 'Collapse' : 'Expand'}
+          </button>
+        </div>
+      </div>
+
+      {isExpanded && (
+        <div className="max-h-96 overflow-y-auto">
+          <table className="w-full text-sm">
+            <thead className="sticky top-0 bg-white">
+              <tr className="text-left text-xs text-gray-500 border-b">
+                <th className="py-2 px-4 font-medium">Pattern</th>
+                <th className="py-2 px-2 font-medium text-right">Count</th>
+                <th className="py-2 px-2 font-medium">Levels</th>
+                <th className="py-2 px-4 font-medium">First / last seen</th>
+              </tr>
+            </thead>
+            <tbody>
+              {patterns.slice(0, MAX_VISIBLE_PATTERNS).map(pattern => (
+                <tr
+                  key={pattern.id}
+                  onClick={() => onSelectPattern(pattern)}
+                  title="Show the entries of this pattern in the log preview"
+                  className={`border-b last:border-0 cursor-pointer align-top ${
+                    selectedLogIds === pattern.logIds ? 'bg-blue-50' : 'hover:bg-gray-50'
+                  }`}
+                >
+                  <td className="py-2 px-4 font-mono text-xs text-gray-900 break-all">
+                    <TemplateText template={pattern.template} />
+                  </td>
+                  <td className="py-2 px-2 text-right text-gray-900">{pattern.count}</td>
+                  <td className="py-2 px-2">
+                    <div className="flex flex-wrap gap-1">
+                      {(Object.entries(pattern.levels) as [LogEntry['level'], number][])
+                        .filter(([, count]) => count > 0)
+                        .map(([level, count]) => (
+                          <span key={level} className={`text-xs font-medium px-1.5 py-0.5 rounded ${LEVEL_CLASSES[level]}`}>
+                            {level} {count}
+                          </span>
+                        ))}
+                    </div>
+                  </td>
+                  <td className="py-2 px-4 text-xs text-gray-600 whitespace-nowrap">
+                    <div>{formatTimestamp(pattern.firstSeen)}</div>
+                    {pattern.lastSeen !== pattern.firstSeen && <div>{formatTimestamp(pattern.lastSeen)}</div>}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {patterns.length > MAX_VISIBLE_PATTERNS && (
+            <p className="text-xs text-gray-500 text-center py-2">
+              {patterns.length - MAX_VISIBLE_PATTERNS} rarer patterns not shown.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PatternsPanel;
@@ -0,0 +1,150 @@
+import { Cpu } from 'lucide-react';
+import { LLMSettings } from '../types';
+import { LLM_PROVIDERS, getLLMProvider, defaultLLMSettings } from '../llm';
+
+interface ProviderSettingsProps {
+  settings: LLMSettings;
+  onSettingsChange: (settings: LLMSettings) => void;
+}
+
+const inputClassName =
+  'w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent text-black text-sm';
+
+const ProviderSettings: React.FC<ProviderSettingsProps> = ({ settings, onSettingsChange }) => {
+  const provider = settings.provider === 'local' ? null : getLLMProvider(settings.provider);
+  const isAzure = settings.provider === 'azure-openai';
+
+  const update = (key: keyof LLMSettings, value: string | number) => {
+    onSettingsChange({ ...settings, [key]: value });
+  };
+
+  return (
+    <div className="p-4 border-t border-gray-200 space-y-3">
+      <div>
+        <label htmlFor="llmProvider" className="flex items-center gap-2 text-sm font-medium text-gray-700 mb-1">
+          <Cpu className="h-4 w-4 text-gray-500" />
+          Analysis engine
+        </label>
+        <select
+          id="llmProvider"
+          value={settings.provider}
+          onChange={(e) => onSettingsChange(defaultLLMSettings(e.target.value as LLMSettings['provider'], settings))}
+          className={inputClassName}
+        >
+          <option value="local">Local analysis (nothing leaves the browser)</option>
+          {LLM_PROVIDERS.map(p => (
+            <option key={p.id} value={p.id}>{p.name}</option>
+          ))}
+        </select>
+      </div>
+
+      {provider && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          <div className="sm:col-span-2">
+            <label htmlFor="llmBaseUrl" className="block text-sm font-medium text-gray-700 mb-1">
+              {isAzure ? 'Resource endpoint' : 'Base URL'}
+            </label>
+            <input
+              id="llmBaseUrl"
+              type="url"
+              value={settings.baseUrl}
+              onChange={(e) => update('baseUrl', e.target.value)}
+              placeholder={provider.defaults.baseUrl}
+              className={`${inputClassName} font-mono`}
+            />
+          </div>
+          <div>
+            <label htmlFor="llmModel" className="block text-sm font-medium text-gray-700 mb-1">
+              {isAzure ? 'Deployment name' : 'Model'}
+            </label>
+            <input
+              id="llmModel"
+              type="text"
+              value={settings.model}
+              onChange={(e) => update('model', e.target.value)}
+              className={`${inputClassName} font-mono`}
+            />
+          </div>
+          {isAzure ? (
+            <div>
+              <label htmlFor="llmApiVersion" className="block text-sm font-medium text-gray-700 mb-1">
+                API version
+              </label>
+              <input
+                id="llmApiVersion"
+                type="text"
+                value={settings.apiVersion || ''}
+                onChange={(e) => update('apiVersion', e.target.value)}
+                className={`${inputClassName} font-mono`}
+              />
+            </div>
+          ) : (
+            <div />
+          )}
+          <div className="sm:col-span-2">
+            <label htmlFor="llmApiKey" className="block text-sm font-medium text-gray-700 mb-1">
+              API key {!provider.requiresApiKey && <span className="text-gray-400 font-normal">(optional)</span>}
+            </label>
+            <input
+              id="llmApiKey"
+              type="password"
+              autoComplete="off"
+              value={settings.apiKey}
+              onChange={(e) => update('apiKey', e.target.value)}
+              className={`${inputClassName} font-mono`}
+            />
+          </div>
+          <div className="sm:col-span-2">
+            <label htmlFor="llmPromptContent" className="block text-sm font-medium text-gray-700 mb-1">
+              Send to the model
+            </label>
+            <select
+              id="llmPromptContent"
+              value={settings.promptContent}
+              onChange={(e) => update('promptContent', e.target.value)}
+              className={inputClassName}
+            >
+              <option value="patterns">Message patterns with counts</option>
+              <option value="lines">Every log line</option>
+            </select>
+          </div>
+          <div>
+            <label htmlFor="llmMaxPromptTokens" className="block text-sm font-medium text-gray-700 mb-1">
+              Max prompt tokens
+            </label>
+            <input
+              id="llmMaxPromptTokens"
+              type="number"
+              min={1000}
+              step={1000}
+              value={settings.maxPromptTokens}
+              onChange={(e) => update('maxPromptTokens', Math.max(1000, Number(e.target.value) || 0))}
+              className={inputClassName}
+            />
+          </div>
+          <div>
+            <label htmlFor="llmChunkBy" className="block text-sm font-medium text-gray-700 mb-1">
+              Split larger logs by
+            </label>
+            <select
+              id="llmChunkBy"
+              value={settings.chunkBy}
+              onChange={(e) => update('chunkBy', e.target.value)}
+              disabled={settings.promptContent === 'patterns'}
+              title={settings.promptContent === 'patterns' ? 'Patterns are split by frequency' : undefined}
+              className={inputClassName}
+            >
+              <option value="time">Time window</option>
+              <option value="component">Component</option>
+            </select>
+          </div>
+          <p className="sm:col-span-2 text-xs text-gray-500">
+            Settings are kept in memory for this tab only. Requests go straight from the browser to this endpoint.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProviderSettings;
@@ -0,0 +1,130 @@
+import { useMemo, useRef, useState } from 'react';
+import { Search } from 'lucide-react';
+import { SearchMode } from '../types';
+import { compileQuery, getQuerySuggestions, parseQuery, QuerySyntaxError } from '../query';
+
+interface QueryInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  // Field -> values offered by autocomplete, e.g. the components in the logs
+  knownValues: Record<string, string[]>;
+  // Plain words are regular expressions in regex mode and must compile
+  mode: SearchMode;
+}
+
+const QueryInput: React.FC<QueryInputProps> = ({ value, onChange, knownValues, mode }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [caret, setCaret] = useState(0);
+  const [isFocused, setIsFocused] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [dismissed, setDismissed] = useState(false);
+
+  const error = useMemo(() => {
+    try {
+      const query = parseQuery(value);
+      if (query && mode === 'regex') compileQuery(query, [], mode);
+      return null;
+    } catch (e) {
+      if (e instanceof QuerySyntaxError) return e;
+      throw e;
+    }
+  }, [value, mode]);
+
+  const { from, suggestions } = useMemo(
+    () => getQuerySuggestions(value, caret, knownValues),
+    [value, caret, knownValues]
+  );
+  const isOpen = isFocused && !dismissed && suggestions.length > 0;
+
+  const update = (text: string, position: number) => {
+    onChange(text);
+    setCaret(position);
+    setActiveIndex(0);
+    setDismissed(false);
+  };
+
+  const accept = (index: number) => {
+    const insert = suggestions[index].insert;
+    const next = value.slice(0, from) + insert + value.slice(caret);
+    const position = from + insert.length;
+    update(next, position);
+    // Keep typing where the completion ended
+    requestAnimationFrame(() => {
+      inputRef.current?.focus();
+      inputRef.current?.setSelectionRange(position, position);
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!isOpen) return;
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setActiveIndex((activeIndex + step + suggestions.length) % suggestions.length);
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      accept(activeIndex);
+    } else if (e.key === 'Escape') {
+      setDismissed(true);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+        <input
+          ref={inputRef}
+          type="text"
+          value={value}
+          onChange={(e) => update(e.target.value, e.target.selectionStart ?? e.target.value.length)}
+          onSelect={(e) => setCaret(e.currentTarget.selectionStart ?? 0)}
+          onKeyDown={handleKeyDown}
+          onFocus={() => setIsFocused(true)}
+          onBlur={() => setIsFocused(false)}
+          placeholder="e.g. level:ERROR AND status>=500"
+          spellCheck={false}
+          aria-invalid={error !== null}
+          className={`w-full pl-10 pr-3 py-2 border rounded-md focus:ring-2 focus:border-transparent font-mono text-sm text-black ${
+            error ? 'border-red-400 focus:ring-red-400' : 'border-gray-300 focus:ring-blue-500'
+          }`}
+        />
+      </div>
+
+      {isOpen && (
+        <ul className="absolute z-10 mt-1 w-full max-h-60 overflow-y-auto bg-white border border-gray-200 rounded-md shadow-lg text-sm">
+          {suggestions.map((suggestion, index) => (
+            <li
+              key={suggestion.insert}
+              // Before the input's blur closes the list
+              onMouseDown={(e) => {
+                e.preventDefault();
+                accept(index);
+              }}
+              className={`px-3 py-1.5 cursor-pointer flex items-center justify-between gap-3 ${
+                index === activeIndex ? 'bg-blue-50' : 'hover:bg-gray-50'
+              }`}
+            >
+              <span className="font-mono text-gray-900 truncate">{suggestion.label}</span>
+              {suggestion.detail && <span className="text-xs text-gray-500 truncate">{suggestion.detail}</span>}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {error ? (
+        <p className="mt-1 text-xs text-red-600">
+          {error.message} (at character {error.position + 1}). The query is not applied until it is fixed.
+        </p>
+      ) : (
+        isFocused && (
+          <p className="mt-1 text-xs text-gray-500">
+            AND, OR, NOT or -, ( ), field:value, status&gt;=500, Auth*, /regex/, @last 15m
+          </p>
+        )
+      )}
+    </div>
+  );
+};
+
+export default QueryInput;
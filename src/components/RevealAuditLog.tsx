@@ -0,0 +1,64 @@
+import { useState } from 'react';
+import { ScrollText } from 'lucide-react';
+import { RevealAuditEntry } from '../types';
+
+interface RevealAuditLogProps {
+  entries: RevealAuditEntry[];
+}
+
+const RevealAuditLog: React.FC<RevealAuditLogProps> = ({ entries }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  return (
+    <div className="bg-white rounded-lg shadow-md overflow-hidden">
+      {/* Header */}
+      <div className="px-6 py-4 border-b bg-amber-50">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <ScrollText className="h-5 w-5 text-amber-700" />
+            <h3 className="text-lg font-semibold text-gray-900">Reveal Audit</h3>
+            <span className="bg-amber-100 text-amber-800 text-xs font-medium px-2.5 py-0.5 rounded-full">
+              {entries.length} revealed
+            </span>
+          </div>
+          <button
+            onClick={() => setIsExpanded(!isExpanded)}
+            className="text-blue-600 hover:text-blue-800 text-sm font-medium"
+          >
+            {isExpanded ? 'Collapse' : 'Expand'}
+          </button>
+        </div>
+      </div>
+
+      {isExpanded && (
+        <div className="p-4">
+          <p className="text-xs text-gray-500 mb-3">
+            Tokens whose original values were shown in this session. The values themselves are not recorded.
+          </p>
+          <div className="max-h-64 overflow-y-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-gray-500 border-b">
+                  <th className="py-1 pr-2 font-medium">Token</th>
+                  <th className="py-1 pr-2 font-medium">Where</th>
+                  <th className="py-1 font-medium">When</th>
+                </tr>
+              </thead>
+              <tbody>
+                {entries.map(entry => (
+                  <tr key={`${entry.location}:${entry.token}`} className="border-b last:border-0">
+                    <td className="py-1 pr-2 font-mono text-gray-800">{entry.token}</td>
+                    <td className="py-1 pr-2 text-gray-600">{entry.location}</td>
+                    <td className="py-1 text-gray-600">{new Date(entry.revealedAt).toLocaleTimeString()}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RevealAuditLog;
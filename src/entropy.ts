@@ -0,0 +1,35 @@
+// entropy.ts
+// Shannon entropy helpers for spotting secrets that no pattern describes
+
+// Bits per character
+export function shannonEntropy(text: string): number {
+  if (!text) return 0;
+  const counts = new Map<string, number>();
+  for (const char of text) {
+    counts.set(char, (counts.get(char) ?? 0) + 1);
+  }
+  let entropy = 0;
+  counts.forEach(count => {
+    const p = count / text.length;
+    entropy -= p * Math.log2(p);
+  });
+  return entropy;
+}
+
+export interface HighEntropyMatch {
+  value: string;
+  entropy: number;
+}
+
+// Candidate secrets: runs of base64/hex/url-safe characters
+const CANDIDATE_PATTERN = /[A-Za-z0-9+/=_-]{20,}/g;
+
+// Random keys mix letters and digits; identifiers and words rarely do
+const isMixed = (value: string) => /[A-Za-z]/.test(value) && /\d/.test(value);
+
+export function findHighEntropyStrings(text: string, threshold = 3.5): HighEntropyMatch[] {
+  return (text.match(CANDIDATE_PATTERN) || [])
+    .filter(isMixed)
+    .map(value => ({ value, entropy: shannonEntropy(value) }))
+    .filter(match => match.entropy >= threshold);
+}
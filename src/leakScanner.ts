@@ -0,0 +1,70 @@
+// leakScanner.ts
+// Last check over the exact prompt text before it leaves the browser. Looks for
+// well-known secret formats and random-looking strings that masking missed.
+
+import { LeakFinding } from './types';
+import { findHighEntropyStrings } from './entropy';
+
+interface LeakDetector {
+  kind: string;
+  label: string;
+  pattern: RegExp;
+  // Extra check on a match, e.g. the Luhn checksum for card numbers
+  verify?: (match: string) => boolean;
+}
+
+const passesLuhn = (value: string): boolean => {
+  const digits = value.replace(/\D/g, '');
+  if (digits.length < 13 || digits.length > 19 || /^(\d)\1+$/.test(digits)) return false;
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+};
+
+const LEAK_DETECTORS: LeakDetector[] = [
+  { kind: 'aws-access-key', label: 'AWS access key ID', pattern: /\b(?:AKIA|ASIA|AGPA|AIDA|AROA|ANPA|ANVA|AIPA)[A-Z0-9]{16}\b/g },
+  { kind: 'aws-secret-key', label: 'AWS secret access key', pattern: /aws_?secret_?(?:access_?)?key["']?\s*[:=]\s*["']?[A-Za-z0-9/+=]{40}/gi },
+  { kind: 'github-token', label: 'GitHub token', pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})\b/g },
+  { kind: 'slack-token', label: 'Slack token', pattern: /\bxox[abposr]-[A-Za-z0-9-]{10,}/g },
+  { kind: 'slack-webhook', label: 'Slack webhook URL', pattern: /https:\/\/hooks\.slack\.com\/services\/[A-Za-z0-9/]+/g },
+  { kind: 'private-key', label: 'Private key block', pattern: /-----BEGIN (?:[A-Z]+ )*PRIVATE KEY(?: BLOCK)?-----/g },
+  { kind: 'jwt', label: 'JSON Web Token', pattern: /\beyJ[A-Za-z0-9_-]{5,}\.eyJ[A-Za-z0-9_-]{5,}\.[A-Za-z0-9_-]+/g },
+  { kind: 'card', label: 'Card number (Luhn valid)', pattern: /\b\d(?:[ -]?\d){12,18}\b/g, verify: passesLuhn },
+];
+
+// Higher than the masking report's threshold: a false positive here blocks
+// submission, so only flag strings that are very likely to be keys
+const PROMPT_ENTROPY_THRESHOLD = 4.0;
+
+export function scanForLeaks(text: string): LeakFinding[] {
+  const findings: LeakFinding[] = [];
+
+  text.split('\n').forEach((line, index) => {
+    const lineNumber = index + 1;
+    const flagged = new Set<string>();
+
+    LEAK_DETECTORS.forEach(({ kind, label, pattern, verify }) => {
+      (line.match(pattern) || [])
+        .filter(match => !verify || verify(match))
+        .forEach(match => {
+          flagged.add(match);
+          findings.push({ kind, label, lineNumber, line, match });
+        });
+    });
+
+    findHighEntropyStrings(line, PROMPT_ENTROPY_THRESHOLD)
+      .filter(({ value }) => ![...flagged].some(match => match.includes(value) || value.includes(match)))
+      .forEach(({ value }) => {
+        findings.push({ kind: 'high-entropy', label: 'High-entropy string', lineNumber, line, match: value });
+      });
+  });
+
+  return findings;
+}
@@ -0,0 +1,64 @@
+// anthropic.ts
+// Anthropic Messages API; the system prompt is a top-level field there. There
+// is no response format parameter, so structured output relies on the prompt.
+
+import { LLMProvider } from '../types';
+import { postJson, postStream, sseData, parseJsonLine, invalidResponse, jsonField } from './http';
+
+export const anthropicProvider: LLMProvider = {
+  id: 'anthropic',
+  name: 'Anthropic',
+  defaults: {
+    baseUrl: 'https://api.anthropic.com',
+    model: 'claude-3-5-haiku-latest',
+  },
+  requiresApiKey: true,
+  complete: async (messages, settings, options = {}) => {
+    const { onToken, signal } = options;
+    const system = messages.filter(m => m.role === 'system').map(m => m.content).join('\n\n');
+    const url = `${settings.baseUrl}/v1/messages`;
+    const headers = {
+      'x-api-key': settings.apiKey,
+      'anthropic-version': '2023-06-01',
+      // Required for calls made straight from the browser
+      'anthropic-dangerous-direct-browser-access': 'true',
+    };
+    const body = {
+      model: settings.model,
+      system: system || undefined,
+      messages: messages.filter(m => m.role !== 'system'),
+      max_tokens: 2048,
+      temperature: 0.2,
+    };
+
+    if (onToken) {
+      let streamed = '';
+      await postStream('Anthropic', url, headers, { ...body, stream: true }, line => {
+        const event = parseJsonLine(sseData(line) ?? '');
+        const type = jsonField(event, 'type');
+        if (type === 'error') {
+          throw new Error(`Anthropic stream error: ${jsonField(event, 'error', 'message') || 'unknown error'}`);
+        }
+        const delta = jsonField(event, 'delta', 'text');
+        if (type === 'content_block_delta' && jsonField(event, 'delta', 'type') === 'text_delta' && typeof delta === 'string') {
+          streamed += delta;
+          onToken(delta);
+        }
+      }, signal);
+      if (!streamed) throw invalidResponse('Anthropic', 'empty stream');
+      return streamed.trim();
+    }
+
+    const data = await postJson('Anthropic', url, headers, body, signal);
+    const blocks = jsonField(data, 'content');
+    const text = Array.isArray(blocks)
+      ? blocks
+          .filter((block: unknown) => jsonField(block, 'type') === 'text')
+          .map((block: unknown) => jsonField(block, 'text'))
+          .filter((blockText): blockText is string => typeof blockText === 'string')
+          .join('')
+      : '';
+    if (!text) throw invalidResponse('Anthropic', data);
+    return text.trim();
+  },
+};
@@ -0,0 +1,38 @@
+// azureOpenAI.ts
+// Azure OpenAI: deployment-scoped URLs, api-version query and api-key header
+
+import { LLMProvider } from '../types';
+import { requestChatCompletion } from './openaiCompatible';
+
+export const azureOpenAIProvider: LLMProvider = {
+  id: 'azure-openai',
+  name: 'Azure OpenAI',
+  defaults: {
+    baseUrl: 'https://YOUR-RESOURCE.openai.azure.com',
+    model: '',
+    apiVersion: '2024-06-01',
+  },
+  requiresApiKey: true,
+  complete: (messages, settings, options = {}) => {
+    if (!settings.model) {
+      throw new Error('Azure OpenAI deployment name is required');
+    }
+    const deployment = encodeURIComponent(settings.model);
+    const apiVersion = encodeURIComponent(settings.apiVersion || '2024-06-01');
+    return requestChatCompletion(
+      'Azure OpenAI',
+      `${settings.baseUrl}/openai/deployments/${deployment}/chat/completions?api-version=${apiVersion}`,
+      { 'api-key': settings.apiKey },
+      {
+        messages,
+        max_tokens: 2048,
+        temperature: 0.2,
+        response_format: options.responseSchema && {
+          type: 'json_schema',
+          json_schema: { ...options.responseSchema, strict: true },
+        },
+      },
+      options
+    );
+  },
+};
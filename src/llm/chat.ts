@@ -0,0 +1,60 @@
+// chat.ts
+// Follow-up questions about the masked logs, with the current filters as context
+
+import { ChatMessage, FilterOptions, LogEntry } from '../types';
+import { describeFilters, filterLogs } from '../logFilter';
+import { SYSTEM_PROMPT, formatLogForPrompt } from './prompt';
+import { estimateTokens } from './chunking';
+
+const CHAT_INSTRUCTIONS = `Answer the user's questions about the application logs below. Cite every log entry you rely on by its id in square brackets, e.g. [log-12]. Sensitive values in the logs are masked; do not guess what they were.`;
+
+// Room for the logs even when the conversation is long
+const MIN_CONTEXT_TOKENS = 1000;
+
+const LEVEL_PRIORITY: Record<LogEntry['level'], number> = { ERROR: 0, WARN: 1, INFO: 2, DEBUG: 3 };
+
+// Errors and warnings first when not everything fits, then back in log order
+const selectWithinBudget = (logs: LogEntry[], budget: number): LogEntry[] => {
+  const ranked = logs
+    .map((log, index) => ({ log, index }))
+    .sort((a, b) => LEVEL_PRIORITY[a.log.level] - LEVEL_PRIORITY[b.log.level] || a.index - b.index);
+
+  const selected: { log: LogEntry; index: number }[] = [];
+  let used = 0;
+  for (const item of ranked) {
+    const tokens = estimateTokens(formatLogForPrompt(item.log)) + 1;
+    if (used + tokens > budget) break;
+    selected.push(item);
+    used += tokens;
+  }
+  return selected.sort((a, b) => a.index - b.index).map(item => item.log);
+};
+
+export function buildChatContext(logs: LogEntry[], filters: FilterOptions, budget: number): string {
+  const matching = filterLogs(logs, filters);
+  const included = selectWithinBudget(matching, budget);
+  const coverage = included.length === matching.length
+    ? `All ${matching.length} matching entries are included.`
+    : `${included.length} of ${matching.length} matching entries are included, errors and warnings first.`;
+  return `Active filters: ${describeFilters(filters)}.\n${coverage}\n\nLogs:\n${included.map(formatLogForPrompt).join('\n')}`;
+}
+
+// The context is rebuilt for every question so it follows the filters; the
+// earlier questions and answers are sent as they were
+export function buildChatMessages(
+  question: string,
+  history: ChatMessage[],
+  logs: LogEntry[],
+  filters: FilterOptions,
+  maxPromptTokens: number
+): ChatMessage[] {
+  const conversationTokens = estimateTokens(
+    [SYSTEM_PROMPT, CHAT_INSTRUCTIONS, question, ...history.map(m => m.content)].join('\n')
+  );
+  const budget = Math.max(maxPromptTokens - conversationTokens, MIN_CONTEXT_TOKENS);
+  return [
+    { role: 'system', content: `${SYSTEM_PROMPT} ${CHAT_INSTRUCTIONS}\n\n${buildChatContext(logs, filters, budget)}` },
+    ...history,
+    { role: 'user', content: question },
+  ];
+}
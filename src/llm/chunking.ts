@@ -0,0 +1,97 @@
+// chunking.ts
+// Token estimation and splitting of logs into prompt-sized parts
+
+import { LogEntry, LogChunk, ChunkStrategy } from '../types';
+
+// Roughly four characters per token for English text and log lines. Errs on
+// the high side for code-heavy lines, which is the safe direction here.
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+const timeLabel = (logs: LogEntry[]) => {
+  const first = logs[0].timestamp;
+  const last = logs[logs.length - 1].timestamp;
+  return first === last ? first : `${first} – ${last}`;
+};
+
+// Greedily fill parts up to the budget, keeping the original order. A single
+// item larger than the budget still gets a part of its own.
+export function splitByBudget<T>(items: T[], budget: number, format: (item: T) => string): T[][] {
+  const parts: T[][] = [];
+  let current: T[] = [];
+  let used = 0;
+
+  items.forEach(item => {
+    const tokens = estimateTokens(format(item)) + 1;
+    if (current.length > 0 && used + tokens > budget) {
+      parts.push(current);
+      current = [];
+      used = 0;
+    }
+    current.push(item);
+    used += tokens;
+  });
+  if (current.length > 0) parts.push(current);
+  return parts;
+}
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+const TIME_WINDOWS = [HOUR, 6 * HOUR, DAY];
+
+// Parts never straddle a window boundary (whole hours, six hours or days,
+// in UTC); inside a window the budget splits as usual. The window is the
+// finest one that does not cut the logs into more windows than the budget
+// needs parts, so windows add few requests; longer spans use whole days.
+function splitByTimeWindow(logs: LogEntry[], budget: number, format: (log: LogEntry) => string): LogEntry[][] {
+  const tokens = logs.reduce((sum, log) => sum + estimateTokens(format(log)) + 1, 0);
+  const needed = Math.ceil(tokens / budget);
+  if (needed <= 1) return splitByBudget(logs, budget, format);
+
+  let min = Infinity;
+  let max = -Infinity;
+  logs.forEach(log => {
+    min = Math.min(min, log.timestampMs);
+    max = Math.max(max, log.timestampMs);
+  });
+  const span = max - min;
+  const window = TIME_WINDOWS.find(ms => span / ms + 1 <= needed) ?? Math.ceil(span / (needed - 1) / DAY) * DAY;
+
+  const windows = new Map<number, LogEntry[]>();
+  logs.forEach(log => {
+    const key = Math.floor(log.timestampMs / window);
+    const group = windows.get(key);
+    if (group) group.push(log);
+    else windows.set(key, [log]);
+  });
+  return [...windows.entries()]
+    .sort(([a], [b]) => a - b)
+    .flatMap(([, group]) => splitByBudget(group, budget, format));
+}
+
+export function chunkLogs(
+  logs: LogEntry[],
+  budget: number,
+  strategy: ChunkStrategy,
+  format: (log: LogEntry) => string
+): LogChunk[] {
+  if (strategy === 'component') {
+    const groups = new Map<string, LogEntry[]>();
+    logs.forEach(log => {
+      const key = log.component || 'no component';
+      const group = groups.get(key);
+      if (group) group.push(log);
+      else groups.set(key, [log]);
+    });
+    return [...groups.entries()].flatMap(([component, group]) => {
+      const parts = splitByBudget(group, budget, format);
+      return parts.map((part, index) => ({
+        label: parts.length > 1 ? `${component} (${index + 1}/${parts.length}, ${timeLabel(part)})` : component,
+        logs: part,
+      }));
+    });
+  }
+
+  return splitByTimeWindow(logs, budget, format).map(part => ({ label: timeLabel(part), logs: part }));
+}
@@ -0,0 +1,151 @@
+// http.ts
+// Requests, streaming and retries shared by every provider
+
+export class LLMRequestError extends Error {
+  status: number;
+  // From the Retry-After header, when the server sent one
+  retryAfterMs?: number;
+
+  constructor(message: string, status: number, retryAfterMs?: number) {
+    super(message);
+    this.name = 'LLMRequestError';
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+const MAX_RETRIES = 3;
+const BASE_RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 30000;
+
+const isRetryable = (status: number) => status === 429 || status >= 500;
+
+const post = (url: string, headers: Record<string, string>, body: unknown, signal?: AbortSignal) =>
+  fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+    signal,
+  });
+
+// A property of parsed JSON, following `path` through objects and arrays;
+// undefined as soon as a step is missing. Callers check the type they expect.
+export const jsonField = (value: unknown, ...path: (string | number)[]): unknown =>
+  path.reduce<unknown>(
+    (current, key) => (typeof current === 'object' && current !== null ? (current as Record<string | number, unknown>)[key] : undefined),
+    value
+  );
+
+const ensureOk = async (providerName: string, response: Response): Promise<void> => {
+  if (response.ok) return;
+
+  const errorData: unknown = await response.json().catch(() => ({ error: response.statusText }));
+  console.error(`${providerName} API error:`, {
+    status: response.status,
+    statusText: response.statusText,
+    error: errorData
+  });
+  const error = jsonField(errorData, 'error');
+  const detail = jsonField(error, 'message');
+  const message = typeof detail === 'string' && detail ? detail : typeof error === 'string' ? error : response.statusText;
+  const retryAfter = Number(response.headers.get('retry-after'));
+  throw new LLMRequestError(
+    `${providerName} API error (${response.status}): ${message}`,
+    response.status,
+    retryAfter > 0 ? retryAfter * 1000 : undefined
+  );
+};
+
+export async function postJson(
+  providerName: string,
+  url: string,
+  headers: Record<string, string>,
+  body: unknown,
+  signal?: AbortSignal
+): Promise<unknown> {
+  console.log(`Making ${providerName} API request...`);
+  const response = await post(url, headers, body, signal);
+  await ensureOk(providerName, response);
+  return response.json();
+}
+
+// Calls onLine for every non-empty line of the response body as it arrives.
+// Covers both server-sent events and newline-delimited JSON.
+export async function postStream(
+  providerName: string,
+  url: string,
+  headers: Record<string, string>,
+  body: unknown,
+  onLine: (line: string) => void,
+  signal?: AbortSignal
+): Promise<void> {
+  console.log(`Making streaming ${providerName} API request...`);
+  const response = await post(url, headers, body, signal);
+  await ensureOk(providerName, response);
+  if (!response.body) throw invalidResponse(providerName, 'empty response body');
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    lines.map(line => line.trim()).filter(Boolean).forEach(onLine);
+  }
+  buffer += decoder.decode();
+  if (buffer.trim()) onLine(buffer.trim());
+}
+
+// Payload of an SSE `data:` line; null for event names, comments and keep-alives
+export const sseData = (line: string): string | null =>
+  line.startsWith('data:') ? line.slice(5).trim() : null;
+
+export const parseJsonLine = (line: string): unknown => {
+  try {
+    return JSON.parse(line);
+  } catch {
+    return null;
+  }
+};
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Aborted', 'AbortError'));
+      return;
+    }
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new DOMException('Aborted', 'AbortError'));
+    }, { once: true });
+  });
+
+// Retry rate limits and server errors with exponential backoff and jitter,
+// honouring Retry-After when present
+export async function withRetry<T>(providerName: string, request: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await request();
+    } catch (error) {
+      if (!(error instanceof LLMRequestError) || !isRetryable(error.status) || attempt >= MAX_RETRIES) {
+        throw error;
+      }
+      const backoff = Math.min(BASE_RETRY_DELAY_MS * 2 ** attempt, MAX_RETRY_DELAY_MS);
+      const delay = error.retryAfterMs ?? backoff + Math.random() * backoff * 0.25;
+      console.warn(`${providerName} returned ${error.status}, retrying in ${Math.round(delay)}ms (${attempt + 1}/${MAX_RETRIES})`);
+      await sleep(delay, signal);
+    }
+  }
+}
+
+export function invalidResponse(providerName: string, data: unknown): Error {
+  console.error(`Unexpected ${providerName} response format:`, data);
+  return new Error(`Invalid response format from ${providerName}`);
+}
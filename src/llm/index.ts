@@ -0,0 +1,95 @@
+// index.ts
+// LLM provider registry and the entry point the app calls
+
+import { LLMProvider, LLMProviderId, LLMSettings, ChatMessage, ChatOptions } from '../types';
+import { openAICompatibleProvider, llamaCppProvider } from './openaiCompatible';
+import { azureOpenAIProvider } from './azureOpenAI';
+import { anthropicProvider } from './anthropic';
+import { ollamaProvider } from './ollama';
+import { LLMRequestError, withRetry } from './http';
+import { SYSTEM_PROMPT } from './prompt';
+import { ANALYSIS_RESPONSE_SCHEMA, ParsedAnalysis, parseAnalysisResponse } from './structuredOutput';
+
+export { buildAnalysisPrompt, formatLogForPrompt } from './prompt';
+
+export const LLM_PROVIDERS: LLMProvider[] = [
+  openAICompatibleProvider,
+  azureOpenAIProvider,
+  anthropicProvider,
+  ollamaProvider,
+  llamaCppProvider,
+];
+
+export function getLLMProvider(id: LLMProviderId): LLMProvider {
+  const provider = LLM_PROVIDERS.find(p => p.id === id);
+  if (!provider) throw new Error(`Unknown LLM provider "${id}"`);
+  return provider;
+}
+
+export const LOCAL_ANALYSIS_SETTINGS: LLMSettings = {
+  provider: 'local',
+  baseUrl: '',
+  model: '',
+  apiKey: '',
+  // Leaves room for the response in a 16k context window
+  maxPromptTokens: 12000,
+  chunkBy: 'time',
+  promptContent: 'patterns',
+};
+
+// Settings for a freshly selected provider; the API key and prompt settings carry over
+export function defaultLLMSettings(provider: LLMSettings['provider'], current: LLMSettings = LOCAL_ANALYSIS_SETTINGS): LLMSettings {
+  const { apiKey, maxPromptTokens, chunkBy, promptContent } = current;
+  if (provider === 'local') return { ...LOCAL_ANALYSIS_SETTINGS, apiKey, maxPromptTokens, chunkBy, promptContent };
+  return { provider, ...getLLMProvider(provider).defaults, apiKey, maxPromptTokens, chunkBy, promptContent };
+}
+
+export async function completeChat(
+  messages: ChatMessage[],
+  settings: LLMSettings,
+  options: ChatOptions = {}
+): Promise<string> {
+  if (settings.provider === 'local') {
+    throw new Error('No LLM provider selected');
+  }
+  const provider = getLLMProvider(settings.provider);
+  if (provider.requiresApiKey && !settings.apiKey.trim()) {
+    throw new Error(`${provider.name} API key is required`);
+  }
+  if (!settings.baseUrl.trim()) {
+    throw new Error(`${provider.name} base URL is required`);
+  }
+
+  console.log(`Sending request to ${provider.name}...`, { model: settings.model });
+  const normalized = { ...settings, baseUrl: settings.baseUrl.trim().replace(/\/+$/, '') };
+  const send = (sendOptions: ChatOptions) =>
+    withRetry(provider.name, () => provider.complete(messages, normalized, sendOptions), options.signal);
+  try {
+    return await send(options);
+  } catch (error) {
+    // Older models and many gateways reject response_format; the prompt asks
+    // for the same shape, so retry without it
+    if (options.responseSchema && error instanceof LLMRequestError && error.status === 400) {
+      console.warn(`${provider.name} rejected the response schema, retrying without it`);
+      return send({ ...options, responseSchema: undefined });
+    }
+    throw error;
+  }
+}
+
+export async function analyzeLogsWithLLM(
+  prompt: string,
+  settings: LLMSettings,
+  knownLogIds: Set<string>,
+  options: Pick<ChatOptions, 'onToken' | 'signal'> = {}
+): Promise<ParsedAnalysis & { raw: string }> {
+  const raw = await completeChat(
+    [
+      { role: 'system', content: SYSTEM_PROMPT },
+      { role: 'user', content: prompt },
+    ],
+    settings,
+    { ...options, responseSchema: ANALYSIS_RESPONSE_SCHEMA }
+  );
+  return { ...parseAnalysisResponse(raw, knownLogIds), raw };
+}
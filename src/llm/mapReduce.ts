@@ -0,0 +1,183 @@
+// mapReduce.ts
+// Analysis of logs larger than one prompt: analyze each part, then merge the
+// partial findings into a single result
+
+import { AnalysisFinding, FindingSeverity, LLMSettings, LogEntry, LogPattern, UploadProgress } from '../types';
+import { scanForLeaks } from '../leakScanner';
+import { mineTemplates } from '../templateMining';
+import { analyzeLogsWithLLM } from './index';
+import { isAbortError } from './http';
+import { buildAnalysisPrompt, buildReducePrompt, formatLogForPrompt, formatPatternForPrompt } from './prompt';
+import { chunkLogs, estimateTokens, splitByBudget } from './chunking';
+import { ParsedAnalysis } from './structuredOutput';
+
+export interface AnalysisPart {
+  label: string;
+  prompt: string;
+}
+
+export interface AnalysisPlan {
+  parts: AnalysisPart[];
+  // Ids the prompts cite: log entry ids, or pattern ids
+  citableIds: Set<string>;
+  // Cited ids back to log entry ids
+  resolveIds: (ids: string[]) => string[];
+}
+
+type AnalysisOutcome = ParsedAnalysis & { raw: string };
+
+export interface AnalysisRunOptions {
+  onProgress?: (progress: UploadProgress) => void;
+  // Streamed text of the current request so far, and which step it belongs to
+  onStream?: (text: string, step: string) => void;
+  signal?: AbortSignal;
+}
+
+// Room for the instructions and the part header around the log lines
+const MIN_LOG_BUDGET = 500;
+
+// Patterns are sent most frequent first, so a split puts the rare ones last
+const planPatterns = (logs: LogEntry[], budget: number): AnalysisPlan => {
+  const patterns = mineTemplates(logs);
+  const logsById = new Map(logs.map(log => [log.id, log]));
+  const format = (pattern: LogPattern) =>
+    formatPatternForPrompt(pattern, pattern.logIds.map(id => logsById.get(id)?.stackTrace).find(Boolean));
+  const chunks = splitByBudget(patterns, budget, format);
+  const patternsById = new Map(patterns.map(pattern => [pattern.id, pattern]));
+
+  return {
+    parts: chunks.map((chunk, index) => {
+      const label = `${chunk[0].id} – ${chunk[chunk.length - 1].id}`;
+      return {
+        label,
+        prompt: buildAnalysisPrompt(chunk.map(format), { index, total: chunks.length, label }, 'patterns'),
+      };
+    }),
+    citableIds: new Set(patternsById.keys()),
+    resolveIds: ids => [...new Set(ids.flatMap(id => patternsById.get(id)?.logIds ?? []))],
+  };
+};
+
+export function planAnalysis(logs: LogEntry[], settings: LLMSettings): AnalysisPlan {
+  const overhead = estimateTokens(buildAnalysisPrompt([''], { index: 0, total: 2, label: ' '.repeat(100) }, settings.promptContent));
+  const budget = Math.max(settings.maxPromptTokens - overhead, MIN_LOG_BUDGET);
+  if (settings.promptContent === 'patterns') return planPatterns(logs, budget);
+
+  const chunks = chunkLogs(logs, budget, settings.chunkBy, formatLogForPrompt);
+  return {
+    parts: chunks.map((chunk, index) => ({
+      label: chunk.label,
+      prompt: buildAnalysisPrompt(chunk.logs.map(formatLogForPrompt), { index, total: chunks.length, label: chunk.label }),
+    })),
+    citableIds: new Set(logs.map(log => log.id)),
+    resolveIds: ids => ids,
+  };
+}
+
+const SEVERITY_RANK: FindingSeverity[] = ['info', 'low', 'medium', 'high', 'critical'];
+
+const mergeList = (lists: AnalysisFinding[][]): AnalysisFinding[] => {
+  const merged = new Map<string, AnalysisFinding>();
+  lists.flat().forEach(finding => {
+    const key = finding.text.toLowerCase().replace(/\s+/g, ' ');
+    const existing = merged.get(key);
+    if (!existing) {
+      merged.set(key, { ...finding });
+      return;
+    }
+    existing.severity = SEVERITY_RANK[Math.max(SEVERITY_RANK.indexOf(existing.severity), SEVERITY_RANK.indexOf(finding.severity))];
+    existing.components = [...new Set([...existing.components, ...finding.components])];
+    existing.logIds = [...new Set([...existing.logIds, ...finding.logIds])];
+  });
+  return [...merged.values()];
+};
+
+// Used when the reduce step cannot run remotely; only exact duplicates merge
+const mergeLocally = (partials: AnalysisOutcome[]): AnalysisOutcome => ({
+  insights: mergeList(partials.map(p => p.insights)),
+  recommendations: mergeList(partials.map(p => p.recommendations)),
+  criticalIssues: mergeList(partials.map(p => p.criticalIssues)),
+  format: 'json',
+  raw: partials.map(p => p.raw).join('\n\n'),
+});
+
+const resolveFindings = (findings: AnalysisFinding[], plan: AnalysisPlan): AnalysisFinding[] =>
+  findings.map(finding => ({ ...finding, logIds: plan.resolveIds(finding.logIds) }));
+
+// Findings come back with log entry ids, whatever the prompts cited
+export async function runAnalysisPlan(
+  plan: AnalysisPlan,
+  settings: LLMSettings,
+  options: AnalysisRunOptions = {}
+): Promise<AnalysisOutcome> {
+  const result = await runParts(plan.parts, settings, plan.citableIds, options);
+  return {
+    ...result,
+    insights: resolveFindings(result.insights, plan),
+    recommendations: resolveFindings(result.recommendations, plan),
+    criticalIssues: resolveFindings(result.criticalIssues, plan),
+  };
+}
+
+async function runParts(
+  parts: AnalysisPart[],
+  settings: LLMSettings,
+  knownIds: Set<string>,
+  options: AnalysisRunOptions
+): Promise<AnalysisOutcome> {
+  const { onProgress, onStream, signal } = options;
+  // One step per part, plus the reduce step when there is more than one
+  const total = parts.length > 1 ? parts.length + 1 : 1;
+  const report = (loaded: number) =>
+    onProgress?.({ loaded, total, percentage: Math.round((loaded / total) * 100) });
+
+  const analyze = (prompt: string, step: string) => {
+    let text = '';
+    onStream?.(text, step);
+    return analyzeLogsWithLLM(prompt, settings, knownIds, {
+      signal,
+      onToken: onStream && (delta => {
+        text += delta;
+        onStream(text, step);
+      }),
+    });
+  };
+
+  report(0);
+  const partials: AnalysisOutcome[] = [];
+  for (const part of parts) {
+    const step = parts.length > 1 ? `Part ${partials.length + 1} of ${parts.length}` : '';
+    partials.push(await analyze(part.prompt, step));
+    report(partials.length);
+  }
+  if (partials.length === 1) return partials[0];
+
+  const reducePrompt = buildReducePrompt(partials.map((partial, index) => ({
+    label: parts[index].label,
+    findings: JSON.stringify({
+      insights: partial.insights,
+      recommendations: partial.recommendations,
+      criticalIssues: partial.criticalIssues,
+    }),
+  })));
+
+  let result: AnalysisOutcome;
+  if (estimateTokens(reducePrompt) > settings.maxPromptTokens) {
+    console.warn('Partial findings exceed the prompt budget, merging them locally');
+    result = mergeLocally(partials);
+  } else if (scanForLeaks(reducePrompt).length > 0) {
+    // The parts were scanned before sending, but model output is not
+    console.warn('Partial findings contain possible secrets, merging them locally');
+    result = mergeLocally(partials);
+  } else {
+    try {
+      result = await analyze(reducePrompt, 'Merging findings');
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      console.error('Reduce step failed, merging partial findings locally:', error);
+      result = mergeLocally(partials);
+    }
+  }
+  report(total);
+  return result;
+}
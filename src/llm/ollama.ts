@@ -0,0 +1,49 @@
+// ollama.ts
+// Ollama's native chat API, for models served on the local machine
+
+import { LLMProvider } from '../types';
+import { postJson, postStream, parseJsonLine, invalidResponse, jsonField } from './http';
+
+export const ollamaProvider: LLMProvider = {
+  id: 'ollama',
+  name: 'Ollama',
+  defaults: {
+    baseUrl: 'http://localhost:11434',
+    model: 'llama3.1',
+  },
+  requiresApiKey: false,
+  complete: async (messages, settings, options = {}) => {
+    const { onToken, signal } = options;
+    const url = `${settings.baseUrl}/api/chat`;
+    const headers: Record<string, string> = settings.apiKey ? { 'Authorization': `Bearer ${settings.apiKey}` } : {};
+    const body = {
+      model: settings.model,
+      messages,
+      stream: Boolean(onToken),
+      format: options.responseSchema?.schema,
+      options: { temperature: 0.2, num_predict: 2048 },
+    };
+
+    if (onToken) {
+      // Ollama streams newline-delimited JSON rather than server-sent events
+      let streamed = '';
+      await postStream('Ollama', url, headers, body, line => {
+        const chunk = parseJsonLine(line);
+        const error = jsonField(chunk, 'error');
+        if (error) throw new Error(`Ollama stream error: ${String(error)}`);
+        const delta = jsonField(chunk, 'message', 'content');
+        if (typeof delta === 'string' && delta) {
+          streamed += delta;
+          onToken(delta);
+        }
+      }, signal);
+      if (!streamed) throw invalidResponse('Ollama', 'empty stream');
+      return streamed.trim();
+    }
+
+    const data = await postJson('Ollama', url, headers, body, signal);
+    const content = jsonField(data, 'message', 'content');
+    if (typeof content !== 'string' || !content) throw invalidResponse('Ollama', data);
+    return content.trim();
+  },
+};
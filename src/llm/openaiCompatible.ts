@@ -0,0 +1,74 @@
+// openaiCompatible.ts
+// OpenAI chat completions API, also spoken by most gateways and llama.cpp's server
+
+import { ChatOptions, LLMProvider, LLMProviderId } from '../types';
+import { postJson, postStream, sseData, parseJsonLine, invalidResponse, jsonField } from './http';
+
+// Shared with Azure OpenAI, which uses the same request and response shapes
+export async function requestChatCompletion(
+  name: string,
+  url: string,
+  headers: Record<string, string>,
+  body: Record<string, unknown>,
+  options: ChatOptions
+): Promise<string> {
+  const { onToken, signal } = options;
+  if (!onToken) {
+    const data = await postJson(name, url, headers, body, signal);
+    const content = jsonField(data, 'choices', 0, 'message', 'content');
+    if (typeof content !== 'string' || !content) throw invalidResponse(name, data);
+    return content.trim();
+  }
+
+  let text = '';
+  await postStream(name, url, headers, { ...body, stream: true }, line => {
+    const data = sseData(line);
+    if (!data || data === '[DONE]') return;
+    const delta = jsonField(parseJsonLine(data), 'choices', 0, 'delta', 'content');
+    if (typeof delta === 'string' && delta) {
+      text += delta;
+      onToken(delta);
+    }
+  }, signal);
+  if (!text) throw invalidResponse(name, 'empty stream');
+  return text.trim();
+}
+
+const createOpenAICompatibleProvider = (
+  id: LLMProviderId,
+  name: string,
+  defaults: LLMProvider['defaults']
+): LLMProvider => ({
+  id,
+  name,
+  defaults,
+  // Self-hosted gateways often run without keys
+  requiresApiKey: false,
+  complete: (messages, settings, options = {}) =>
+    requestChatCompletion(
+      name,
+      `${settings.baseUrl}/chat/completions`,
+      settings.apiKey ? { 'Authorization': `Bearer ${settings.apiKey}` } : {},
+      {
+        model: settings.model,
+        messages,
+        max_tokens: 2048,
+        temperature: 0.2,
+        response_format: options.responseSchema && {
+          type: 'json_schema',
+          json_schema: { ...options.responseSchema, strict: true },
+        },
+      },
+      options
+    ),
+});
+
+export const openAICompatibleProvider = createOpenAICompatibleProvider('openai-compatible', 'OpenAI-compatible', {
+  baseUrl: 'https://api.openai.com/v1',
+  model: 'gpt-3.5-turbo',
+});
+
+export const llamaCppProvider = createOpenAICompatibleProvider('llama-cpp', 'llama.cpp server', {
+  baseUrl: 'http://localhost:8080/v1',
+  model: 'default',
+});
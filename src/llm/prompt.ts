@@ -0,0 +1,62 @@
+// prompt.ts
+// Prompt text shared by every LLM provider
+
+import { LogEntry, LogPattern, PromptContent } from '../types';
+import { summarizeStackTrace } from '../localAnalysis';
+
+export const SYSTEM_PROMPT = 'You are a log analysis expert.';
+
+// The leading id lets the model cite entries in `logIds`
+export function formatLogForPrompt(log: LogEntry): string {
+  const line = `[${log.id}] [${log.timestamp}]${log.source ? ' [' + log.source + ']' : ''} [${log.level}]${log.component ? ' [' + log.component + ']' : ''} ${log.message}`;
+  return log.stackTrace ? `${line}\n${summarizeStackTrace(log.stackTrace)}` : line;
+}
+
+// One line per pattern; the example stack trace keeps exception details that
+// the template alone would lose
+export function formatPatternForPrompt(pattern: LogPattern, exampleStackTrace?: string): string {
+  const levels = Object.entries(pattern.levels)
+    .filter(([, count]) => count > 0)
+    .map(([level, count]) => `${level} ${count}`)
+    .join(', ');
+  const seen = pattern.firstSeen === pattern.lastSeen ? pattern.firstSeen : `${pattern.firstSeen} – ${pattern.lastSeen}`;
+  const line = `[${pattern.id}] ${pattern.count}× (${levels}) [${seen}] ${pattern.template}`;
+  return exampleStackTrace ? `${line}\n${summarizeStackTrace(exampleStackTrace)}` : line;
+}
+
+const RESPONSE_FORMAT = `Respond with a single JSON object and nothing else, in this shape:
+{
+  "insights": [Finding],
+  "recommendations": [Finding],
+  "criticalIssues": [Finding]
+}
+where each Finding is {"text": string, "severity": "critical" | "high" | "medium" | "low" | "info", "components": [string], "logIds": [string]}.
+"components" lists the affected components and "logIds" the ids in square brackets at the start of the lines the finding is based on (e.g. "log-12" or "pattern-3").`;
+
+const INTRODUCTION: Record<PromptContent, string> = {
+  lines: 'Analyze the following application logs.',
+  patterns: 'Analyze the following message patterns mined from application logs. Variable parts of the messages are replaced by <*> and numbers by <NUM>; each line gives the pattern id, how often it occurred, the count per level and when it was first and last seen.',
+};
+
+export interface PromptPart {
+  index: number;
+  total: number;
+  label: string;
+}
+
+// Built separately so the exact text can be leak-scanned before it is sent
+export function buildAnalysisPrompt(maskedLogs: string[], part?: PromptPart, content: PromptContent = 'lines'): string {
+  if (!maskedLogs || maskedLogs.length === 0) {
+    throw new Error('No logs provided for analysis');
+  }
+  const scope = part && part.total > 1
+    ? `These ${content === 'patterns' ? 'patterns' : 'logs'} are part ${part.index + 1} of ${part.total} of a larger set (${part.label}). Report only what these lines show; the parts are merged afterwards.\n\n`
+    : '';
+  return `${scope}${INTRODUCTION[content]} Identify errors, warnings, security issues, performance problems, and provide actionable recommendations.\n\n${RESPONSE_FORMAT}\n\n${content === 'patterns' ? 'Patterns' : 'Logs'}:\n${maskedLogs.join('\n')}`;
+}
+
+// Reduce step: the partial findings are already JSON, so they are passed as is
+export function buildReducePrompt(partials: { label: string; findings: string }[]): string {
+  const parts = partials.map((partial, index) => `Part ${index + 1} (${partial.label}):\n${partial.findings}`).join('\n\n');
+  return `The following are analyses of ${partials.length} parts of the same application logs. Merge them into one analysis of the whole set: combine findings that describe the same problem, keep the highest severity, and keep the union of their components and logIds. Drop nothing that only one part reported.\n\n${RESPONSE_FORMAT}\n\nPartial analyses:\n${parts}`;
+}
@@ -0,0 +1,167 @@
+// structuredOutput.ts
+// JSON schema for analysis responses, its validator, and a markdown fallback
+// for models that answer in prose anyway
+
+import { AnalysisFinding, AnalysisResult, FindingSeverity } from '../types';
+
+type FindingLists = Pick<AnalysisResult, 'insights' | 'recommendations' | 'criticalIssues'>;
+type FindingList = keyof FindingLists;
+
+export interface ParsedAnalysis extends FindingLists {
+  format: 'json' | 'markdown';
+}
+
+const SEVERITIES: FindingSeverity[] = ['critical', 'high', 'medium', 'low', 'info'];
+const LISTS: FindingList[] = ['insights', 'recommendations', 'criticalIssues'];
+
+// Used when an item has no (valid) severity of its own
+const DEFAULT_SEVERITY: Record<FindingList, FindingSeverity> = {
+  insights: 'info',
+  recommendations: 'medium',
+  criticalIssues: 'critical',
+};
+
+const findingSchema = {
+  type: 'object',
+  additionalProperties: false,
+  required: ['text', 'severity', 'components', 'logIds'],
+  properties: {
+    text: { type: 'string' },
+    severity: { type: 'string', enum: SEVERITIES },
+    components: { type: 'array', items: { type: 'string' } },
+    logIds: { type: 'array', items: { type: 'string' } },
+  },
+};
+
+export const ANALYSIS_RESPONSE_SCHEMA = {
+  name: 'log_analysis',
+  schema: {
+    type: 'object',
+    additionalProperties: false,
+    required: LISTS,
+    properties: Object.fromEntries(LISTS.map(list => [list, { type: 'array', items: findingSchema }])),
+  },
+};
+
+// Log entry ids, and pattern ids when the prompt held mined patterns
+export const LOG_ID_PATTERN = /\b(?:log|pattern)-\d+\b/g;
+
+const toStringList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string' && item.trim() !== '') : [];
+
+// Keep only ids that exist, so a hallucinated reference never points nowhere
+const knownIds = (ids: string[], known: Set<string>): string[] =>
+  [...new Set(ids.map(id => id.trim()))].filter(id => known.has(id));
+
+const toFinding = (value: unknown, list: FindingList, known: Set<string>): AnalysisFinding | null => {
+  if (typeof value === 'string') {
+    return value.trim()
+      ? { text: value.trim(), severity: DEFAULT_SEVERITY[list], components: [], logIds: knownIds(value.match(LOG_ID_PATTERN) || [], known) }
+      : null;
+  }
+  if (!value || typeof value !== 'object') return null;
+
+  const item = value as Record<string, unknown>;
+  if (typeof item.text !== 'string' || !item.text.trim()) return null;
+  const severity = SEVERITIES.includes(item.severity as FindingSeverity)
+    ? (item.severity as FindingSeverity)
+    : DEFAULT_SEVERITY[list];
+  return {
+    text: item.text.trim(),
+    severity,
+    components: toStringList(item.components),
+    logIds: knownIds(toStringList(item.logIds), known),
+  };
+};
+
+const extractJson = (text: string): unknown => {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const body = fenced ? fenced[1] : text;
+  const start = body.indexOf('{');
+  const end = body.lastIndexOf('}');
+  if (start === -1 || end <= start) return null;
+  try {
+    return JSON.parse(body.slice(start, end + 1));
+  } catch {
+    return null;
+  }
+};
+
+// Null when the response is not an object with at least one of the lists
+export function validateAnalysisJson(data: unknown, known: Set<string>): FindingLists | null {
+  if (!data || typeof data !== 'object') return null;
+  const record = data as Record<string, unknown>;
+  if (!LISTS.some(list => Array.isArray(record[list]))) return null;
+
+  const lists = {} as FindingLists;
+  LISTS.forEach(list => {
+    const items = Array.isArray(record[list]) ? (record[list] as unknown[]) : [];
+    lists[list] = items
+      .map(item => toFinding(item, list, known))
+      .filter((finding): finding is AnalysisFinding => finding !== null);
+  });
+  return lists;
+}
+
+const HEADING = /^\s*(?:#{1,6}\s+(.+?)\s*#*\s*$|\*\*(.+?)\*\*:?\s*$|([A-Z][A-Za-z /&-]{2,40}):\s*$)/;
+const BULLET = /^\s*(?:[-*+•]|\d+[.)])\s+(.*)$/;
+
+const sectionFor = (heading: string): FindingList => {
+  if (/critical|urgent|severe|security/i.test(heading)) return 'criticalIssues';
+  if (/recommend|suggest|action|next step|fix|remediat/i.test(heading)) return 'recommendations';
+  return 'insights';
+};
+
+const stripMarkdown = (text: string) => text.replace(/\*\*(.+?)\*\*/g, '$1').replace(/`([^`]+)`/g, '$1').trim();
+
+// Headings pick the list, bullets and paragraphs become findings
+export function parseMarkdownAnalysis(text: string, known: Set<string>): FindingLists {
+  const lists: FindingLists = { insights: [], recommendations: [], criticalIssues: [] };
+  let section: FindingList = 'insights';
+  let current: AnalysisFinding | null = null;
+
+  const startFinding = (content: string) => {
+    current = { text: content, severity: DEFAULT_SEVERITY[section], components: [], logIds: [] };
+    lists[section].push(current);
+  };
+
+  text.split('\n').forEach(line => {
+    if (!line.trim()) {
+      current = null;
+      return;
+    }
+    const heading = line.match(HEADING);
+    if (heading) {
+      section = sectionFor(heading[1] || heading[2] || heading[3]);
+      current = null;
+      return;
+    }
+    const bullet = line.match(BULLET);
+    if (bullet) {
+      startFinding(stripMarkdown(bullet[1]));
+    } else if (current) {
+      (current as AnalysisFinding).text += ` ${stripMarkdown(line)}`;
+    } else {
+      startFinding(stripMarkdown(line));
+    }
+  });
+
+  LISTS.forEach(list => {
+    lists[list].forEach(finding => {
+      finding.logIds = knownIds(finding.text.match(LOG_ID_PATTERN) || [], known);
+    });
+  });
+
+  if (LISTS.every(list => lists[list].length === 0) && text.trim()) {
+    lists.insights.push({ text: text.trim(), severity: 'info', components: [], logIds: [] });
+  }
+  return lists;
+}
+
+export function parseAnalysisResponse(text: string, knownLogIds: Set<string>): ParsedAnalysis {
+  const lists = validateAnalysisJson(extractJson(text), knownLogIds);
+  if (lists) return { ...lists, format: 'json' };
+
+  console.warn('AI response did not match the analysis schema, falling back to markdown parsing');
+  return { ...parseMarkdownAnalysis(text, knownLogIds), format: 'markdown' };
+}
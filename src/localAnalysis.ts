@@ -0,0 +1,314 @@
+// localAnalysis.ts
+// Offline, heuristic log analysis for teams that cannot send data to an LLM
+
+import { LogEntry, AnalysisResult, AnalysisFinding, FindingSeverity, BucketInterval } from './types';
+import { detectAnomalies } from './anomalyDetection';
+
+const BURST_WINDOW_MS = 60 * 1000;
+const BURST_MIN_ERRORS = 5;
+const REPEATED_EXCEPTION_MIN = 3;
+const REPEATED_EXCEPTION_CRITICAL = 10;
+const SERVER_ERROR_MIN = 3;
+const SERVER_ERROR_CRITICAL_RATIO = 0.2;
+const NOISY_COMPONENT_MIN_LOGS = 20;
+const NOISY_COMPONENT_SHARE = 0.4;
+const HIGH_ERROR_RATE = 0.1;
+
+interface ErrorBurst {
+  start: number;
+  end: number;
+  count: number;
+  logIds: string[];
+}
+
+interface UrlStats {
+  total: number;
+  serverErrors: number;
+  codes: Record<string, number>;
+  serverErrorIds: string[];
+}
+
+export function summarizeLogs(logs: LogEntry[]): AnalysisResult['summary'] {
+  return {
+    totalLogs: logs.length,
+    errorCount: logs.filter(l => l.level === 'ERROR').length,
+    warningCount: logs.filter(l => l.level === 'WARN').length,
+    infoCount: logs.filter(l => l.level === 'INFO').length,
+    debugCount: logs.filter(l => l.level === 'DEBUG').length,
+  };
+}
+
+const finding = (text: string, severity: FindingSeverity, components: string[] = [], logIds: string[] = []): AnalysisFinding => ({
+  text,
+  severity,
+  components,
+  logIds,
+});
+
+const idsOf = (logs: LogEntry[]) => logs.map(l => l.id);
+
+const formatTime = (millis: number) => new Date(millis).toLocaleString();
+
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+// Slide a fixed window over error timestamps and report each run of windows
+// that contains at least BURST_MIN_ERRORS errors as a single burst.
+const findErrorBursts = (logs: LogEntry[]): ErrorBurst[] => {
+  const errors = logs
+    .filter(l => l.level === 'ERROR')
+    .map(l => ({ id: l.id, time: l.timestampMs }))
+    .sort((a, b) => a.time - b.time);
+  const times = errors.map(e => e.time);
+
+  const bursts: (ErrorBurst & { firstIndex: number; lastIndex: number })[] = [];
+  let windowStart = 0;
+  for (let i = 0; i < times.length; i++) {
+    while (times[i] - times[windowStart] > BURST_WINDOW_MS) {
+      windowStart++;
+    }
+    const count = i - windowStart + 1;
+    if (count < BURST_MIN_ERRORS) continue;
+
+    const last = bursts[bursts.length - 1];
+    if (last && times[windowStart] <= last.end) {
+      last.end = times[i];
+      last.count = Math.max(last.count, count);
+      last.lastIndex = i;
+    } else {
+      bursts.push({ start: times[windowStart], end: times[i], count, logIds: [], firstIndex: windowStart, lastIndex: i });
+    }
+  }
+  return bursts.map(({ firstIndex, lastIndex, ...burst }) => ({
+    ...burst,
+    logIds: errors.slice(firstIndex, lastIndex + 1).map(e => e.id),
+  }));
+};
+
+const EXCEPTION_NAME = /\b((?:[a-z_$][\w$]*\.)*[A-Z][\w$]*(?:Exception|Error))\b/;
+const MAX_PROMPT_TRACE_LINES = 8;
+
+// The message names the exception most of the time; otherwise the first
+// exception in the attached stack trace is the one that was thrown
+const extractExceptionName = (log: LogEntry): string | null => {
+  const match = log.message.match(EXCEPTION_NAME) || log.stackTrace?.match(EXCEPTION_NAME);
+  return match ? match[1] : null;
+};
+
+// Keep the exception lines and the top frames of a stack trace so it stays
+// useful for analysis without spending the prompt on hundreds of frames
+export function summarizeStackTrace(stackTrace: string): string {
+  const lines = stackTrace.split('\n');
+  if (lines.length <= MAX_PROMPT_TRACE_LINES) return stackTrace;
+
+  const causes = lines.filter(line => /^\s*(Caused by|Suppressed):/.test(line));
+  const kept = [...lines.slice(0, MAX_PROMPT_TRACE_LINES - causes.length), ...causes];
+  return `${kept.join('\n')}\n    ... (${lines.length - kept.length} more lines)`;
+}
+
+// Exception name -> the entries that raised it
+const countRepeatedExceptions = (logs: LogEntry[]): [string, string[]][] => {
+  const occurrences: Record<string, string[]> = {};
+  logs
+    .filter(l => l.level === 'ERROR' || l.level === 'WARN')
+    .forEach(log => {
+      const name = extractExceptionName(log);
+      if (name) {
+        (occurrences[name] || (occurrences[name] = [])).push(log.id);
+      }
+    });
+
+  return Object.entries(occurrences)
+    .filter(([, ids]) => ids.length >= REPEATED_EXCEPTION_MIN)
+    .sort((a, b) => b[1].length - a[1].length);
+};
+
+const normalizeUrl = (url: string): string => {
+  const path = url.replace(/^\w+:\/\/[^/]+/, '').split(/[?#]/)[0];
+  return path || '/';
+};
+
+const collectUrlStats = (logs: LogEntry[]): Record<string, UrlStats> => {
+  const stats: Record<string, UrlStats> = {};
+  logs.forEach(log => {
+    if (!log.url || !log.responseCode) return;
+    const key = normalizeUrl(log.url);
+    const entry = stats[key] || (stats[key] = { total: 0, serverErrors: 0, codes: {}, serverErrorIds: [] });
+    entry.total++;
+    entry.codes[log.responseCode] = (entry.codes[log.responseCode] || 0) + 1;
+    if (log.responseCode.startsWith('5')) {
+      entry.serverErrors++;
+      entry.serverErrorIds.push(log.id);
+    }
+  });
+  return stats;
+};
+
+const countByComponent = (logs: LogEntry[]) => {
+  const counts: Record<string, { total: number; errors: number; logIds: string[]; errorIds: string[] }> = {};
+  logs.forEach(log => {
+    if (!log.component) return;
+    const entry = counts[log.component] || (counts[log.component] = { total: 0, errors: 0, logIds: [], errorIds: [] });
+    entry.total++;
+    entry.logIds.push(log.id);
+    if (log.level === 'ERROR') {
+      entry.errors++;
+      entry.errorIds.push(log.id);
+    }
+  });
+  return counts;
+};
+
+export interface LocalAnalysisOptions {
+  // Width of the time buckets anomalies are detected in
+  bucketInterval?: BucketInterval;
+}
+
+export function analyzeLogsLocally(logs: LogEntry[], options: LocalAnalysisOptions = {}): AnalysisResult {
+  const summary = summarizeLogs(logs);
+  const insights: AnalysisFinding[] = [];
+  const recommendations: AnalysisFinding[] = [];
+  const criticalIssues: AnalysisFinding[] = [];
+
+  if (logs.length === 0) {
+    return { summary, insights, recommendations, criticalIssues };
+  }
+
+  const errorIds = idsOf(logs.filter(l => l.level === 'ERROR'));
+  const warningIds = idsOf(logs.filter(l => l.level === 'WARN'));
+
+  // Overall error rate
+  const errorRate = summary.errorCount / summary.totalLogs;
+  if (errorRate >= HIGH_ERROR_RATE) {
+    criticalIssues.push(finding(
+      `High error rate: ${summary.errorCount} of ${summary.totalLogs} entries (${percent(errorRate)}) are errors.`,
+      'critical',
+      [],
+      errorIds
+    ));
+  } else if (summary.errorCount > 0) {
+    insights.push(finding(
+      `${summary.errorCount} errors and ${summary.warningCount} warnings across ${summary.totalLogs} entries (error rate ${percent(errorRate)}).`,
+      'info',
+      [],
+      [...errorIds, ...warningIds]
+    ));
+  } else {
+    insights.push(finding(`No errors found across ${summary.totalLogs} entries.`, 'info'));
+  }
+
+  // Error bursts
+  const bursts = findErrorBursts(logs);
+  bursts.forEach(burst => {
+    criticalIssues.push(finding(
+      `Error burst: up to ${burst.count} errors within one minute between ${formatTime(burst.start)} and ${formatTime(burst.end)}.`,
+      'high',
+      [],
+      burst.logIds
+    ));
+  });
+  if (bursts.length > 0) {
+    recommendations.push(finding(
+      'Correlate the error bursts with deployments, configuration changes or upstream outages around the same time.',
+      'medium',
+      [],
+      bursts.flatMap(burst => burst.logIds)
+    ));
+  }
+
+  // Repeated exceptions
+  const exceptions = countRepeatedExceptions(logs);
+  exceptions.forEach(([name, ids]) => {
+    const message = `${name} occurred ${ids.length} times.`;
+    if (ids.length >= REPEATED_EXCEPTION_CRITICAL) {
+      criticalIssues.push(finding(`Recurring exception: ${message}`, 'high', [], ids));
+    } else {
+      insights.push(finding(`Repeated exception: ${message}`, 'medium', [], ids));
+    }
+  });
+  if (exceptions.length > 0) {
+    recommendations.push(finding(
+      `Investigate the root cause of ${exceptions[0][0]}, the most frequent exception, and add handling or retries where appropriate.`,
+      'medium',
+      [],
+      exceptions[0][1]
+    ));
+  }
+
+  // 5xx spikes per URL
+  const urlStats = Object.entries(collectUrlStats(logs))
+    .filter(([, stats]) => stats.serverErrors >= SERVER_ERROR_MIN)
+    .sort((a, b) => b[1].serverErrors - a[1].serverErrors);
+  urlStats.forEach(([url, stats]) => {
+    const ratio = stats.serverErrors / stats.total;
+    const codes = Object.entries(stats.codes)
+      .filter(([code]) => code.startsWith('5'))
+      .map(([code, count]) => `${code}×${count}`)
+      .join(', ');
+    const message = `${url} returned ${stats.serverErrors} server errors out of ${stats.total} requests (${percent(ratio)}; ${codes}).`;
+    if (ratio >= SERVER_ERROR_CRITICAL_RATIO) {
+      criticalIssues.push(finding(`5xx spike: ${message}`, 'high', [], stats.serverErrorIds));
+    } else {
+      insights.push(finding(message, 'medium', [], stats.serverErrorIds));
+    }
+  });
+  if (urlStats.length > 0) {
+    recommendations.push(finding(
+      `Check the handlers and downstream dependencies behind ${urlStats[0][0]}, which produced the most 5xx responses.`,
+      'medium',
+      [],
+      urlStats[0][1].serverErrorIds
+    ));
+  }
+
+  // Noisy components
+  const components = Object.entries(countByComponent(logs)).sort((a, b) => b[1].total - a[1].total);
+  // A lone component is trivially responsible for everything that was logged
+  const noisyComponents = components.length > 1
+    ? components.filter(([, stats]) =>
+        stats.total >= NOISY_COMPONENT_MIN_LOGS && stats.total / summary.totalLogs >= NOISY_COMPONENT_SHARE)
+    : [];
+  noisyComponents.forEach(([component, stats]) => {
+    insights.push(finding(
+      `${component} is noisy: it produced ${stats.total} entries (${percent(stats.total / summary.totalLogs)} of all logs).`,
+      'low',
+      [component],
+      stats.logIds
+    ));
+    recommendations.push(finding(
+      `Review the log level and verbosity of ${component} so it does not drown out other components.`,
+      'low',
+      [component],
+      stats.logIds
+    ));
+  });
+
+  const topErrorComponent = components
+    .filter(([, stats]) => stats.errors > 0)
+    .sort((a, b) => b[1].errors - a[1].errors)[0];
+  if (topErrorComponent && summary.errorCount > 1) {
+    const [component, stats] = topErrorComponent;
+    insights.push(finding(
+      `${component} is the largest source of errors with ${stats.errors} of ${summary.errorCount} errors.`,
+      'medium',
+      [component],
+      stats.errorIds
+    ));
+  }
+
+  if (summary.warningCount > summary.errorCount * 2 && summary.warningCount >= 10) {
+    recommendations.push(finding(
+      'Warnings greatly outnumber errors; review recurring warnings before they escalate.',
+      'low',
+      [],
+      warningIds
+    ));
+  }
+
+  // Spikes, new error signatures and silent components over time
+  const timeline = detectAnomalies(logs, options.bucketInterval);
+  timeline.anomalies.forEach(anomaly => {
+    criticalIssues.push(finding(anomaly.description, anomaly.severity, anomaly.component ? [anomaly.component] : [], anomaly.logIds));
+  });
+
+  return { summary, insights, recommendations, criticalIssues, timeline };
+}
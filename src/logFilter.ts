@@ -0,0 +1,128 @@
+// logFilter.ts
+// The preview filters, shared by the log preview and the chat context
+
+import { LogEntry, FilterOptions } from './types';
+import { CompiledQuery, compileQuery, parseQuery, QuerySyntaxError } from './query';
+
+export const EMPTY_FILTERS: FilterOptions = {
+  timestampRange: { start: '', end: '' },
+  logLevel: '',
+  query: '',
+  searchMode: 'exact',
+  component: '',
+  responseCode: '',
+  source: '',
+  logIds: [],
+};
+
+const matchesFieldFilters = (log: LogEntry, filters: FilterOptions): boolean => {
+  // Timestamp filter
+  if (filters.timestampRange.start || filters.timestampRange.end) {
+    if (filters.timestampRange.start && log.timestampMs < new Date(filters.timestampRange.start).getTime()) {
+      return false;
+    }
+    if (filters.timestampRange.end && log.timestampMs > new Date(filters.timestampRange.end).getTime()) {
+      return false;
+    }
+  }
+
+  // Log level filter
+  if (filters.logLevel && log.level !== filters.logLevel) {
+    return false;
+  }
+
+  // Component filter
+  if (filters.component && (!log.component || !log.component.toLowerCase().includes(filters.component.toLowerCase()))) {
+    return false;
+  }
+
+  // Source file filter
+  if (filters.source && log.source !== filters.source) {
+    return false;
+  }
+
+  // Response code filter
+  if (filters.responseCode) {
+    if (filters.responseCode.length === 1) {
+      // Filter by status code category (2xx, 3xx, etc.)
+      if (!log.responseCode || !log.responseCode.startsWith(filters.responseCode)) {
+        return false;
+      }
+    } else {
+      // Filter by exact status code
+      if (log.responseCode !== filters.responseCode) {
+        return false;
+      }
+    }
+  }
+
+  return true;
+};
+
+// Invalid queries are reported by the search box while they are typed; until
+// they parse they do not filter
+export function compileFilterQuery(filters: FilterOptions, logs: LogEntry[]): CompiledQuery | null {
+  try {
+    const query = parseQuery(filters.query);
+    return query && compileQuery(query, logs, filters.searchMode);
+  } catch (error) {
+    if (error instanceof QuerySyntaxError) return null;
+    throw error;
+  }
+}
+
+// `query` saves compiling again when the caller already has it
+export function createLogPredicate(
+  logs: LogEntry[],
+  filters: FilterOptions,
+  query: CompiledQuery | null = compileFilterQuery(filters, logs)
+): (log: LogEntry) => boolean {
+  const ids = filters.logIds.length > 0 ? new Set(filters.logIds) : null;
+  return log => (!ids || ids.has(log.id)) && matchesFieldFilters(log, filters) && (!query || query.test(log));
+}
+
+export function filterLogs(
+  logs: LogEntry[],
+  filters: FilterOptions,
+  query: CompiledQuery | null = compileFilterQuery(filters, logs)
+): LogEntry[] {
+  return logs.filter(createLogPredicate(logs, filters, query));
+}
+
+// Positions of the entries that pass the filters and whose message shows a
+// highlighted search term, for stepping from match to match
+export function findHighlightedLogs(logs: LogEntry[], filters: FilterOptions): number[] {
+  const query = compileFilterQuery(filters, logs);
+  if (!query) return [];
+  const matches = createLogPredicate(logs, filters, query);
+  const positions: number[] = [];
+  logs.forEach((log, index) => {
+    if (matches(log) && query.highlight(log, log.message).length > 0) positions.push(index);
+  });
+  return positions;
+}
+
+// Distinct source files, for the source filter
+export function listSources(logs: LogEntry[]): string[] {
+  const sources = new Set<string>();
+  logs.forEach(log => log.source && sources.add(log.source));
+  return [...sources].sort();
+}
+
+// Plain-text description of the active filters, e.g. for a prompt
+export function describeFilters(filters: FilterOptions): string {
+  const parts: string[] = [];
+  if (filters.logIds.length > 0) parts.push(`only the ${filters.logIds.length} selected entries`);
+  if (filters.timestampRange.start) parts.push(`from ${filters.timestampRange.start}`);
+  if (filters.timestampRange.end) parts.push(`until ${filters.timestampRange.end}`);
+  if (filters.logLevel) parts.push(`level ${filters.logLevel}`);
+  if (filters.query) {
+    parts.push(`matching the query ${filters.query}${filters.searchMode === 'exact' ? '' : ` (${filters.searchMode} search)`}`);
+  }
+  if (filters.component) parts.push(`component matching "${filters.component}"`);
+  if (filters.source) parts.push(`source ${filters.source}`);
+  if (filters.responseCode) {
+    parts.push(`response code ${filters.responseCode.length === 1 ? filters.responseCode + 'xx' : filters.responseCode}`);
+  }
+  return parts.length > 0 ? parts.join(', ') : 'none';
+}
@@ -0,0 +1,369 @@
+// masking.ts
+// Rule-based masking of sensitive data; runs entirely in the browser
+
+import { LogEntry, MaskingRule } from './types';
+import { Pseudonymizer } from './pseudonymize';
+
+export const MASKING_RULES_VERSION = 1;
+
+const rule = (
+  id: string,
+  name: string,
+  pattern: RegExp,
+  replacement: string,
+  tokenPrefix?: string
+): MaskingRule => ({
+  id,
+  name,
+  pattern: pattern.source,
+  flags: pattern.flags,
+  replacement,
+  enabled: true,
+  builtin: true,
+  tokenPrefix,
+});
+
+// Applied in order; earlier rules see the original text, later rules see the
+// output of earlier ones
+export const DEFAULT_MASKING_RULES: MaskingRule[] = [
+  // Authentication and authorization
+  rule('password', 'Passwords', /password[=:]\s*[^\s&,;)}\]'"]+/gi, 'password=***MASKED***'),
+  rule('token', 'Tokens', /token[=:]\s*[^\s&,;)}\]'"]+/gi, 'token=***MASKED***'),
+  rule('api-key', 'API keys', /api[_-]?key[=:]\s*[^\s&,;)}\]'"]+/gi, 'api_key=***MASKED***'),
+  rule('bearer', 'Bearer credentials', /Bearer\s+[^\s&,;)}\]'"]+/gi, 'Bearer ***MASKED***'),
+  rule('basic-auth', 'Basic auth credentials', /Basic\s+[^\s&,;)}\]'"]+/gi, 'Basic ***MASKED***'),
+  rule('jwt', 'JWT parameters', /jwt[=:]\s*[^\s&,;)}\]'"]+/gi, 'jwt=***MASKED***'),
+  rule('session', 'Session IDs', /session[=:]\s*(?<value>[^\s&,;)}\]'"]+)/gi, 'session=***MASKED***', 'SESSION'),
+
+  // Enhanced URL masking - handle full URLs in log messages
+  rule('url', 'URL credentials and query secrets', /https?:\/\/[^\s,;)}\]'"]+/gi, ''),
+  // Mask relative URLs with query parameters
+  rule('relative-url', 'Relative URL query secrets', /\/[^\s?]*\?[^\s,;)}\]'"]+/g, ''),
+
+  // Network and IP addresses
+  rule('ipv4', 'IPv4 addresses', /\b\d{1,3}\.\d{1,3}\.\d{1,3}\.\d{1,3}\b/g, '***IP_MASKED***', 'IP'),
+  // IPv6 - Conservative patterns that avoid timestamp false positives
+  rule(
+    'ipv6',
+    'IPv6 addresses',
+    /\b(?:[0-9a-fA-F]{1,4}:){7}[0-9a-fA-F]{1,4}\b|\b(?:[0-9a-fA-F]{1,4}:){1,6}:[0-9a-fA-F]{1,4}\b|\b::(?:[0-9a-fA-F]{1,4}:)*[0-9a-fA-F]{1,4}\b|\b[0-9a-fA-F]{1,4}::(?:[0-9a-fA-F]{1,4}:)*[0-9a-fA-F]{1,4}\b/g,
+    '***IPv6_MASKED***',
+    'IPV6'
+  ),
+
+  rule('email', 'Email addresses', /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Z|a-z]{2,}\b/g, '***EMAIL_MASKED***', 'EMAIL'),
+  rule('phone', 'Phone numbers', /\b(?:\+?1[-.\s]?)?\(?[0-9]{3}\)?[-.\s]?[0-9]{3}[-.\s]?[0-9]{4}\b/g, '***PHONE_MASKED***', 'PHONE'),
+  // Credit card numbers (basic pattern)
+  rule(
+    'card',
+    'Credit card numbers',
+    /\b(?:4[0-9]{12}(?:[0-9]{3})?|5[1-5][0-9]{14}|3[47][0-9]{13}|3[0-9]{13}|6(?:011|5[0-9]{2})[0-9]{12})\b/g,
+    '***CARD_MASKED***',
+    'CARD'
+  ),
+  rule('ssn', 'Social Security Numbers', /\b\d{3}-\d{2}-\d{4}\b/g, '***SSN_MASKED***', 'SSN'),
+
+  // Database connection strings
+  rule('db-server', 'Database servers', /server[=:](?<value>[^\s;,)}\]]+)/gi, 'server=***MASKED***', 'HOST'),
+  rule('db-name', 'Database names', /database[=:](?<value>[^\s;,)}\]]+)/gi, 'database=***MASKED***', 'DB'),
+  rule('db-user', 'Database users', /user[=:](?<value>[^\s;,)}\]]+)/gi, 'user=***MASKED***', 'USER'),
+  rule('db-uid', 'Database user IDs', /uid[=:](?<value>[^\s;,)}\]]+)/gi, 'uid=***MASKED***', 'USER'),
+  rule('db-password', 'Database passwords', /pwd[=:][^\s;,)}\]]+/gi, 'pwd=***MASKED***'),
+
+  // File paths that might contain sensitive info
+  rule('windows-path', 'Windows paths', /[A-Za-z]:\\(?:[^\\/:*?"<>|\r\n]+\\)*[^\\/:*?"<>|\r\n]*/g, '***PATH_MASKED***', 'PATH'),
+  rule('home-path', 'Home directory paths', /\/(?:home|Users)\/[^\s,;)}\]]+/g, '***PATH_MASKED***', 'PATH'),
+
+  rule('uuid', 'UUIDs', /\b[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}\b/gi, '***UUID_MASKED***', 'UUID'),
+
+  // Potential secrets or hashes
+  rule('hash', 'Hashes and encoded secrets', /\b[A-Za-z0-9+/]{32,}={0,2}\b/g, '***HASH_MASKED***'),
+];
+
+type Replacer = (match: string, rule: MaskingRule) => string;
+
+// Built-in rules whose replacement depends on the matched text
+const BUILTIN_REPLACERS: Record<string, Replacer> = {
+  'url': match => maskUrl(match),
+  'relative-url': match => maskUrl(match),
+  // Only mask if it looks like a hash or encoded value
+  'hash': (match, maskingRule) =>
+    /[A-Z]/.test(match) && /[a-z]/.test(match) && /[0-9]/.test(match) ? maskingRule.replacement : match,
+};
+
+export const hasBuiltinReplacer = (maskingRule: MaskingRule) =>
+  Boolean(maskingRule.builtin && BUILTIN_REPLACERS[maskingRule.id]);
+
+// Returns an error message, or null when the pattern compiles
+export function validateRulePattern(pattern: string, flags = 'g'): string | null {
+  if (!pattern) return 'Pattern is required';
+  try {
+    const regex = new RegExp(pattern, flags.includes('g') ? flags : `${flags}g`);
+    if (regex.test('')) return 'Pattern must not match empty text';
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid regular expression';
+  }
+}
+
+interface CompiledRule {
+  rule: MaskingRule;
+  regex: RegExp;
+}
+
+const compileRules = (rules: MaskingRule[]): CompiledRule[] =>
+  rules
+    .filter(r => r.enabled && validateRulePattern(r.pattern, r.flags) === null)
+    .map(r => {
+      const flags = r.flags ?? 'g';
+      return { rule: r, regex: new RegExp(r.pattern, flags.includes('g') ? flags : `${flags}g`) };
+    });
+
+export interface MaskingOptions {
+  // When set, rules with a tokenPrefix produce stable tokens instead of redacting
+  pseudonymizer?: Pseudonymizer;
+  // Called with the number of matches a rule actually changed, for the masking report
+  onRuleMatch?: (ruleId: string, count: number) => void;
+}
+
+// Pseudo rule ids for masking that happens outside the rule set
+export const HEADER_RULE_ID = 'headers';
+export const URL_RULE_ID = 'url-query';
+
+// Replace a match with its token, keeping any text around the `value` group
+// (e.g. the `user=` in `user=alice`)
+const pseudonymizeMatch = (
+  pseudonymizer: Pseudonymizer,
+  prefix: string,
+  match: string,
+  groups: Record<string, string> | undefined
+): string => {
+  const value = groups?.value;
+  if (value === undefined || !match.endsWith(value)) {
+    return pseudonymizer.tokenFor(prefix, match);
+  }
+  return match.slice(0, match.length - value.length) + pseudonymizer.tokenFor(prefix, value);
+};
+
+interface ReplaceMatch {
+  match: string;
+  captures: (string | undefined)[];
+  offset: number;
+  input: string;
+  groups?: Record<string, string>;
+}
+
+// The arguments String.replace hands a replacer: match, captures, offset,
+// input and, with named groups, the groups object
+const toReplaceMatch = (match: string, args: unknown[]): ReplaceMatch => {
+  const last = args[args.length - 1];
+  const groups = typeof last === 'object' && last !== null ? (last as Record<string, string>) : undefined;
+  const rest = groups ? args.slice(0, -1) : args;
+  return {
+    match,
+    captures: rest.slice(0, -2).map(capture => (typeof capture === 'string' ? capture : undefined)),
+    offset: Number(rest[rest.length - 2]),
+    input: String(rest[rest.length - 1]),
+    groups,
+  };
+};
+
+// Expand `$&`, `$1`, `$<name>` and the like in a replacement string the way
+// String.replace would, for one match
+const expandReplacement = (replacement: string, { match, captures, offset, input, groups }: ReplaceMatch): string =>
+  replacement.replace(/\$(\$|&|`|'|\d{1,2}|<[^>]*>)/g, (token, key: string) => {
+    if (key === '$') return '$';
+    if (key === '&') return match;
+    if (key === '`') return input.slice(0, offset);
+    if (key === "'") return input.slice(offset + match.length);
+    if (key.startsWith('<')) return groups ? groups[key.slice(1, -1)] ?? '' : token;
+    const index = Number(key);
+    if (index >= 1 && index <= captures.length) return captures[index - 1] ?? '';
+    // `$12` with a single group means `$1` followed by "2"
+    const single = Number(key[0]);
+    if (key.length === 2 && single >= 1 && single <= captures.length) return (captures[single - 1] ?? '') + key[1];
+    return token;
+  });
+
+// Compile the enabled rules once and return a function that masks a string
+export function createMasker(rules: MaskingRule[], options: MaskingOptions = {}): (text: string) => string {
+  const compiled = compileRules(rules);
+  const { pseudonymizer, onRuleMatch } = options;
+
+  const replacementFor = (r: MaskingRule): ((found: ReplaceMatch) => string) => {
+    const replacer = r.builtin ? BUILTIN_REPLACERS[r.id] : undefined;
+    if (replacer) return ({ match }) => replacer(match, r);
+    if (pseudonymizer && r.tokenPrefix) {
+      const prefix = r.tokenPrefix;
+      return ({ match, groups }) => pseudonymizeMatch(pseudonymizer, prefix, match, groups);
+    }
+    return found => expandReplacement(r.replacement, found);
+  };
+  const replacements = compiled.map(({ rule: r, regex }) => ({ rule: r, regex, replace: replacementFor(r) }));
+
+  return (text: string) =>
+    replacements.reduce((masked, { rule: r, regex, replace }) => {
+      // Only matches that come out different count; a builtin replacer may
+      // leave a match alone, and masked text may match its own rule again
+      let count = 0;
+      const result = masked.replace(regex, (match: string, ...args: unknown[]) => {
+        const replaced = replace(toReplaceMatch(match, args));
+        if (replaced !== match) count++;
+        return replaced;
+      });
+      if (count > 0) onRuleMatch?.(r.id, count);
+      return result;
+    }, text);
+}
+
+export function maskUrl(url: string): string {
+  if (!url) return url;
+
+  try {
+    const urlObj = new URL(url);
+    // Serializing normalizes the URL, so it is only done when something was masked
+    let changed = false;
+    // Mask username and password if present
+    if (urlObj.username || urlObj.password) {
+      urlObj.username = '***';
+      urlObj.password = '***';
+      changed = true;
+    }
+
+    // Mask sensitive query parameters
+    const sensitiveParams = ['token', 'key', 'password', 'secret', 'auth'];
+    urlObj.searchParams.forEach((value, key) => {
+      if (value !== '***MASKED***' && sensitiveParams.some(param => key.toLowerCase().includes(param))) {
+        urlObj.searchParams.set(key, '***MASKED***');
+        changed = true;
+      }
+    });
+
+    return changed ? urlObj.toString() : url;
+  } catch {
+    // If URL parsing fails, do basic masking of query parameters
+    return url.replace(/([?&](token|key|password|secret|auth)[^=]*=)[^&]*/gi, '$1***MASKED***');
+  }
+}
+
+export function maskHeaders(headers: Record<string, string>, options: MaskingOptions = {}): Record<string, string> {
+  const maskedHeaders = { ...headers };
+  Object.keys(maskedHeaders).forEach(key => {
+    if (key.toLowerCase().includes('authorization') ||
+        key.toLowerCase().includes('token') ||
+        key.toLowerCase().includes('key')) {
+      // The same credential maps to the same token, so requests made with one
+      // key can still be told apart from requests made with another
+      maskedHeaders[key] = options.pseudonymizer
+        ? options.pseudonymizer.tokenFor('CREDENTIAL', maskedHeaders[key])
+        : '***MASKED***';
+      options.onRuleMatch?.(HEADER_RULE_ID, 1);
+    }
+  });
+  return maskedHeaders;
+}
+
+// Mask every field of a log entry that can carry sensitive values
+export function createLogMasker(rules: MaskingRule[], options: MaskingOptions = {}): (log: LogEntry) => LogEntry {
+  const maskText = createMasker(rules, options);
+
+  // Structured fields from JSON/logfmt/access logs can carry the same
+  // sensitive values as messages
+  const maskMetadata = (metadata: Record<string, any>): Record<string, any> =>
+    Object.fromEntries(Object.entries(metadata).map(([key, value]) => {
+      if (typeof value === 'string') return [key, maskText(value)];
+      if (value && typeof value === 'object') return [key, maskText(JSON.stringify(value))];
+      return [key, value];
+    }));
+
+  const maskLogUrl = (url: string): string => {
+    const masked = maskUrl(url);
+    if (masked !== url && masked.includes('***')) options.onRuleMatch?.(URL_RULE_ID, 1);
+    return masked;
+  };
+
+  return (log: LogEntry) => ({
+    ...log,
+    message: maskText(log.message),
+    stackTrace: log.stackTrace && maskText(log.stackTrace),
+    url: maskLogUrl(log.url || ''),
+    headers: maskHeaders(log.headers || {}, options),
+    clientIp: log.clientIp && maskText(log.clientIp),
+    userAgent: log.userAgent && maskText(log.userAgent),
+    metadata: log.metadata && maskMetadata(log.metadata),
+  });
+}
+
+const isValidRule = (value: unknown): value is MaskingRule =>
+  typeof value === 'object' &&
+  value !== null &&
+  'id' in value && typeof value.id === 'string' &&
+  'name' in value && typeof value.name === 'string' &&
+  'pattern' in value && typeof value.pattern === 'string' &&
+  'replacement' in value && typeof value.replacement === 'string' &&
+  'enabled' in value && typeof value.enabled === 'boolean' &&
+  (!('flags' in value) || value.flags === undefined || typeof value.flags === 'string') &&
+  (!('tokenPrefix' in value) || value.tokenPrefix === undefined || typeof value.tokenPrefix === 'string');
+
+// Flags in any order, with or without g, are the same flags
+const normalizeFlags = (flags = 'g') => [...new Set(`${flags}g`)].sort().join('');
+
+// An imported rule is only the shipped rule while it matches what shipped
+const isDefaultRule = (value: MaskingRule) =>
+  DEFAULT_MASKING_RULES.some(
+    r =>
+      r.id === value.id &&
+      r.pattern === value.pattern &&
+      normalizeFlags(r.flags) === normalizeFlags(value.flags) &&
+      r.replacement === value.replacement
+  );
+
+export function exportMaskingRules(rules: MaskingRule[]): string {
+  return JSON.stringify({ version: MASKING_RULES_VERSION, rules }, null, 2);
+}
+
+// Parse an exported rule set. Throws with a readable message when the file is
+// not a valid rule set so the caller can show it to the user.
+export function importMaskingRules(json: string): MaskingRule[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+
+  const rules: unknown = Array.isArray(data) ? data : typeof data === 'object' && data !== null && 'rules' in data ? data.rules : undefined;
+  if (!Array.isArray(rules)) {
+    throw new Error('Expected a "rules" array');
+  }
+
+  const seen = new Set<string>();
+  return rules.map((value: unknown, index: number) => {
+    if (!isValidRule(value)) {
+      throw new Error(`Rule #${index + 1} is missing id, name, pattern, replacement or enabled`);
+    }
+    if (seen.has(value.id)) {
+      throw new Error(`Duplicate rule id "${value.id}"`);
+    }
+    seen.add(value.id);
+
+    const error = validateRulePattern(value.pattern, value.flags);
+    if (error) {
+      throw new Error(`Rule "${value.name}" has an invalid pattern: ${error}`);
+    }
+
+    // Built-in behaviour, such as the URL rule's replacer, is only kept for
+    // built-in rules left as they are; an edited one is imported as custom
+    const builtin = isDefaultRule(value);
+    return {
+      id: value.id,
+      name: value.name,
+      pattern: value.pattern,
+      flags: value.flags,
+      replacement: value.replacement,
+      enabled: value.enabled,
+      builtin,
+      tokenPrefix: value.tokenPrefix,
+    };
+  });
+}
@@ -0,0 +1,110 @@
+// maskingReport.ts
+// Masks a batch of logs while recording which rules changed what, per entry,
+// and which masked entries still hold high-entropy strings
+
+import { LogEntry, MaskingRule, MaskingMode, MaskingReport, MaskedFieldChange } from './types';
+import { createLogMasker, MaskingOptions, HEADER_RULE_ID, URL_RULE_ID } from './masking';
+import { findHighEntropyStrings } from './entropy';
+
+const PSEUDO_RULE_NAMES: Record<string, string> = {
+  [HEADER_RULE_ID]: 'Credential headers',
+  [URL_RULE_ID]: 'URL credentials and secret query parameters',
+};
+
+// Entries are reported every this many while masking
+const PROGRESS_INTERVAL = 2000;
+
+const stringify = (value: unknown): string =>
+  typeof value === 'string' ? value : JSON.stringify(value);
+
+// Flatten the maskable fields of an entry into `field -> text`
+const maskableFields = (log: LogEntry): Record<string, string> => {
+  const fields: Record<string, string> = {};
+  const add = (field: string, value: unknown) => {
+    if (value !== undefined && value !== null && value !== '') fields[field] = stringify(value);
+  };
+
+  add('message', log.message);
+  add('stackTrace', log.stackTrace);
+  add('url', log.url);
+  add('clientIp', log.clientIp);
+  add('userAgent', log.userAgent);
+  Object.entries(log.headers || {}).forEach(([key, value]) => add(`headers.${key}`, value));
+  Object.entries(log.metadata || {}).forEach(([key, value]) => add(`metadata.${key}`, value));
+  return fields;
+};
+
+const diffEntry = (original: LogEntry, masked: LogEntry): MaskedFieldChange[] => {
+  const before = maskableFields(original);
+  const after = maskableFields(masked);
+  return Object.keys(before)
+    .filter(field => before[field] !== (after[field] ?? ''))
+    .map(field => ({ field, original: before[field], masked: after[field] ?? '' }));
+};
+
+export function maskLogsWithReport(
+  logs: LogEntry[],
+  rules: MaskingRule[],
+  mode: MaskingMode,
+  options: MaskingOptions = {},
+  onProgress?: (masked: number, total: number) => void
+): { maskedLogs: LogEntry[]; report: MaskingReport } {
+  const totals = new Map<string, number>();
+  let entryRules = new Set<string>();
+
+  const maskLog = createLogMasker(rules, {
+    ...options,
+    onRuleMatch: (ruleId, count) => {
+      totals.set(ruleId, (totals.get(ruleId) ?? 0) + count);
+      entryRules.add(ruleId);
+    },
+  });
+
+  const report: MaskingReport = {
+    generatedAt: new Date().toISOString(),
+    mode,
+    totalEntries: logs.length,
+    ruleHits: [],
+    entries: [],
+    residue: [],
+  };
+
+  const maskedLogs = logs.map((log, index) => {
+    if (index % PROGRESS_INTERVAL === 0) onProgress?.(index, logs.length);
+    entryRules = new Set();
+    const masked = maskLog(log);
+
+    if (entryRules.size > 0) {
+      report.entries.push({ logId: log.id, ruleIds: [...entryRules], changes: diffEntry(log, masked) });
+    }
+    // A rule masking one value says nothing about the rest of the entry, so
+    // every entry is scanned for random-looking text that went through as is
+    Object.entries(maskableFields(masked)).forEach(([field, text]) => {
+      findHighEntropyStrings(text).forEach(({ value, entropy }) => {
+        report.residue.push({ logId: log.id, field, value, entropy });
+      });
+    });
+    return masked;
+  });
+
+  const ruleNames = new Map(rules.map(r => [r.id, r.name]));
+  report.ruleHits = [...totals.entries()]
+    .map(([ruleId, count]) => ({
+      ruleId,
+      ruleName: ruleNames.get(ruleId) ?? PSEUDO_RULE_NAMES[ruleId] ?? ruleId,
+      count,
+    }))
+    .sort((a, b) => b.count - a.count);
+
+  return { maskedLogs, report };
+}
+
+// Export for attaching to a data-sharing ticket. Original values are left
+// out so the report is no more sensitive than the masked logs themselves.
+export function exportMaskingReport(report: MaskingReport): string {
+  const entries = report.entries.map(entry => ({
+    ...entry,
+    changes: entry.changes.map(({ field, masked }) => ({ field, masked })),
+  }));
+  return JSON.stringify({ ...report, entries }, null, 2);
+}
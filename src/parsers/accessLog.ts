@@ -0,0 +1,360 @@
+// accessLog.ts
+// Parsers for web server access logs: Apache/Nginx Common and Combined Log
+// Format, custom Nginx `log_format` strings, AWS ELB/ALB and CloudFront
+
+import { LogEntry, LogParser, ParsedLogFields } from '../types';
+
+const MONTHS: Record<string, string> = {
+  Jan: '01', Feb: '02', Mar: '03', Apr: '04', May: '05', Jun: '06',
+  Jul: '07', Aug: '08', Sep: '09', Oct: '10', Nov: '11', Dec: '12',
+};
+
+interface HttpFields {
+  timestamp?: string;
+  // The time as written, when `timestamp` had to be converted from it
+  rawTimestamp?: string;
+  clientIp?: string;
+  method?: string;
+  path?: string;
+  protocol?: string;
+  status?: string;
+  bytes?: number;
+  latencyMs?: number;
+  userAgent?: string;
+  metadata?: Record<string, unknown>;
+}
+
+// `10/Oct/2000:13:55:36 -0700` -> `2000-10-10T13:55:36-07:00`
+export function parseClfTime(value: string): string | undefined {
+  const match = value.match(/^(\d{2})\/(\w{3})\/(\d{4}):(\d{2}:\d{2}:\d{2})(?:\s+([+-])(\d{2})(\d{2}))?$/);
+  if (!match || !MONTHS[match[2]]) return undefined;
+  const [, day, month, year, time, sign, offsetHours, offsetMinutes] = match;
+  const offset = sign ? `${sign}${offsetHours}:${offsetMinutes}` : 'Z';
+  return `${year}-${MONTHS[month]}-${day}T${time}${offset}`;
+}
+
+const dashToUndefined = (value: string | undefined): string | undefined =>
+  value === undefined || value === '-' || value === '' ? undefined : value;
+
+const toNumber = (value: string | undefined): number | undefined => {
+  const text = dashToUndefined(value);
+  if (text === undefined) return undefined;
+  const number = Number(text);
+  return Number.isFinite(number) ? number : undefined;
+};
+
+// Rounded to microseconds to avoid floating point noise such as 12.000000001
+const roundMs = (seconds: number) => Math.round(seconds * 1000 * 1000) / 1000;
+
+const secondsToMs = (value: string | undefined): number | undefined => {
+  const seconds = toNumber(value);
+  return seconds === undefined || seconds < 0 ? undefined : roundMs(seconds);
+};
+
+const stripPort = (value: string | undefined): string | undefined => {
+  const host = dashToUndefined(value);
+  if (!host) return undefined;
+  // [::1]:443 or 10.0.0.1:443
+  const bracketed = host.match(/^\[([^\]]+)\]:\d+$/);
+  if (bracketed) return bracketed[1];
+  return /^[^:]+:\d+$/.test(host) ? host.slice(0, host.lastIndexOf(':')) : host;
+};
+
+const splitRequestLine = (request: string | undefined) => {
+  const parts = (dashToUndefined(request) || '').split(' ');
+  if (parts.length < 2) return {};
+  return { method: parts[0], path: parts[1], protocol: parts[2] };
+};
+
+const levelForStatus = (status: string | undefined): LogEntry['level'] => {
+  if (status?.startsWith('5')) return 'ERROR';
+  if (status?.startsWith('4')) return 'WARN';
+  return 'INFO';
+};
+
+const removeUndefined = (record: Record<string, unknown>) => {
+  const cleaned = Object.fromEntries(Object.entries(record).filter(([, value]) => value !== undefined));
+  return Object.keys(cleaned).length > 0 ? cleaned : undefined;
+};
+
+const toFields = (http: HttpFields, line: string): ParsedLogFields => ({
+  timestamp: http.timestamp ?? '',
+  rawTimestamp: http.timestamp ? http.rawTimestamp : undefined,
+  level: levelForStatus(http.status),
+  message: line.trim(),
+  url: http.path,
+  responseCode: http.status && /^[1-5]\d{2}$/.test(http.status) ? http.status : undefined,
+  method: http.method,
+  bytes: http.bytes,
+  latencyMs: http.latencyMs,
+  userAgent: http.userAgent,
+  clientIp: http.clientIp,
+  metadata: removeUndefined({ protocol: http.protocol, ...http.metadata }),
+});
+
+// ---------------------------------------------------------------------------
+// Common / Combined Log Format
+// ---------------------------------------------------------------------------
+
+// %h %l %u %t "%r" %>s %b ["%{Referer}i" "%{User-agent}i"] [%D or $request_time]
+const CLF_PATTERN = /^(\S+) (\S+) (\S+) \[([^\]]+)\] "((?:[^"\\]|\\.)*)" (\d{3}|-) (\d+|-)(?: "((?:[^"\\]|\\.)*)" "((?:[^"\\]|\\.)*)")?(?: (\d+(?:\.\d+)?))?\s*$/;
+
+const parseClfLine = (line: string): ParsedLogFields | null => {
+  const match = line.trim().match(CLF_PATTERN);
+  if (!match) return null;
+  const [, host, ident, user, time, request, status, bytes, referer, userAgent, duration] = match;
+
+  // A trailing integer is Apache's %D (microseconds); a decimal is Nginx's
+  // $request_time (seconds)
+  let latencyMs: number | undefined;
+  if (duration !== undefined) {
+    latencyMs = duration.includes('.') ? secondsToMs(duration) : Number(duration) / 1000;
+  }
+
+  return toFields({
+    timestamp: parseClfTime(time),
+    rawTimestamp: time,
+    clientIp: dashToUndefined(host),
+    ...splitRequestLine(request),
+    status: dashToUndefined(status),
+    bytes: toNumber(bytes),
+    latencyMs,
+    userAgent: dashToUndefined(userAgent),
+    metadata: {
+      ident: dashToUndefined(ident),
+      user: dashToUndefined(user),
+      referer: dashToUndefined(referer),
+    },
+  }, line);
+};
+
+export const combinedLogParser: LogParser = {
+  id: 'clf',
+  name: 'Common/Combined access log',
+  matches: line => CLF_PATTERN.test(line.trim()),
+  parseLine: parseClfLine,
+};
+
+// ---------------------------------------------------------------------------
+// Custom Nginx log_format
+// ---------------------------------------------------------------------------
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const applyNginxVariable = (http: HttpFields, name: string, value: string) => {
+  const metadata = http.metadata || (http.metadata = {});
+  switch (name) {
+    case 'remote_addr':
+      http.clientIp = http.clientIp ?? dashToUndefined(value);
+      break;
+    case 'http_x_forwarded_for':
+      // The left-most forwarded address is the original client
+      http.clientIp = dashToUndefined(value.split(',')[0].trim()) ?? http.clientIp;
+      metadata[name] = dashToUndefined(value);
+      break;
+    case 'time_local':
+      http.timestamp = parseClfTime(value);
+      http.rawTimestamp = value;
+      break;
+    case 'time_iso8601':
+      http.timestamp = dashToUndefined(value);
+      http.rawTimestamp = undefined;
+      break;
+    case 'msec': {
+      const seconds = toNumber(value);
+      http.timestamp = seconds === undefined ? undefined : new Date(seconds * 1000).toISOString();
+      http.rawTimestamp = value;
+      break;
+    }
+    case 'request':
+      Object.assign(http, splitRequestLine(value));
+      break;
+    case 'request_method':
+      http.method = dashToUndefined(value);
+      break;
+    case 'request_uri':
+    case 'uri':
+      http.path = http.path ?? dashToUndefined(value);
+      break;
+    case 'server_protocol':
+      http.protocol = dashToUndefined(value);
+      break;
+    case 'status':
+      http.status = dashToUndefined(value);
+      break;
+    case 'body_bytes_sent':
+    case 'bytes_sent':
+      http.bytes = http.bytes ?? toNumber(value);
+      break;
+    case 'request_time':
+      http.latencyMs = secondsToMs(value);
+      break;
+    case 'upstream_response_time':
+      // Comma-separated when several upstreams were tried
+      metadata[name] = dashToUndefined(value);
+      http.latencyMs = http.latencyMs ?? secondsToMs(value.split(',').pop()?.trim());
+      break;
+    case 'http_user_agent':
+      http.userAgent = dashToUndefined(value);
+      break;
+    case 'http_referer':
+      metadata.referer = dashToUndefined(value);
+      break;
+    default:
+      metadata[name] = dashToUndefined(value);
+  }
+};
+
+// Compile an Nginx `log_format` definition, e.g.
+//   $remote_addr - $remote_user [$time_local] "$request" $status $body_bytes_sent $request_time
+// into a parser. The literal text between variables must match exactly.
+export function createNginxParser(format: string): LogParser {
+  const variables: string[] = [];
+  let source = '^';
+  let lastIndex = 0;
+  const variablePattern = /\$\{?(\w+)\}?/g;
+  let match: RegExpExecArray | null;
+  while ((match = variablePattern.exec(format)) !== null) {
+    source += escapeRegExp(format.slice(lastIndex, match.index));
+    variables.push(match[1]);
+    // Quoted variables may contain spaces; bare ones may not
+    source += format[match.index - 1] === '"' ? '((?:[^"\\\\]|\\\\.)*)' : '(\\S*)';
+    lastIndex = match.index + match[0].length;
+  }
+  source += escapeRegExp(format.slice(lastIndex)) + '\\s*$';
+  const pattern = new RegExp(source);
+
+  const parseLine = (line: string): ParsedLogFields | null => {
+    const values = line.trim().match(pattern);
+    if (!values || variables.length === 0) return null;
+    const http: HttpFields = {};
+    variables.forEach((name, index) => applyNginxVariable(http, name, values[index + 1]));
+    return toFields(http, line);
+  };
+
+  return {
+    id: 'nginx-custom',
+    name: 'Nginx custom log_format',
+    matches: line => pattern.test(line.trim()),
+    parseLine,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// AWS Application / Classic Load Balancer
+// ---------------------------------------------------------------------------
+
+const ALB_TYPES = ['http', 'https', 'h2', 'grpcs', 'ws', 'wss'];
+const ISO_TIMESTAMP = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/;
+
+const tokenize = (line: string): string[] =>
+  (line.trim().match(/"[^"]*"|\S+/g) || []).map(token => token.replace(/^"(.*)"$/, '$1'));
+
+const parseElbLine = (line: string): ParsedLogFields | null => {
+  const tokens = tokenize(line);
+  // ALB entries start with the request type; Classic ELB entries with the time
+  const offset = ALB_TYPES.includes(tokens[0]) ? 1 : 0;
+  if (tokens.length < offset + 13 || !ISO_TIMESTAMP.test(tokens[offset])) return null;
+
+  const [
+    time, elb, client, target,
+    requestTime, targetTime, responseTime,
+    elbStatus, targetStatus, receivedBytes, sentBytes,
+    request, userAgent,
+  ] = tokens.slice(offset, offset + 13);
+  if (!/^(\d{3}|-)$/.test(elbStatus)) return null;
+
+  // A phase is -1 when the load balancer could not dispatch the request
+  const phases = [requestTime, targetTime, responseTime].map(secondsToMs);
+  const latencyMs = phases.every(phase => phase !== undefined)
+    ? phases.reduce((sum: number, phase) => sum + (phase ?? 0), 0)
+    : undefined;
+
+  const extra = tokens.slice(offset + 13);
+  return toFields({
+    timestamp: time,
+    clientIp: stripPort(client),
+    ...splitRequestLine(request),
+    status: dashToUndefined(elbStatus),
+    bytes: toNumber(sentBytes),
+    latencyMs,
+    userAgent: dashToUndefined(userAgent),
+    metadata: {
+      type: offset ? tokens[0] : undefined,
+      elb,
+      target: stripPort(target),
+      targetStatus: dashToUndefined(targetStatus),
+      receivedBytes: toNumber(receivedBytes),
+      traceId: offset ? dashToUndefined(extra[3]) : undefined,
+      errorReason: offset ? dashToUndefined(extra[10]) : undefined,
+    },
+  }, line);
+};
+
+export const elbLogParser: LogParser = {
+  id: 'aws-elb',
+  name: 'AWS ALB/ELB access log',
+  matches: line => parseElbLine(line) !== null,
+  parseLine: parseElbLine,
+};
+
+// ---------------------------------------------------------------------------
+// AWS CloudFront standard logs (tab-separated, W3C extended)
+// ---------------------------------------------------------------------------
+
+const CLOUDFRONT_FIELDS = [
+  'date', 'time', 'x-edge-location', 'sc-bytes', 'c-ip', 'cs-method', 'cs(Host)',
+  'cs-uri-stem', 'sc-status', 'cs(Referer)', 'cs(User-Agent)', 'cs-uri-query',
+  'cs(Cookie)', 'x-edge-result-type', 'x-edge-request-id', 'x-host-header',
+  'cs-protocol', 'cs-bytes', 'time-taken', 'x-forwarded-for', 'ssl-protocol',
+  'ssl-cipher', 'x-edge-response-result-type', 'cs-protocol-version',
+];
+
+const decodeCloudFront = (value: string | undefined): string | undefined => {
+  const text = dashToUndefined(value);
+  if (text === undefined) return undefined;
+  try {
+    // CloudFront URL-encodes some fields twice
+    return decodeURIComponent(decodeURIComponent(text));
+  } catch {
+    return text;
+  }
+};
+
+const parseCloudFrontLine = (line: string): ParsedLogFields | null => {
+  const values = line.replace(/\r$/, '').split('\t');
+  if (values.length < 19 || !/^\d{4}-\d{2}-\d{2}$/.test(values[0]) || !/^\d{2}:\d{2}:\d{2}$/.test(values[1])) {
+    return null;
+  }
+  const field = (name: string) => values[CLOUDFRONT_FIELDS.indexOf(name)];
+
+  const query = dashToUndefined(field('cs-uri-query'));
+  const stem = field('cs-uri-stem');
+  return toFields({
+    timestamp: `${field('date')}T${field('time')}Z`,
+    rawTimestamp: `${field('date')}\t${field('time')}`,
+    clientIp: dashToUndefined(field('c-ip')),
+    method: dashToUndefined(field('cs-method')),
+    path: query ? `${stem}?${query}` : stem,
+    protocol: dashToUndefined(field('cs-protocol-version')),
+    status: dashToUndefined(field('sc-status')),
+    bytes: toNumber(field('sc-bytes')),
+    latencyMs: secondsToMs(field('time-taken')),
+    userAgent: decodeCloudFront(field('cs(User-Agent)')),
+    metadata: {
+      edgeLocation: dashToUndefined(field('x-edge-location')),
+      host: dashToUndefined(field('x-host-header')),
+      referer: decodeCloudFront(field('cs(Referer)')),
+      edgeResultType: dashToUndefined(field('x-edge-result-type')),
+      requestId: dashToUndefined(field('x-edge-request-id')),
+    },
+  }, line);
+};
+
+export const cloudFrontLogParser: LogParser = {
+  id: 'aws-cloudfront',
+  name: 'AWS CloudFront access log',
+  matches: line => parseCloudFrontLine(line) !== null,
+  isHeader: line => /^#(Version|Fields):/.test(line.trim()),
+  parseLine: parseCloudFrontLine,
+};
@@ -0,0 +1,136 @@
+// fields.ts
+// Shared helpers for mapping structured log fields onto LogEntry
+
+import { LogEntry, ParsedLogFields } from '../types';
+
+const TIMESTAMP_KEYS = ['@timestamp', 'timestamp', 'ts', 'time', 'datetime', 'date', '@t', 't'];
+const LEVEL_KEYS = ['level', 'lvl', 'severity', 'loglevel', 'log.level', 'levelname', '@l'];
+const MESSAGE_KEYS = ['msg', 'message', '@m', '@mt', 'text', 'log', 'event'];
+const COMPONENT_KEYS = ['component', 'logger', 'logger_name', 'loggerName', 'service', 'service.name', 'module', 'name', 'class', 'source'];
+const STATUS_KEYS = ['status', 'status_code', 'statusCode', 'http_status', 'http.status', 'http.status_code', 'http.response.status_code', 'response_code', 'responseCode', 'code'];
+const URL_KEYS = ['url', 'uri', 'path', 'request_uri', 'http.url', 'http.path', 'http.target', 'url.path', 'url.original', 'request'];
+const HEADER_KEYS = ['headers', 'request_headers', 'http.headers'];
+
+export function normalizeLevel(value: unknown): LogEntry['level'] | undefined {
+  if (typeof value === 'number') {
+    // pino / bunyan numeric levels
+    if (value >= 50) return 'ERROR';
+    if (value >= 40) return 'WARN';
+    if (value >= 30) return 'INFO';
+    return 'DEBUG';
+  }
+  if (typeof value !== 'string') return undefined;
+
+  switch (value.trim().toUpperCase()) {
+    case 'ERROR':
+    case 'ERR':
+    case 'FATAL':
+    case 'CRITICAL':
+    case 'CRIT':
+    case 'ALERT':
+    case 'EMERG':
+    case 'EMERGENCY':
+    case 'PANIC':
+    case 'SEVERE':
+      return 'ERROR';
+    case 'WARN':
+    case 'WARNING':
+      return 'WARN';
+    case 'INFO':
+    case 'INFORMATION':
+    case 'NOTICE':
+      return 'INFO';
+    case 'DEBUG':
+    case 'TRACE':
+    case 'VERBOSE':
+    case 'FINE':
+    case 'FINER':
+    case 'FINEST':
+      return 'DEBUG';
+    default:
+      return undefined;
+  }
+}
+
+// The timestamp text as written; epoch numbers are kept as digits and
+// converted with the rest of the file by parseLogText
+export function normalizeTimestamp(value: unknown): string | undefined {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) && value > 0 ? String(value) : undefined;
+  }
+  if (typeof value === 'string' && value.trim()) {
+    return value.trim();
+  }
+  return undefined;
+}
+
+const normalizeStatus = (value: unknown): string | undefined => {
+  const text = typeof value === 'number' ? String(value) : value;
+  if (typeof text === 'string' && /^[1-5]\d{2}$/.test(text.trim())) {
+    return text.trim();
+  }
+  return undefined;
+};
+
+const stringify = (value: unknown): string =>
+  typeof value === 'string' ? value : JSON.stringify(value);
+
+// Flatten nested objects into dotted keys so `{"http":{"status":500}}` can be
+// looked up as `http.status`. Arrays are kept as leaf values.
+export function flattenRecord(record: Record<string, unknown>, prefix = ''): Record<string, unknown> {
+  const flat: Record<string, unknown> = {};
+  Object.entries(record).forEach(([key, value]) => {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (value && typeof value === 'object' && !Array.isArray(value) && !HEADER_KEYS.includes(path)) {
+      Object.assign(flat, flattenRecord(value as Record<string, unknown>, path));
+    } else {
+      flat[path] = value;
+    }
+  });
+  return flat;
+}
+
+// Map a flat record of structured fields onto LogEntry fields. Every field
+// that is not consumed by a LogEntry property ends up in `metadata`; fields the
+// record does not provide are taken from `fallback` when given.
+export function recordToFields(
+  record: Record<string, unknown>,
+  rawLine: string,
+  fallback?: ParsedLogFields
+): ParsedLogFields {
+  const remaining: Record<string, unknown> = { ...record };
+
+  const take = <T>(keys: string[], normalize: (value: unknown) => T | undefined): T | undefined => {
+    for (const key of keys) {
+      if (!(key in remaining)) continue;
+      const normalized = normalize(remaining[key]);
+      if (normalized !== undefined) {
+        delete remaining[key];
+        return normalized;
+      }
+    }
+    return undefined;
+  };
+
+  const timestamp = take(TIMESTAMP_KEYS, normalizeTimestamp);
+  const level = take(LEVEL_KEYS, normalizeLevel);
+  const message = take(MESSAGE_KEYS, value => (value === undefined || value === null ? undefined : stringify(value)));
+  const component = take(COMPONENT_KEYS, value => (typeof value === 'string' && value ? value : undefined));
+  const responseCode = take(STATUS_KEYS, normalizeStatus);
+  const url = take(URL_KEYS, value => (typeof value === 'string' && value ? value : undefined));
+  const headers = take(HEADER_KEYS, value => {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) return undefined;
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, stringify(v)]));
+  });
+
+  return {
+    timestamp: timestamp ?? fallback?.timestamp ?? '',
+    level: level ?? fallback?.level ?? 'INFO',
+    message: message ?? fallback?.message ?? rawLine.trim(),
+    component: component ?? fallback?.component,
+    url: url ?? fallback?.url,
+    responseCode: responseCode ?? fallback?.responseCode,
+    headers: headers ?? fallback?.headers,
+    metadata: Object.keys(remaining).length > 0 ? remaining : undefined,
+  };
+}
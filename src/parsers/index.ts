@@ -0,0 +1,148 @@
+// parsers/index.ts
+// Log format registry: auto-detects the format of a log file and parses it into LogEntry[]
+
+import { LogEntry, LogParser, ParsedLogFields, ParseOptions, ParseResult } from '../types';
+import { jsonLinesParser } from './jsonLines';
+import { combinedLogParser, elbLogParser, cloudFrontLogParser } from './accessLog';
+import { logfmtParser, keyValueParser } from './logfmt';
+import { plainTextParser } from './plainText';
+import { groupMultilineEntries } from './multiline';
+import { normalizeTimestamps } from './timestamps';
+
+const DETECTION_SAMPLE_SIZE = 50;
+const DETECTION_THRESHOLD = 0.6;
+const EXPLICIT_LEVEL = /\b(TRACE|DEBUG|INFO|WARN|WARNING|ERROR|FATAL|CRITICAL|SEVERE)\b|"(level|severity)"|\b(level|lvl|severity)=/i;
+
+// Checked in order during detection; more specific formats come first so a
+// tie goes to the stricter parser. The plain text parser is the fallback and
+// is never part of detection.
+const registry: LogParser[] = [
+  jsonLinesParser,
+  combinedLogParser,
+  elbLogParser,
+  cloudFrontLogParser,
+  logfmtParser,
+  keyValueParser,
+];
+
+export function registerParser(parser: LogParser, options: { before?: string } = {}) {
+  const existing = registry.findIndex(p => p.id === parser.id);
+  if (existing !== -1) {
+    registry.splice(existing, 1);
+  }
+  const index = options.before ? registry.findIndex(p => p.id === options.before) : -1;
+  if (index === -1) {
+    registry.push(parser);
+  } else {
+    registry.splice(index, 0, parser);
+  }
+}
+
+export function getParsers(): LogParser[] {
+  return [...registry, plainTextParser];
+}
+
+// `preferred` parsers (e.g. a user-supplied Nginx log_format) are tried
+// before the registry
+export function detectParser(lines: string[], preferred: LogParser[] = []): LogParser {
+  let best: LogParser = plainTextParser;
+  let bestScore = 0;
+  [...preferred, ...registry].forEach(parser => {
+    const sample = lines
+      .filter(line => !parser.isHeader?.(line))
+      .slice(0, DETECTION_SAMPLE_SIZE);
+    if (sample.length === 0) return;
+    const score = sample.filter(line => parser.matches(line)).length / sample.length;
+    if (score >= DETECTION_THRESHOLD && score > bestScore) {
+      best = parser;
+      bestScore = score;
+    }
+  });
+  return best;
+}
+
+// Entries are reported every this many groups while parsing
+const PROGRESS_INTERVAL = 5000;
+
+export function parseLogText(text: string, preferred: LogParser[] = [], options: ParseOptions = {}): ParseResult {
+  return parseLogLines(text.split('\n'), preferred, options);
+}
+
+// For callers that read a file line by line instead of as one string
+export function parseLogLines(
+  rawLines: string[],
+  preferred: LogParser[] = [],
+  options: ParseOptions = {},
+  onProgress?: (parsed: number, total: number) => void
+): ParseResult {
+  const lines = rawLines.filter(line => line.trim());
+  const groups = groupMultilineEntries(lines);
+  const parser = detectParser(groups.map(group => group.head), preferred);
+  const entries: (ParsedLogFields & { id: string })[] = [];
+  let fallbackCount = 0;
+  let errorCount = 0;
+
+  groups.forEach(({ index, head, continuation }, groupIndex) => {
+    if (groupIndex % PROGRESS_INTERVAL === 0) onProgress?.(groupIndex, groups.length);
+    const id = `log-${index + 1}`;
+    if (parser.isHeader?.(head)) return;
+    const stackTrace = continuation.length > 0 ? continuation.join('\n') : undefined;
+    try {
+      // Lines the detected parser does not understand (banners, stray output)
+      // still get the plain text heuristics instead of being dropped
+      let fields = parser.parseLine(head);
+      if (!fields) {
+        fields = plainTextParser.parseLine(head);
+        fallbackCount++;
+      }
+      if (fields) {
+        // A trace under a line with no level of its own (`Exception in thread
+        // "main" ...`) is an error
+        const level = stackTrace && !EXPLICIT_LEVEL.test(head) ? 'ERROR' : fields.level;
+        entries.push({ id, ...fields, level, stackTrace });
+      }
+    } catch (error) {
+      errorCount++;
+      console.warn(`Error parsing line ${index + 1}:`, error);
+
+      // Create a fallback log entry for unparseable lines
+      entries.push({
+        id,
+        timestamp: '',
+        level: 'INFO',
+        message: head.trim() || `[Unparseable log entry at line ${index + 1}]`,
+        stackTrace,
+      });
+    }
+  });
+
+  // Timestamps are normalized together: the date order and the syslog year
+  // depend on the whole file
+  const { millis, dateOrder, inherited } = normalizeTimestamps(entries.map(entry => entry.timestamp), options);
+  const logs = entries.map((entry, index) => ({
+    ...entry,
+    timestamp: new Date(millis[index]).toISOString(),
+    timestampMs: millis[index],
+    rawTimestamp: entry.timestamp.trim() ? entry.rawTimestamp ?? entry.timestamp.trim() : undefined,
+  }));
+
+  // Show parsing summary
+  if (fallbackCount > 0 || errorCount > 0 || inherited > 0) {
+    console.log(
+      `Parsed ${logs.length} logs as ${parser.name}: ${fallbackCount} lines fell back to plain text, ${errorCount} lines had parsing issues, ${inherited} entries inherited a timestamp`
+    );
+  }
+
+  return { logs, format: parser.name, dateOrder };
+}
+
+// Files loaded together become one timeline, ordered by time; the sort is
+// stable, so a file's own order breaks ties. Every file numbers its entries
+// from log-1, so merged entries are renumbered.
+export function mergeSources(sources: { source: string; logs: LogEntry[] }[]): LogEntry[] {
+  const tagged = sources.flatMap(({ source, logs }) => logs.map(log => ({ ...log, source })));
+  if (sources.length < 2) return tagged;
+  return tagged
+    .sort((a, b) => a.timestampMs - b.timestampMs)
+    .map((log, index) => ({ ...log, id: `log-${index + 1}` }));
+}
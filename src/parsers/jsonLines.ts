@@ -0,0 +1,25 @@
+// jsonLines.ts
+// Parser for JSON-lines logs (one JSON object per line, e.g. pino, bunyan, Serilog)
+
+import { LogParser, ParsedLogFields } from '../types';
+import { flattenRecord, recordToFields } from './fields';
+
+const parseJsonLine = (line: string): ParsedLogFields | null => {
+  const trimmed = line.trim();
+  if (!trimmed.startsWith('{') || !trimmed.endsWith('}')) return null;
+
+  try {
+    const record = JSON.parse(trimmed);
+    if (!record || typeof record !== 'object' || Array.isArray(record)) return null;
+    return recordToFields(flattenRecord(record), trimmed);
+  } catch {
+    return null;
+  }
+};
+
+export const jsonLinesParser: LogParser = {
+  id: 'json',
+  name: 'JSON lines',
+  matches: line => parseJsonLine(line) !== null,
+  parseLine: parseJsonLine,
+};
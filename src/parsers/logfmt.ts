@@ -0,0 +1,67 @@
+// logfmt.ts
+// Parsers for logfmt (`level=info msg="started" port=8080`) and for free text
+// followed by key=value pairs (`2024-01-15 10:30:45 ERROR login failed user=bob status=401`)
+
+import { LogParser, ParsedLogFields } from '../types';
+import { recordToFields } from './fields';
+import { parsePlainTextLine } from './plainText';
+
+// key=value, key="quoted value" or key= (empty)
+const PAIR_PATTERN = /([\w.@-]+)=("(?:[^"\\]|\\.)*"|[^\s"]*)/g;
+
+interface ExtractedPairs {
+  pairs: Record<string, unknown>;
+  // Text left over once every pair has been removed
+  rest: string;
+}
+
+const unquote = (value: string): string =>
+  value.startsWith('"') ? value.slice(1, -1).replace(/\\(.)/g, '$1') : value;
+
+const coerce = (value: string): unknown => {
+  if (/^-?\d+(\.\d+)?$/.test(value) && value.length < 16) return Number(value);
+  if (value === 'true' || value === 'false') return value === 'true';
+  return value;
+};
+
+export function extractPairs(line: string): ExtractedPairs {
+  const pairs: Record<string, unknown> = {};
+  const rest = line.replace(PAIR_PATTERN, (_, key: string, raw: string) => {
+    const quoted = raw.startsWith('"');
+    const value = unquote(raw);
+    pairs[key] = quoted ? value : coerce(value);
+    return ' ';
+  });
+  return { pairs, rest: rest.replace(/\s+/g, ' ').trim() };
+}
+
+const parseLogfmtLine = (line: string): ParsedLogFields | null => {
+  const { pairs, rest } = extractPairs(line);
+  // logfmt lines consist of pairs only
+  if (rest || Object.keys(pairs).length < 2) return null;
+  return recordToFields(pairs, line);
+};
+
+const parseKeyValueLine = (line: string): ParsedLogFields | null => {
+  const { pairs, rest } = extractPairs(line);
+  if (!rest || Object.keys(pairs).length < 2) return null;
+
+  // The free-text part carries timestamp, level and component the same way a
+  // plain text line does; explicit pairs take precedence over those guesses.
+  // The message stays the full line, as it does for plain text logs.
+  return recordToFields(pairs, line, { ...parsePlainTextLine(rest), message: line.trim() });
+};
+
+export const logfmtParser: LogParser = {
+  id: 'logfmt',
+  name: 'logfmt',
+  matches: line => parseLogfmtLine(line) !== null,
+  parseLine: parseLogfmtLine,
+};
+
+export const keyValueParser: LogParser = {
+  id: 'key-value',
+  name: 'Text with key=value pairs',
+  matches: line => parseKeyValueLine(line) !== null,
+  parseLine: parseKeyValueLine,
+};
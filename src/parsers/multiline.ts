@@ -0,0 +1,55 @@
+// multiline.ts
+// Folds stack traces and other continuation lines into the entry that precedes them
+
+export interface LineGroup {
+  // Index of the first line of the group in the input
+  index: number;
+  head: string;
+  continuation: string[];
+}
+
+// Java/Node `at ...` frames and Java `... 12 more` / `... 3 common frames omitted`
+const FRAME_LINE = /^\s+(at\s|\.\.\.\s*\d+\s+(more|common frames omitted))/;
+const JAVA_CAUSE_LINE = /^\s*(Caused by|Suppressed|Wrapped by):\s/;
+const TRACEBACK_START = /^Traceback \(most recent call last\):/;
+const PYTHON_CHAINED = /^(During handling of the above exception|The above exception was the direct cause)/;
+// `java.lang.IllegalStateException: msg`, `TypeError: msg`, `ValueError`
+const EXCEPTION_HEADER = /^([A-Za-z_$][\w$]*\.)*[A-Za-z_$][\w$]*(Exception|Error|Throwable|Warning|Exit|Interrupt)(:\s.*)?$/;
+const STARTS_WITH_TIMESTAMP = /^\s*\[?(\d{4}-\d{2}-\d{2}|\d{2}\/\w{3}\/\d{4}|\d{2}\/\d{2}\/\d{4}|\w{3}\s+\d{1,2}\s+\d{2}:\d{2}:\d{2})/;
+
+const isIndented = (line: string) => /^\s/.test(line) && line.trim().length > 0;
+
+export function groupMultilineEntries(lines: string[]): LineGroup[] {
+  const groups: LineGroup[] = [];
+  let current: LineGroup | null = null;
+  let inTraceback = false;
+
+  lines.forEach((line, index) => {
+    const next = lines[index + 1];
+    let isContinuation = false;
+
+    if (current && !STARTS_WITH_TIMESTAMP.test(line)) {
+      if (TRACEBACK_START.test(line) || PYTHON_CHAINED.test(line)) {
+        inTraceback = true;
+        isContinuation = true;
+      } else if (FRAME_LINE.test(line) || JAVA_CAUSE_LINE.test(line) || isIndented(line)) {
+        isContinuation = true;
+      } else if (EXCEPTION_HEADER.test(line.trim())) {
+        // The exception line ends a Python traceback, or opens a Java/Node
+        // trace when frames follow it
+        isContinuation = inTraceback || (next !== undefined && FRAME_LINE.test(next));
+        inTraceback = false;
+      }
+    }
+
+    if (isContinuation && current) {
+      current.continuation.push(line.replace(/\s+$/, ''));
+    } else {
+      inTraceback = false;
+      current = { index, head: line, continuation: [] };
+      groups.push(current);
+    }
+  });
+
+  return groups;
+}
@@ -0,0 +1,93 @@
+// plainText.ts
+// Heuristic parser for free-form text logs; used when no structured format is detected
+
+import { LogParser, ParsedLogFields } from '../types';
+import { normalizeLevel } from './fields';
+
+export function parsePlainTextLine(line: string): ParsedLogFields {
+  // Enhanced log parsing with multiple timestamp formats; the text is
+  // normalized later, once the whole file is known
+  const timestampPatterns = [
+    /(\d{4}-\d{2}-\d{2}[T\s]\d{2}:\d{2}:\d{2}(?:[.,]\d+)?(?:Z|\s?[+-]\d{2}:?\d{2})?)/,
+    /(\d{1,2}([/.-])\d{1,2}\2\d{4}[\s,]+\d{1,2}:\d{2}:\d{2}(?:[.,]\d+)?)/,
+    /((?:Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec)\s+\d{1,2}\s+\d{2}:\d{2}:\d{2})/,
+    /\b(\d{13})\b/  // Unix timestamp in milliseconds
+  ];
+
+  let timestamp = '';
+  for (const pattern of timestampPatterns) {
+    const match = line.match(pattern);
+    if (match) {
+      timestamp = match[1];
+      break;
+    }
+  }
+
+  // Enhanced log level detection
+  const levelMatch = line.match(/\b(TRACE|DEBUG|INFO|WARN|WARNING|ERROR|FATAL|CRITICAL)\b/i);
+  const level = (levelMatch && normalizeLevel(levelMatch[1])) || 'INFO';
+
+  // Enhanced URL detection
+  const urlMatch = line.match(/https?:\/\/[^\s,;)}\]]+/) ||
+                  line.match(/\/[a-zA-Z0-9\/\-_.~!*'();:@&=+$,?#[\]]*/) ||
+                  line.match(/\w+:\/\/[^\s,;)}\]]+/);
+
+  // Enhanced response code detection
+  const responseCodeMatch = line.match(/\b([1-5]\d{2})\b/) ||
+                           line.match(/status[=:\s]+([1-5]\d{2})/i) ||
+                           line.match(/code[=:\s]+([1-5]\d{2})/i);
+
+  // Enhanced component extraction
+  const componentPatterns = [
+    /\[([^\]]+)\]/,
+    /(\w+Service|\w+Controller|\w+Module|\w+Handler|\w+Provider)/,
+    /logger[=:\s]+(\w+)/i,
+    /class[=:\s]+(\w+)/i,
+    /^(\w+):/
+  ];
+
+  let component = undefined;
+  for (const pattern of componentPatterns) {
+    const match = line.match(pattern);
+    if (match) {
+      component = match[1];
+      break;
+    }
+  }
+
+  // Extract additional metadata
+  const headers: Record<string, string> = {};
+  const headerMatches = line.match(/headers?\s*[:=]\s*\{([^}]+)\}/i);
+  if (headerMatches) {
+    try {
+      // Simple header parsing
+      const headerString = headerMatches[1];
+      const headerPairs = headerString.split(',');
+      headerPairs.forEach(pair => {
+        const [key, value] = pair.split(':').map(s => s.trim().replace(/['"]/g, ''));
+        if (key && value) {
+          headers[key] = value;
+        }
+      });
+    } catch (e) {
+      // Ignore header parsing errors
+    }
+  }
+
+  return {
+    timestamp,
+    level,
+    message: line.trim(),
+    url: urlMatch ? urlMatch[0] : undefined,
+    responseCode: responseCodeMatch ? responseCodeMatch[1] : undefined,
+    component,
+    headers: Object.keys(headers).length > 0 ? headers : undefined,
+  };
+}
+
+export const plainTextParser: LogParser = {
+  id: 'plain',
+  name: 'Plain text',
+  matches: () => true,
+  parseLine: parsePlainTextLine,
+};
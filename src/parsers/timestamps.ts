@@ -0,0 +1,237 @@
+// timestamps.ts
+// Normalizes timestamp text to epoch milliseconds: zone-less times are read in
+// the source timezone, DD/MM vs MM/DD is decided per file and syslog dates get a year
+
+import { DateOrder, ParseOptions } from '../types';
+
+export const LOCAL_TIME_ZONE = 'local';
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const DAY = 24 * 60 * 60 * 1000;
+
+// 2024-01-15T10:30:45.123Z, 2024-01-15 10:30:45,123 +0100, 2024-01-15
+const ISO_DATE = /^(\d{4})-(\d{2})-(\d{2})(?:[T\s](\d{2}):(\d{2})(?::(\d{2})(?:[.,](\d+))?)?)?\s*(Z|[+-]\d{2}:?\d{2})?$/i;
+// 15/01/2024 10:30:45, 01-15-2024, 15.01.2024; which part is the day depends on the file
+const NUMERIC_DATE = /^(\d{1,2})([/.-])(\d{1,2})\2(\d{4})(?:[T\s,]+(\d{1,2}):(\d{2})(?::(\d{2})(?:[.,](\d+))?)?)?\s*(Z|[+-]\d{2}:?\d{2})?$/i;
+// Jan 15 10:30:45 (RFC 3164 syslog has no year)
+const SYSLOG_DATE = /^([a-z]{3})\s+(\d{1,2})\s+(\d{2}):(\d{2}):(\d{2})(?:\.(\d+))?$/i;
+// Epoch seconds, milliseconds, microseconds or nanoseconds
+const EPOCH = /^(\d{9,19})(?:\.(\d+))?$/;
+
+interface WallClock {
+  year: number;
+  // 1-12
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  millisecond: number;
+}
+
+const toNumber = (value: string | undefined) => (value ? parseInt(value, 10) : 0);
+
+// Fractions of any precision, truncated to milliseconds
+const toMillisecond = (fraction: string | undefined) => (fraction ? parseInt(fraction.slice(0, 3).padEnd(3, '0'), 10) : 0);
+
+// `Z`, `+01:00` or `-0530` in minutes east of UTC
+const parseOffset = (offset: string): number => {
+  if (offset.toUpperCase() === 'Z') return 0;
+  const digits = offset.replace(':', '');
+  const minutes = parseInt(digits.slice(1, 3), 10) * 60 + parseInt(digits.slice(3, 5), 10);
+  return offset.startsWith('-') ? -minutes : minutes;
+};
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string) => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+// How far the wall clock in `timeZone` is ahead of UTC at the given instant
+const zoneOffsetMs = (millis: number, timeZone: string): number => {
+  const parts = getFormatter(timeZone).formatToParts(new Date(millis));
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(p => p.type === type)?.value);
+  const wallClock = Date.UTC(part('year'), part('month') - 1, part('day'), part('hour') % 24, part('minute'), part('second'));
+  return wallClock - Math.floor(millis / 1000) * 1000;
+};
+
+// The calendar year in `timeZone` at the given instant
+const yearIn = (millis: number, timeZone: string): number => {
+  if (timeZone === LOCAL_TIME_ZONE) return new Date(millis).getFullYear();
+  return Number(getFormatter(timeZone).formatToParts(new Date(millis)).find(p => p.type === 'year')?.value);
+};
+
+function wallClockToMillis(clock: WallClock, timeZone: string): number {
+  const { year, month, day, hour, minute, second, millisecond } = clock;
+  if (timeZone === LOCAL_TIME_ZONE) {
+    return new Date(year, month - 1, day, hour, minute, second, millisecond).getTime();
+  }
+  const asUtc = Date.UTC(year, month - 1, day, hour, minute, second, millisecond);
+  if (timeZone === 'UTC') return asUtc;
+  // The offset at the guess can differ from the offset at the answer around a
+  // DST change; one correction settles it
+  const guess = asUtc - zoneOffsetMs(asUtc, timeZone);
+  const offset = zoneOffsetMs(guess, timeZone);
+  return asUtc - offset;
+}
+
+const clockToMillis = (clock: WallClock, offset: string | undefined, timeZone: string) =>
+  offset
+    ? Date.UTC(clock.year, clock.month - 1, clock.day, clock.hour, clock.minute, clock.second, clock.millisecond) -
+      parseOffset(offset) * 60 * 1000
+    : wallClockToMillis(clock, timeZone);
+
+const parseEpoch = (digits: string, fraction: string | undefined): number => {
+  const value = parseFloat(fraction ? `${digits}.${fraction}` : digits);
+  if (digits.length <= 11) return Math.round(value * 1000);
+  if (digits.length <= 14) return Math.round(value);
+  if (digits.length <= 17) return Math.round(value / 1000);
+  return Math.round(value / 1e6);
+};
+
+// A date is day-first when its first part cannot be a month. Files that never
+// say either way are read month-first.
+export function detectDateOrder(texts: string[]): DateOrder | undefined {
+  let dayFirst = 0;
+  let monthFirst = 0;
+  let seen = false;
+  texts.forEach(text => {
+    const match = NUMERIC_DATE.exec(text);
+    if (!match) return;
+    seen = true;
+    if (toNumber(match[1]) > 12) dayFirst++;
+    else if (toNumber(match[3]) > 12) monthFirst++;
+  });
+  if (!seen) return undefined;
+  return dayFirst > monthFirst ? 'day-first' : 'month-first';
+}
+
+interface SyslogDate {
+  index: number;
+  clock: WallClock;
+  // Year rollovers (Dec -> Jan) seen before this entry
+  rollovers: number;
+}
+
+// Timestamp text per entry ('' when the entry has none) to epoch milliseconds.
+// Entries without a usable timestamp inherit the previous entry's time; leading
+// ones take the first known time, and a file with none at all the reference date.
+export function normalizeTimestamps(
+  texts: string[],
+  options: ParseOptions = {}
+): { millis: number[]; dateOrder?: DateOrder; inherited: number } {
+  const timeZone = options.timeZone || LOCAL_TIME_ZONE;
+  const reference = (options.referenceDate ?? new Date()).getTime();
+  const dateOrder = detectDateOrder(texts);
+  const parsed: (number | null)[] = texts.map(() => null);
+  const syslogDates: SyslogDate[] = [];
+  let rollovers = 0;
+  let previousMonth = 0;
+
+  texts.forEach((raw, index) => {
+    const text = raw.trim();
+    if (!text) return;
+
+    let match = ISO_DATE.exec(text);
+    if (match) {
+      const clock = {
+        year: toNumber(match[1]),
+        month: toNumber(match[2]),
+        day: toNumber(match[3]),
+        hour: toNumber(match[4]),
+        minute: toNumber(match[5]),
+        second: toNumber(match[6]),
+        millisecond: toMillisecond(match[7]),
+      };
+      parsed[index] = clockToMillis(clock, match[8], timeZone);
+      return;
+    }
+
+    match = NUMERIC_DATE.exec(text);
+    if (match) {
+      const [first, second] = [toNumber(match[1]), toNumber(match[3])];
+      const clock = {
+        year: toNumber(match[4]),
+        month: dateOrder === 'day-first' ? second : first,
+        day: dateOrder === 'day-first' ? first : second,
+        hour: toNumber(match[5]),
+        minute: toNumber(match[6]),
+        second: toNumber(match[7]),
+        millisecond: toMillisecond(match[8]),
+      };
+      parsed[index] = clockToMillis(clock, match[9], timeZone);
+      return;
+    }
+
+    match = SYSLOG_DATE.exec(text);
+    const month = match ? MONTHS.indexOf(match[1].toLowerCase()) + 1 : 0;
+    if (match && month > 0) {
+      // Going back more than half a year means the year turned over
+      if (previousMonth - month > 6) rollovers++;
+      previousMonth = month;
+      syslogDates.push({
+        index,
+        rollovers,
+        clock: {
+          year: 0,
+          month,
+          day: toNumber(match[2]),
+          hour: toNumber(match[3]),
+          minute: toNumber(match[4]),
+          second: toNumber(match[5]),
+          millisecond: toMillisecond(match[6]),
+        },
+      });
+      return;
+    }
+
+    match = EPOCH.exec(text);
+    if (match) {
+      parsed[index] = parseEpoch(match[1], match[2]);
+      return;
+    }
+
+    // RFC 2822 and whatever else the platform understands
+    const fallback = Date.parse(text);
+    if (!Number.isNaN(fallback)) parsed[index] = fallback;
+  });
+
+  // The last syslog entry is in the reference year unless that would put it
+  // in the future (a log written in December, read in January)
+  if (syslogDates.length > 0) {
+    const last = syslogDates[syslogDates.length - 1];
+    let lastYear = yearIn(reference, timeZone);
+    if (wallClockToMillis({ ...last.clock, year: lastYear }, timeZone) > reference + DAY) lastYear--;
+    syslogDates.forEach(({ index, clock, rollovers: seen }) => {
+      parsed[index] = wallClockToMillis({ ...clock, year: lastYear - (last.rollovers - seen) }, timeZone);
+    });
+  }
+
+  let inherited = 0;
+  let previous = parsed.find(value => value !== null && !Number.isNaN(value)) ?? reference;
+  const millis = parsed.map(value => {
+    if (value === null || Number.isNaN(value)) {
+      inherited++;
+      return previous;
+    }
+    previous = value;
+    return value;
+  });
+
+  return { millis, dateOrder, inherited };
+}
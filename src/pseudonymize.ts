@@ -0,0 +1,63 @@
+// pseudonymize.ts
+// Deterministic pseudonymization: maps each distinct sensitive value to a
+// stable token (IP_1, EMAIL_3, ...) so correlation survives masking
+
+import { MaskingVault } from './vault';
+
+export interface Pseudonymizer {
+  tokenFor: (prefix: string, value: string) => string;
+}
+
+// Salted hash -> token. It holds no raw values, so the page keeps it and hands
+// it to each masking job; numbering then carries on even in a new log worker.
+export type PseudonymTable = Map<string, string>;
+
+export function createSessionSalt(): string {
+  const bytes = new Uint8Array(16);
+  crypto.getRandomValues(bytes);
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// FNV-1a, run twice with different offsets for a 64-bit digest. This only
+// keys the token table; it is not meant to withstand brute force on its own,
+// which is why the raw values never leave the browser either way.
+const fnv1a = (text: string, offset: number): string => {
+  let hash = offset;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+export function saltedHash(salt: string, value: string): string {
+  const input = `${salt}\u0000${value}`;
+  return fnv1a(input, 0x811c9dc5) + fnv1a(input, 0x050c5d1f);
+}
+
+// Tokens are numbered per prefix in order of first appearance. The table is
+// keyed by salted hash, so the pseudonymizer itself never holds raw values;
+// only the optional vault does, for local reveal. New tokens are added to
+// `tokens`, and numbering continues after the tokens already in it.
+export function createPseudonymizer(salt: string, vault?: MaskingVault, tokens: PseudonymTable = new Map()): Pseudonymizer {
+  const counters = new Map<string, number>();
+  tokens.forEach(token => {
+    const [, prefix, number] = token.match(/^(.*)_(\d+)$/) ?? [];
+    if (prefix !== undefined) counters.set(prefix, Math.max(counters.get(prefix) ?? 0, Number(number)));
+  });
+
+  return {
+    tokenFor: (prefix: string, value: string) => {
+      const key = saltedHash(salt, `${prefix}:${value}`);
+      const existing = tokens.get(key);
+      if (existing) return existing;
+
+      const next = (counters.get(prefix) ?? 0) + 1;
+      counters.set(prefix, next);
+      const token = `${prefix}_${next}`;
+      tokens.set(key, token);
+      vault?.record(token, value);
+      return token;
+    },
+  };
+}
@@ -0,0 +1,570 @@
+// query.ts
+// The filter query language: `level:ERROR AND (component:Auth* OR status>=500)
+// -message:/health.?check/i @last 15m`
+
+import Fuse from 'fuse.js';
+import { LogEntry, MatchRange, SearchMode } from './types';
+
+export class QuerySyntaxError extends Error {
+  // Offset into the query text where the problem starts
+  position: number;
+
+  constructor(message: string, position: number) {
+    super(message);
+    this.name = 'QuerySyntaxError';
+    this.position = position;
+  }
+}
+
+type FieldKind =
+  // Whole value, with wildcards
+  | 'keyword'
+  // Anywhere in the value
+  | 'text'
+  | 'number'
+  | 'time';
+
+interface QueryField {
+  name: string;
+  aliases: string[];
+  kind: FieldKind;
+  description: string;
+  get: (log: LogEntry) => string | number | undefined;
+}
+
+export const QUERY_FIELDS: QueryField[] = [
+  { name: 'level', aliases: [], kind: 'keyword', description: 'ERROR, WARN, INFO or DEBUG', get: log => log.level },
+  { name: 'component', aliases: [], kind: 'keyword', description: 'Component or logger', get: log => log.component },
+  { name: 'message', aliases: ['msg'], kind: 'text', description: 'Message text', get: log => log.message },
+  { name: 'trace', aliases: [], kind: 'text', description: 'Stack trace', get: log => log.stackTrace },
+  { name: 'status', aliases: ['code'], kind: 'number', description: 'HTTP response code', get: log => log.responseCode },
+  { name: 'method', aliases: [], kind: 'keyword', description: 'HTTP method', get: log => log.method },
+  { name: 'url', aliases: ['path'], kind: 'text', description: 'Request URL or path', get: log => log.url },
+  { name: 'ip', aliases: [], kind: 'keyword', description: 'Client IP', get: log => log.clientIp },
+  { name: 'ua', aliases: [], kind: 'text', description: 'User agent', get: log => log.userAgent },
+  { name: 'bytes', aliases: [], kind: 'number', description: 'Response size', get: log => log.bytes },
+  { name: 'latency', aliases: [], kind: 'number', description: 'Latency in ms', get: log => log.latencyMs },
+  { name: 'source', aliases: [], kind: 'keyword', description: 'Source file', get: log => log.source },
+  { name: 'time', aliases: [], kind: 'time', description: 'Timestamp, e.g. time>=2024-01-15T10:00', get: log => log.timestamp },
+  { name: 'id', aliases: [], kind: 'keyword', description: 'Entry id, e.g. log-12', get: log => log.id },
+];
+
+// Any structured field that did not map onto a LogEntry property
+const METADATA_PREFIX = 'meta.';
+
+const DURATION_UNITS: Record<string, number> = { s: 1000, m: 60 * 1000, h: 60 * 60 * 1000, d: 24 * 60 * 60 * 1000, w: 7 * 24 * 60 * 60 * 1000 };
+
+type Operator = ':' | '=' | '!=' | '>' | '>=' | '<' | '<=';
+
+type QueryValue =
+  | { kind: 'text'; text: string; pattern: RegExp | null }
+  | { kind: 'regex'; regex: RegExp };
+
+type QueryNode =
+  | { type: 'and' | 'or'; children: QueryNode[] }
+  | { type: 'not'; operand: QueryNode }
+  | { type: 'compare'; field: QueryField; operator: Operator; value: QueryValue; number?: number }
+  | { type: 'text'; value: QueryValue; position: number }
+  | { type: 'last'; durationMs: number };
+
+const escapeRegex = (text: string) => text.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+
+// `*` and `?` wildcards; null when the text has none
+const globBody = (text: string) => escapeRegex(text).replace(/\*/g, '.*').replace(/\?/g, '.');
+
+const globToRegex = (text: string, anchored: boolean): RegExp | null => {
+  if (!/[*?]/.test(text)) return null;
+  const body = globBody(text);
+  return new RegExp(anchored ? `^${body}$` : body, 'i');
+};
+
+const findField = (name: string): QueryField | undefined => {
+  const lower = name.toLowerCase();
+  if (lower.startsWith(METADATA_PREFIX) && lower.length > METADATA_PREFIX.length) {
+    const key = name.slice(METADATA_PREFIX.length);
+    return {
+      name: `${METADATA_PREFIX}${key}`,
+      aliases: [],
+      kind: 'keyword',
+      description: 'Metadata field',
+      get: log => {
+        const value = log.metadata?.[key];
+        if (value === undefined || value === null) return undefined;
+        return typeof value === 'number' ? value : typeof value === 'string' ? value : JSON.stringify(value);
+      },
+    };
+  }
+  return QUERY_FIELDS.find(field => field.name === lower || field.aliases.includes(lower));
+};
+
+// Zone-less dates are local time, like the timestamp range inputs
+const parseTime = (text: string): number => Date.parse(/^\d{4}-\d{2}-\d{2}$/.test(text) ? `${text}T00:00` : text);
+
+// Recursive descent straight over the text; what counts as a token depends on
+// where it appears (`url:http://x` vs `level:ERROR`)
+class Parser {
+  private pos = 0;
+
+  constructor(private readonly text: string) {}
+
+  parse(): QueryNode | null {
+    this.skipSpace();
+    if (this.atEnd()) return null;
+    const node = this.parseOr();
+    this.skipSpace();
+    if (!this.atEnd()) {
+      throw new QuerySyntaxError(this.peek() === ')' ? 'Unmatched closing parenthesis' : 'Unexpected text', this.pos);
+    }
+    return node;
+  }
+
+  private atEnd() {
+    return this.pos >= this.text.length;
+  }
+
+  private peek(offset = 0) {
+    return this.text[this.pos + offset];
+  }
+
+  private skipSpace() {
+    while (!this.atEnd() && /\s/.test(this.text[this.pos])) this.pos++;
+  }
+
+  // AND / OR / NOT are keywords in upper case only, so `not` can be searched for
+  private acceptKeyword(keyword: string, symbol?: string): boolean {
+    this.skipSpace();
+    if (symbol && this.text.startsWith(symbol, this.pos)) {
+      this.pos += symbol.length;
+      return true;
+    }
+    if (this.text.startsWith(keyword, this.pos)) {
+      const next = this.text[this.pos + keyword.length];
+      if (next === undefined || /[\s(]/.test(next)) {
+        this.pos += keyword.length;
+        return true;
+      }
+    }
+    return false;
+  }
+
+  private parseOr(): QueryNode {
+    const children = [this.parseAnd()];
+    while (this.acceptKeyword('OR', '||')) children.push(this.parseAnd());
+    return children.length === 1 ? children[0] : { type: 'or', children };
+  }
+
+  // Terms next to each other are ANDed
+  private parseAnd(): QueryNode {
+    const children = [this.parseNot()];
+    for (;;) {
+      this.skipSpace();
+      if (this.atEnd() || this.peek() === ')') break;
+      const before = this.pos;
+      if (this.acceptKeyword('OR', '||')) {
+        this.pos = before;
+        break;
+      }
+      this.acceptKeyword('AND', '&&');
+      children.push(this.parseNot());
+    }
+    return children.length === 1 ? children[0] : { type: 'and', children };
+  }
+
+  private parseNot(): QueryNode {
+    this.skipSpace();
+    const start = this.pos;
+    if (this.acceptKeyword('NOT')) return { type: 'not', operand: this.operand(start) };
+    if ((this.peek() === '-' || this.peek() === '!') && this.peek(1) !== undefined && !/\s/.test(this.peek(1))) {
+      this.pos++;
+      return { type: 'not', operand: this.operand(start) };
+    }
+    return this.parsePrimary();
+  }
+
+  private operand(notAt: number): QueryNode {
+    this.skipSpace();
+    if (this.atEnd()) throw new QuerySyntaxError('Expected something to negate', notAt);
+    return this.parseNot();
+  }
+
+  private parsePrimary(): QueryNode {
+    this.skipSpace();
+    const start = this.pos;
+    if (this.atEnd()) throw new QuerySyntaxError('Expected a search term', this.pos);
+    if (this.peek() === ')') throw new QuerySyntaxError('Expected a search term before ")"', this.pos);
+    if (this.peek() === '(') {
+      this.pos++;
+      this.skipSpace();
+      if (this.peek() === ')') throw new QuerySyntaxError('Empty parentheses', start);
+      const node = this.parseOr();
+      this.skipSpace();
+      if (this.peek() !== ')') throw new QuerySyntaxError('Missing closing parenthesis', start);
+      this.pos++;
+      return node;
+    }
+    if (this.peek() === '@') return this.parseRelativeTime();
+    return this.parseTerm();
+  }
+
+  private parseRelativeTime(): QueryNode {
+    const start = this.pos;
+    const match = /^@last\s*(\d+)\s*(s|m|min|h|d|w)(?![\w])/i.exec(this.text.slice(this.pos));
+    if (!match) throw new QuerySyntaxError('Expected a relative time like @last 15m (s, m, h, d or w)', start);
+    this.pos += match[0].length;
+    const unit = match[2].toLowerCase() === 'min' ? 'm' : match[2].toLowerCase();
+    return { type: 'last', durationMs: parseInt(match[1], 10) * DURATION_UNITS[unit] };
+  }
+
+  private parseTerm(): QueryNode {
+    const start = this.pos;
+    const match = /^([A-Za-z_][\w.-]*)\s*(>=|<=|!=|:|=|>|<)/.exec(this.text.slice(this.pos));
+    if (!match) return { type: 'text', value: this.parseValue(false), position: start };
+
+    const field = findField(match[1]);
+    const operator = match[2] as Operator;
+    // `Error:` or `note:x` is text from a message, not a field; only the
+    // comparison operators insist on a known field
+    if (!field && operator === ':') return { type: 'text', value: this.parseValue(false), position: start };
+    if (!field) {
+      throw new QuerySyntaxError(
+        `Unknown field "${match[1]}". Quote the text to search for it literally, or use meta.${match[1]} for a metadata field`,
+        start
+      );
+    }
+    this.pos += match[0].length;
+    this.skipSpace();
+    if (this.atEnd() || /[\s)]/.test(this.peek())) {
+      throw new QuerySyntaxError(`Expected a value after ${match[0].trim()}`, this.pos);
+    }
+    const valueStart = this.pos;
+    const value = this.parseValue(field.kind === 'keyword' || field.kind === 'number');
+
+    if (operator === ':' || operator === '=' || operator === '!=') {
+      const number = field.kind === 'number' && value.kind === 'text' ? Number(value.text) : undefined;
+      return { type: 'compare', field, operator, value, number: Number.isNaN(number) ? undefined : number };
+    }
+
+    // Ordering needs a number or a time
+    if (value.kind !== 'text' || (field.kind !== 'number' && field.kind !== 'time' && !field.name.startsWith(METADATA_PREFIX))) {
+      throw new QuerySyntaxError(`${operator} only works on numbers and times`, start);
+    }
+    const number = field.kind === 'time' ? parseTime(value.text) : Number(value.text);
+    if (Number.isNaN(number)) {
+      throw new QuerySyntaxError(
+        field.kind === 'time' ? `"${value.text}" is not a date or time` : `"${value.text}" is not a number`,
+        valueStart
+      );
+    }
+    return { type: 'compare', field, operator, value, number };
+  }
+
+  private parseValue(anchored: boolean): QueryValue {
+    const start = this.pos;
+    if (this.peek() === '"') {
+      let text = '';
+      this.pos++;
+      while (!this.atEnd() && this.peek() !== '"') {
+        if (this.peek() === '\\' && this.peek(1) !== undefined) this.pos++;
+        text += this.text[this.pos++];
+      }
+      if (this.atEnd()) throw new QuerySyntaxError('Missing closing quote', start);
+      this.pos++;
+      // Quoted text is literal: no wildcards
+      return { kind: 'text', text, pattern: null };
+    }
+
+    if (this.peek() === '/') {
+      // Only a regex when the closing slash ends the term, so paths like
+      // /api/users stay plain text
+      const match = /^\/((?:\\.|[^\\/])+)\/([imsu]*)(?=$|[\s)])/.exec(this.text.slice(this.pos));
+      if (match) {
+        this.pos += match[0].length;
+        try {
+          return { kind: 'regex', regex: new RegExp(match[1], match[2]) };
+        } catch (error) {
+          throw new QuerySyntaxError(error instanceof Error ? error.message : 'Invalid regular expression', start);
+        }
+      }
+    }
+
+    while (!this.atEnd() && !/[\s)]/.test(this.peek())) this.pos++;
+    const text = this.text.slice(start, this.pos);
+    if (!text) throw new QuerySyntaxError('Expected a value', start);
+    return { kind: 'text', text, pattern: globToRegex(text, anchored) };
+  }
+}
+
+// Null for an empty query; throws QuerySyntaxError for an invalid one
+export function parseQuery(text: string): QueryNode | null {
+  return new Parser(text).parse();
+}
+
+const matchesValue = (actual: string, value: QueryValue, wholeValue: boolean): boolean => {
+  if (value.kind === 'regex') return value.regex.test(actual);
+  if (value.pattern) return value.pattern.test(actual);
+  const lowerActual = actual.toLowerCase();
+  const lowerText = value.text.toLowerCase();
+  return wholeValue ? lowerActual === lowerText : lowerActual.includes(lowerText);
+};
+
+const compare = (node: Extract<QueryNode, { type: 'compare' }>, log: LogEntry): boolean => {
+  const raw = node.field.get(log);
+  // Every operator needs the field, `!=` included: `status!=200` leaves out
+  // entries with no status, which `-status:200` keeps
+  if (raw === undefined) return false;
+  if (node.operator === '!=') return !compare({ ...node, operator: '=' }, log);
+
+  if (node.operator === ':' || node.operator === '=') {
+    if (node.number !== undefined && Number(raw) === node.number) return true;
+    return matchesValue(String(raw), node.value, node.field.kind !== 'text');
+  }
+
+  const actual = node.field.kind === 'time' ? log.timestampMs : Number(raw);
+  const expected = node.number as number;
+  if (Number.isNaN(actual)) return false;
+  switch (node.operator) {
+    case '>': return actual > expected;
+    case '>=': return actual >= expected;
+    case '<': return actual < expected;
+    case '<=': return actual <= expected;
+  }
+};
+
+export interface CompiledQuery {
+  test: (log: LogEntry) => boolean;
+  // Where the free-text terms that are not negated match in `text`, the
+  // message as displayed
+  highlight: (log: LogEntry, text: string) => MatchRange[];
+}
+
+interface TermMatcher {
+  test: (log: LogEntry) => boolean;
+  ranges: (log: LogEntry, text: string) => MatchRange[];
+}
+
+const FUZZY_THRESHOLD = 0.35;
+
+const regexRanges = (regex: RegExp, text: string): MatchRange[] => {
+  const ranges: MatchRange[] = [];
+  for (const match of text.matchAll(new RegExp(regex.source, `${regex.flags}g`))) {
+    const start = match.index ?? 0;
+    if (match[0].length > 0) ranges.push([start, start + match[0].length]);
+  }
+  return ranges;
+};
+
+const substringRanges = (needle: string, text: string): MatchRange[] => {
+  const ranges: MatchRange[] = [];
+  const lowerText = text.toLowerCase();
+  const lowerNeedle = needle.toLowerCase();
+  let index = needle ? lowerText.indexOf(lowerNeedle) : -1;
+  while (index !== -1) {
+    ranges.push([index, index + needle.length]);
+    index = lowerText.indexOf(lowerNeedle, index + needle.length);
+  }
+  return ranges;
+};
+
+// A bare term searches the message and its stack trace
+const regexMatcher = (regex: RegExp): TermMatcher => ({
+  test: log => regex.test(log.message) || (log.stackTrace !== undefined && regex.test(log.stackTrace)),
+  ranges: (_log, text) => regexRanges(regex, text),
+});
+
+const exactMatcher = (value: QueryValue): TermMatcher => {
+  if (value.kind === 'regex') return regexMatcher(value.regex);
+  if (value.pattern) return regexMatcher(value.pattern);
+  const needle = value.text.toLowerCase();
+  return {
+    test: log => log.message.toLowerCase().includes(needle) || Boolean(log.stackTrace?.toLowerCase().includes(needle)),
+    ranges: (_log, text) => substringRanges(value.text, text),
+  };
+};
+
+// Fuse scores every entry once per term; the match positions it reports
+// are kept for highlighting, minus the stray letters it also reports
+const fuzzyMatcher = (term: string, fuse: Fuse<LogEntry>): TermMatcher => {
+  const matches = new Map<string, MatchRange[]>();
+  const minLength = Math.max(2, Math.ceil(term.length / 2));
+  fuse.search(term).forEach(result => {
+    const ranges = (result.matches ?? [])
+      .filter(match => match.key === 'message')
+      .flatMap(match => match.indices.map(([start, end]): MatchRange => [start, end + 1]))
+      .filter(([start, end]) => end - start >= minLength);
+    matches.set(result.item.id, ranges);
+  });
+  return {
+    test: log => matches.has(log.id),
+    // Positions are into the stored message, not a revealed one
+    ranges: (log, text) => (text === log.message ? matches.get(log.id) ?? [] : []),
+  };
+};
+
+const termMatcher = (node: Extract<QueryNode, { type: 'text' }>, mode: SearchMode, getFuse: () => Fuse<LogEntry>): TermMatcher => {
+  const { value } = node;
+  if (value.kind === 'regex') return regexMatcher(value.regex);
+  switch (mode) {
+    case 'regex':
+      try {
+        return regexMatcher(new RegExp(value.text, 'i'));
+      } catch (error) {
+        throw new QuerySyntaxError(error instanceof Error ? error.message : 'Invalid regular expression', node.position);
+      }
+    case 'word': {
+      const body = value.pattern ? globBody(value.text) : escapeRegex(value.text).replace(/[*?]/g, '\\$&');
+      return regexMatcher(new RegExp(`(?<!\\w)${body}(?!\\w)`, 'i'));
+    }
+    case 'fuzzy':
+      return fuzzyMatcher(value.text, getFuse());
+    default:
+      return exactMatcher(value);
+  }
+};
+
+const mergeRanges = (ranges: MatchRange[]): MatchRange[] => {
+  const merged: MatchRange[] = [];
+  [...ranges].sort((a, b) => a[0] - b[0]).forEach(([start, end]) => {
+    const last = merged[merged.length - 1];
+    if (last && start <= last[1]) last[1] = Math.max(last[1], end);
+    else merged.push([start, end]);
+  });
+  return merged;
+};
+
+// `@last` is measured back from the newest entry, not from now: uploaded
+// logs are rarely from the last few minutes. `mode` decides how bare terms
+// match; an invalid regex in regex mode throws QuerySyntaxError.
+export function compileQuery(query: QueryNode, logs: LogEntry[], mode: SearchMode = 'exact'): CompiledQuery {
+  let latest = -Infinity;
+  logs.forEach(log => {
+    latest = Math.max(latest, log.timestampMs);
+  });
+
+  let fuse: Fuse<LogEntry> | null = null;
+  const getFuse = () => {
+    fuse ??= new Fuse(logs, {
+      keys: ['message', 'stackTrace'],
+      includeMatches: true,
+      ignoreLocation: true,
+      threshold: FUZZY_THRESHOLD,
+      minMatchCharLength: 2,
+    });
+    return fuse;
+  };
+
+  // Matchers are built up front so errors surface before filtering starts
+  const matchers = new Map<QueryNode, TermMatcher>();
+  const highlighters: TermMatcher[] = [];
+  const prepare = (node: QueryNode, negated: boolean) => {
+    switch (node.type) {
+      case 'and':
+      case 'or':
+        node.children.forEach(child => prepare(child, negated));
+        break;
+      case 'not':
+        prepare(node.operand, !negated);
+        break;
+      case 'text': {
+        const matcher = termMatcher(node, mode, getFuse);
+        matchers.set(node, matcher);
+        if (!negated) highlighters.push(matcher);
+        break;
+      }
+      case 'compare':
+        if (!negated && node.field.name === 'message' && (node.operator === ':' || node.operator === '=')) {
+          highlighters.push(exactMatcher(node.value));
+        }
+        break;
+    }
+  };
+  prepare(query, false);
+
+  const evaluate = (node: QueryNode, log: LogEntry): boolean => {
+    switch (node.type) {
+      case 'and': return node.children.every(child => evaluate(child, log));
+      case 'or': return node.children.some(child => evaluate(child, log));
+      case 'not': return !evaluate(node.operand, log);
+      case 'compare': return compare(node, log);
+      case 'last': return log.timestampMs >= latest - node.durationMs;
+      case 'text': return (matchers.get(node) as TermMatcher).test(log);
+    }
+  };
+
+  return {
+    test: log => evaluate(query, log),
+    highlight: (log, text) => mergeRanges(highlighters.flatMap(matcher => matcher.ranges(log, text))),
+  };
+}
+
+export interface QuerySuggestion {
+  // Replaces the query text from `from` to the caret
+  insert: string;
+  label: string;
+  detail?: string;
+}
+
+// Values worth offering per field, from the loaded logs
+export function collectQueryValues(logs: LogEntry[]): Record<string, string[]> {
+  const values: Record<string, Set<string>> = {
+    level: new Set(['ERROR', 'WARN', 'INFO', 'DEBUG']),
+    component: new Set(),
+    source: new Set(),
+    method: new Set(),
+    status: new Set(),
+  };
+  logs.forEach(log => {
+    if (log.component) values.component.add(log.component);
+    if (log.source) values.source.add(log.source);
+    if (log.method) values.method.add(log.method);
+    if (log.responseCode) values.status.add(log.responseCode);
+  });
+  return Object.fromEntries(Object.entries(values).map(([field, set]) => [field, [...set].sort()]));
+}
+
+const MAX_SUGGESTIONS = 12;
+
+const RELATIVE_TIMES = ['@last 5m', '@last 15m', '@last 1h', '@last 24h', '@last 7d'];
+
+// Completions for the term under the caret: field names, known values of
+// the field being typed, or relative times
+export function getQuerySuggestions(
+  text: string,
+  caret: number,
+  knownValues: Record<string, string[]>
+): { from: number; suggestions: QuerySuggestion[] } {
+  let from = caret;
+  while (from > 0 && !/[\s(]/.test(text[from - 1])) from--;
+  // Negation is kept in front of the completed term
+  if (text[from] === '-' || text[from] === '!') from++;
+  const token = text.slice(from, caret);
+  if (!token) return { from, suggestions: [] };
+
+  if (token.startsWith('@')) {
+    const suggestions = RELATIVE_TIMES
+      .filter(option => option.startsWith(token.toLowerCase()) && option !== token)
+      .map(option => ({ insert: `${option} `, label: option, detail: 'Before the newest entry' }));
+    return { from, suggestions };
+  }
+
+  const valueMatch = /^([A-Za-z_][\w.-]*)(:|=|!=)(.*)$/.exec(token);
+  if (valueMatch) {
+    const [, name, operator, prefix] = valueMatch;
+    const field = findField(name);
+    const values = field ? knownValues[field.name] ?? [] : [];
+    const lowerPrefix = prefix.replace(/^"/, '').toLowerCase();
+    const suggestions = values
+      .filter(value => value.toLowerCase().startsWith(lowerPrefix) && value !== prefix)
+      .slice(0, MAX_SUGGESTIONS)
+      .map(value => ({
+        insert: `${name}${operator}${/[\s()"]/.test(value) ? `"${value.replace(/"/g, '\\"')}"` : value} `,
+        label: value,
+      }));
+    return { from, suggestions };
+  }
+
+  const lowerToken = token.toLowerCase();
+  const suggestions = QUERY_FIELDS
+    .filter(field => field.name.startsWith(lowerToken) && field.name !== lowerToken)
+    .map(field => ({ insert: `${field.name}:`, label: `${field.name}:`, detail: field.description }));
+  return { from, suggestions };
+}
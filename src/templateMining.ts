@@ -0,0 +1,127 @@
+// templateMining.ts
+// Drain-style grouping of log messages into templates with variable placeholders
+
+import { LogEntry, LogPattern } from './types';
+
+export const WILDCARD = '<*>';
+export const NUMBER_PLACEHOLDER = '<NUM>';
+
+// Tokens this similar to a template (share of identical positions) join it
+const SIMILARITY_THRESHOLD = 0.5;
+// Leading tokens that route a message down the parse tree
+const PREFIX_DEPTH = 2;
+// Beyond this, new prefix tokens share the wildcard branch
+const MAX_CHILDREN = 100;
+
+// Variable parts that are recognizable before tokenizing. Order matters: the
+// number rule would otherwise split UUIDs and addresses into pieces.
+const VARIABLE_PATTERNS: [RegExp, string][] = [
+  [/\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/gi, WILDCARD],
+  [/\b\d{1,3}(?:\.\d{1,3}){3}\b/g, WILDCARD],
+  [/\b0x[0-9a-f]+\b/gi, WILDCARD],
+  [/\b(?=[0-9a-f]*\d)[0-9a-f]{12,}\b/gi, WILDCARD],
+  [/(?<![\w.])-?\d+(?:\.\d+)?(?!\w|\.\d)/g, NUMBER_PLACEHOLDER],
+];
+
+const tokenize = (message: string): string[] =>
+  VARIABLE_PATTERNS
+    .reduce((text, [pattern, placeholder]) => text.replace(pattern, placeholder), message)
+    .split(/\s+/)
+    .filter(Boolean);
+
+interface Cluster {
+  tokens: string[];
+  entries: LogEntry[];
+}
+
+interface TreeNode {
+  children: Map<string, TreeNode>;
+  clusters: Cluster[];
+}
+
+const createNode = (): TreeNode => ({ children: new Map(), clusters: [] });
+
+const isVariable = (token: string) => token === WILDCARD || token === NUMBER_PLACEHOLDER || /\d/.test(token);
+
+// Share of positions where the template has the same literal token
+const similarity = (template: string[], tokens: string[]): number => {
+  if (template.length === 0) return 1;
+  const same = template.filter((token, i) => token !== WILDCARD && token === tokens[i]).length;
+  return same / template.length;
+};
+
+const wildcardCount = (tokens: string[]) => tokens.filter(token => token === WILDCARD).length;
+
+const findLeaf = (root: Map<number, TreeNode>, tokens: string[]): TreeNode => {
+  let node = root.get(tokens.length);
+  if (!node) {
+    node = createNode();
+    root.set(tokens.length, node);
+  }
+  for (const token of tokens.slice(0, PREFIX_DEPTH)) {
+    let key = isVariable(token) ? WILDCARD : token;
+    if (!node.children.has(key) && node.children.size >= MAX_CHILDREN) key = WILDCARD;
+    let child = node.children.get(key);
+    if (!child) {
+      child = createNode();
+      node.children.set(key, child);
+    }
+    node = child;
+  }
+  return node;
+};
+
+const toPattern = (cluster: Cluster, index: number): LogPattern => {
+  const levels: LogPattern['levels'] = { ERROR: 0, WARN: 0, INFO: 0, DEBUG: 0 };
+  let first = cluster.entries[0];
+  let last = cluster.entries[0];
+  cluster.entries.forEach(entry => {
+    levels[entry.level]++;
+    if (entry.timestampMs < first.timestampMs) first = entry;
+    if (entry.timestampMs > last.timestampMs) last = entry;
+  });
+  return {
+    id: `pattern-${index + 1}`,
+    template: cluster.tokens.join(' '),
+    count: cluster.entries.length,
+    firstSeen: first.timestamp,
+    lastSeen: last.timestamp,
+    levels,
+    logIds: cluster.entries.map(entry => entry.id),
+  };
+};
+
+// Most frequent pattern first; ids follow that order
+export function mineTemplates(logs: LogEntry[]): LogPattern[] {
+  const root = new Map<number, TreeNode>();
+  const clusters: Cluster[] = [];
+
+  logs.forEach(log => {
+    const tokens = tokenize(log.message);
+    const leaf = findLeaf(root, tokens);
+
+    let best: Cluster | null = null;
+    let bestScore = -1;
+    for (const cluster of leaf.clusters) {
+      const score = similarity(cluster.tokens, tokens);
+      // On a tie the more general template wins
+      if (score > bestScore || (score === bestScore && best && wildcardCount(cluster.tokens) > wildcardCount(best.tokens))) {
+        best = cluster;
+        bestScore = score;
+      }
+    }
+
+    if (best && bestScore >= SIMILARITY_THRESHOLD) {
+      best.tokens = best.tokens.map((token, i) => (token === tokens[i] ? token : WILDCARD));
+      best.entries.push(log);
+    } else {
+      const cluster = { tokens, entries: [log] };
+      leaf.clusters.push(cluster);
+      clusters.push(cluster);
+    }
+  });
+
+  return clusters
+    .sort((a, b) => b.entries.length - a.entries.length)
+    .map(toPattern);
+}
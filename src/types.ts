@@ -1,24 +1,62 @@
 export interface LogEntry {
   id: string;
+  // Normalized ISO 8601 (UTC)
   timestamp: string;
+  // The same instant in epoch milliseconds
+  timestampMs: number;
+  // The timestamp as written in the log; absent when the entry had none and
+  // inherited the time of the entry before it
+  rawTimestamp?: string;
+  // The file the entry came from, when several were loaded together
+  source?: string;
   level: 'ERROR' | 'WARN' | 'INFO' | 'DEBUG';
   message: string;
   component?: string;
   url?: string;
   responseCode?: string;
   headers?: Record<string, string>;
+  // HTTP request fields, filled in by the access log parsers
+  method?: string;
+  bytes?: number;
+  latencyMs?: number;
+  userAgent?: string;
+  clientIp?: string;
   metadata?: Record<string, any>;
+  // Continuation lines (stack trace frames, `Caused by:` ...) folded into this entry
+  stackTrace?: string;
 }
 
+// How plain words in the query match: as typed, approximately, as a regular
+// expression or as whole words
+export type SearchMode = 'exact' | 'fuzzy' | 'regex' | 'word';
+
+// [start, end) of a match in a string
+export type MatchRange = [number, number];
+
 export interface FilterOptions {
   timestampRange: {
     start: string;
     end: string;
   };
   logLevel: string;
-  keyword: string;
+  // Query language text, see query.ts
+  query: string;
+  searchMode: SearchMode;
   component: string;
   responseCode: string;
+  source: string;
+  // Exactly these entries, e.g. the evidence of a finding; empty for all
+  logIds: string[];
+}
+
+export type FindingSeverity = 'critical' | 'high' | 'medium' | 'low' | 'info';
+
+export interface AnalysisFinding {
+  text: string;
+  severity: FindingSeverity;
+  components: string[];
+  // LogEntry ids the finding is based on
+  logIds: string[];
 }
 
 export interface AnalysisResult {
@@ -29,17 +67,179 @@ export interface AnalysisResult {
     infoCount: number;
     debugCount: number;
   };
-  insights: string[];
-  recommendations: string[];
-  criticalIssues: string[];
+  insights: AnalysisFinding[];
+  recommendations: AnalysisFinding[];
+  criticalIssues: AnalysisFinding[];
+  // Volume per time bucket and the anomalies found in it
+  timeline?: ActivityTimeline;
+}
+
+// Bucket width in milliseconds, or picked from the time span of the logs
+export type BucketInterval = number | 'auto';
+
+export interface TimeBucket {
+  start: string;
+  end: string;
+  total: number;
+  levels: Record<LogEntry['level'], number>;
+}
+
+export type AnomalyKind = 'spike' | 'new-signature' | 'silent-component';
+
+export interface Anomaly {
+  kind: AnomalyKind;
+  // What was measured, e.g. "ERROR entries", "component auth", "5xx responses"
+  series: string;
+  component?: string;
+  // Start of the first bucket it was seen in
+  at: string;
+  description: string;
+  severity: FindingSeverity;
+  logIds: string[];
+}
+
+export interface ActivityTimeline {
+  intervalMs: number;
+  buckets: TimeBucket[];
+  anomalies: Anomaly[];
 }
 
 export interface MaskingRule {
   id: string;
   name: string;
   pattern: string;
+  // RegExp flags; the global flag is always added
+  flags?: string;
   replacement: string;
   enabled: boolean;
+  // Shipped with the app; built-in rules can be toggled and reordered but not edited
+  builtin?: boolean;
+  // Token prefix used in pseudonymize mode (`IP` -> `IP_1`). Rules without a
+  // prefix always redact. A named group `value` limits the token to that part
+  // of the match, e.g. `user=(?<value>\S+)` -> `user=USER_1`.
+  tokenPrefix?: string;
+}
+
+export type MaskingMode = 'redact' | 'pseudonymize';
+
+// Records that a token was shown unmasked; never holds the original value
+export interface RevealAuditEntry {
+  token: string;
+  location: string;
+  revealedAt: string;
+}
+
+export interface MaskingRuleHits {
+  ruleId: string;
+  ruleName: string;
+  count: number;
+}
+
+export interface MaskedFieldChange {
+  // `message`, `stackTrace`, `headers.Authorization`, `metadata.user`, ...
+  field: string;
+  original: string;
+  masked: string;
+}
+
+export interface MaskedEntryDiff {
+  logId: string;
+  ruleIds: string[];
+  changes: MaskedFieldChange[];
+}
+
+// A high-entropy string left in an entry that no masking rule touched
+export interface EntropyResidue {
+  logId: string;
+  field: string;
+  value: string;
+  entropy: number;
+}
+
+export interface MaskingReport {
+  generatedAt: string;
+  mode: MaskingMode;
+  totalEntries: number;
+  ruleHits: MaskingRuleHits[];
+  entries: MaskedEntryDiff[];
+  residue: EntropyResidue[];
+}
+
+// A likely secret found in the prompt right before it is sent
+export interface LeakFinding {
+  kind: string;
+  label: string;
+  lineNumber: number;
+  line: string;
+  match: string;
+  // Which prompt the line belongs to when large logs are sent in parts
+  promptLabel?: string;
+}
+
+// Recorded when the user sends a prompt despite leak scan findings
+export interface LeakScanOverride {
+  overriddenAt: string;
+  findingCount: number;
+  kinds: string[];
+}
+
+export type LLMProviderId = 'openai-compatible' | 'azure-openai' | 'anthropic' | 'ollama' | 'llama-cpp';
+
+export interface LLMSettings {
+  // 'local' keeps analysis in the browser with the heuristic analyzer
+  provider: LLMProviderId | 'local';
+  baseUrl: string;
+  // Deployment name for Azure OpenAI
+  model: string;
+  apiKey: string;
+  // Azure OpenAI only
+  apiVersion?: string;
+  // Logs that do not fit in one prompt are split into parts of at most this size
+  maxPromptTokens: number;
+  chunkBy: ChunkStrategy;
+  promptContent: PromptContent;
+}
+
+export type ChunkStrategy = 'time' | 'component';
+
+// What the AI receives: mined message templates with counts, or the log lines
+export type PromptContent = 'patterns' | 'lines';
+
+export interface LogPattern {
+  id: string;
+  // Message with variable parts replaced by <*> and <NUM>
+  template: string;
+  count: number;
+  firstSeen: string;
+  lastSeen: string;
+  levels: Record<LogEntry['level'], number>;
+  logIds: string[];
+}
+
+export interface LogChunk {
+  label: string;
+  logs: LogEntry[];
+}
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface ChatOptions {
+  // JSON schema the response should follow, for providers with structured output
+  responseSchema?: { name: string; schema: Record<string, unknown> };
+  // Streams the response when set; called with each new piece of text
+  onToken?: (delta: string) => void;
+  signal?: AbortSignal;
+}
+
+export interface LLMProvider {
+  id: LLMProviderId;
+  name: string;
+  defaults: Pick<LLMSettings, 'baseUrl' | 'model' | 'apiVersion'>;
+  requiresApiKey: boolean;
+  complete: (messages: ChatMessage[], settings: LLMSettings, options?: ChatOptions) => Promise<string>;
 }
 
 export interface UploadProgress {
@@ -47,3 +247,64 @@ export interface UploadProgress {
   total: number;
   percentage: number;
 }
+
+export type WorkerStage = 'reading' | 'parsing' | 'masking';
+
+// Progress of a long job in the log worker; `detail` names the file at hand
+export interface WorkerProgress extends UploadProgress {
+  stage: WorkerStage;
+  detail?: string;
+}
+
+export interface SelectedFile {
+  file: File;
+  // Path within a dropped or chosen folder, otherwise the file name
+  name: string;
+  // Archive members to load; every member when absent
+  members?: string[];
+}
+
+// A file inside a zip or tar archive, or the content of a gzipped file
+export interface ArchiveMember {
+  // Path within the archive
+  name: string;
+  // Bytes as stored in the archive, before any gzip of the member itself
+  size: number;
+  lastModified?: number;
+  // Why the member cannot be loaded, e.g. it is encrypted
+  unsupported?: string;
+}
+
+// `timestamp` is the text as found in the line, '' when there is none;
+// parseLogText normalizes it for the whole file at once. A parser that has
+// to rewrite the text first (`10/Oct/2000:13:55:36 -0700`) keeps the
+// original in `rawTimestamp`.
+export type ParsedLogFields = Omit<LogEntry, 'id' | 'timestampMs'>;
+
+export interface LogParser {
+  id: string;
+  name: string;
+  // Cheap check used for format auto-detection on a sample of lines
+  matches: (line: string) => boolean;
+  // Header/comment lines that belong to the format but carry no entry
+  isHeader?: (line: string) => boolean;
+  // Returns null when the line is not in this parser's format
+  parseLine: (line: string) => ParsedLogFields | null;
+}
+
+// How 03/04/2024 is read
+export type DateOrder = 'day-first' | 'month-first';
+
+export interface ParseOptions {
+  // IANA zone, 'UTC' or 'local' for timestamps that carry no offset
+  timeZone?: string;
+  // Anchors the year of syslog dates, e.g. the file's modification time; now by default
+  referenceDate?: Date;
+}
+
+export interface ParseResult {
+  logs: LogEntry[];
+  format: string;
+  // Only set when the file has numeric dates
+  dateOrder?: DateOrder;
+}
@@ -0,0 +1,35 @@
+// vault.ts
+// In-memory token -> original value map for revealing pseudonymized values
+// locally. Contents are never serialized, persisted or sent anywhere.
+
+export interface MaskingVault {
+  record: (token: string, original: string) => void;
+  size: () => number;
+  // Tokens in `text` that the vault can reveal, in order of first appearance
+  findTokens: (text: string) => string[];
+  reveal: (text: string) => string;
+  toJSON: () => string;
+}
+
+const TOKEN_PATTERN = /\b[A-Z][A-Z0-9]*_\d+\b/g;
+
+export function createMaskingVault(): MaskingVault {
+  const originals = new Map<string, string>();
+
+  return {
+    record: (token, original) => {
+      originals.set(token, original);
+    },
+    size: () => originals.size,
+    findTokens: text => {
+      const found = new Set<string>();
+      (text.match(TOKEN_PATTERN) || []).forEach(token => {
+        if (originals.has(token)) found.add(token);
+      });
+      return [...found];
+    },
+    reveal: text => text.replace(TOKEN_PATTERN, token => originals.get(token) ?? token),
+    // Guard against accidental JSON.stringify of the vault (reports, exports)
+    toJSON: () => '[masking vault contents are not serializable]',
+  };
+}
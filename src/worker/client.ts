@@ -0,0 +1,220 @@
+// worker/client.ts
+// Main-thread side of the log worker: one job per call, with progress and
+// cancellation, and bookkeeping of which log arrays the worker already holds
+
+import {
+  ActivityTimeline,
+  AnalysisResult,
+  ArchiveMember,
+  BucketInterval,
+  FilterOptions,
+  LogEntry,
+  LogPattern,
+  MaskingMode,
+  MaskingRule,
+  SelectedFile,
+  WorkerProgress,
+} from '../types';
+import { PseudonymTable } from '../pseudonymize';
+import {
+  DatasetMissingError,
+  isOutOfMemory,
+  MaskedUpload,
+  ParsedUpload,
+  UploadParseOptions,
+  UploadTooLargeError,
+  WorkerJob,
+  WorkerJobs,
+  WorkerMemoryError,
+  WorkerRequest,
+  WorkerResponse,
+} from './protocol';
+
+// Errors that keep their class across the worker boundary
+const WORKER_ERRORS: Record<string, new (message: string) => Error> = {
+  UploadTooLargeError,
+  WorkerMemoryError,
+};
+
+export interface WorkerJobOptions {
+  onProgress?: (progress: WorkerProgress) => void;
+  signal?: AbortSignal;
+}
+
+interface PendingJob {
+  resolve: (output: unknown) => void;
+  reject: (error: unknown) => void;
+  onProgress?: (progress: WorkerProgress) => void;
+}
+
+let worker: Worker | null = null;
+// Bumped whenever the worker is replaced, which forgets every dataset
+let generation = 0;
+let nextJobId = 1;
+let nextDataset = 1;
+const pending = new Map<number, PendingJob>();
+const datasets = new WeakMap<LogEntry[], { dataset: number; generation: number }>();
+
+const cancelled = () => new DOMException('Cancelled', 'AbortError');
+
+// Parsing and masking run without yielding, so a cancelled job cannot be
+// told to stop; the worker is ended instead and the next job starts another
+function stopWorker(reason: unknown) {
+  worker?.terminate();
+  worker = null;
+  generation++;
+  const jobs = [...pending.values()];
+  pending.clear();
+  jobs.forEach(job => job.reject(reason));
+}
+
+function getWorker(): Worker {
+  if (worker) return worker;
+  const created = new Worker(new URL('./logWorker.ts', import.meta.url), { type: 'module' });
+  created.onmessage = (event: MessageEvent<WorkerResponse>) => {
+    const response = event.data;
+    const job = pending.get(response.id);
+    if (!job) return;
+    if (response.type === 'progress') {
+      job.onProgress?.(response.progress);
+      return;
+    }
+    pending.delete(response.id);
+    if (response.type === 'result') {
+      job.resolve(response.output);
+    } else {
+      const ErrorClass = (response.name && WORKER_ERRORS[response.name]) || Error;
+      job.reject(response.missingDataset !== undefined ? new DatasetMissingError(response.missingDataset) : new ErrorClass(response.message));
+    }
+  };
+  created.onerror = (event) => {
+    console.error('Log worker crashed:', event.message);
+    stopWorker(
+      isOutOfMemory(event.message ?? '') ? new WorkerMemoryError() : new Error(event.message || 'The log worker stopped unexpectedly')
+    );
+  };
+  worker = created;
+  return created;
+}
+
+function runJob<K extends WorkerJob>(
+  job: K,
+  input: WorkerJobs[K]['input'],
+  { onProgress, signal }: WorkerJobOptions = {}
+): Promise<WorkerJobs[K]['output']> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(cancelled());
+      return;
+    }
+    const id = nextJobId++;
+    pending.set(id, { resolve: output => resolve(output as WorkerJobs[K]['output']), reject, onProgress });
+    signal?.addEventListener('abort', () => pending.has(id) && stopWorker(cancelled()), { once: true });
+    getWorker().postMessage({ id, job, input } as WorkerRequest);
+  });
+}
+
+const remember = (logs: LogEntry[], dataset: number) => {
+  datasets.set(logs, { dataset, generation });
+};
+
+// Logs the worker did not produce, or has since dropped, are sent over once
+async function datasetFor(logs: LogEntry[], options: WorkerJobOptions): Promise<number> {
+  const known = datasets.get(logs);
+  if (known && known.generation === generation) return known.dataset;
+  const dataset = nextDataset++;
+  await runJob('load', { logs, store: dataset }, options);
+  remember(logs, dataset);
+  return dataset;
+}
+
+async function withDataset<T>(logs: LogEntry[], options: WorkerJobOptions, task: (dataset: number) => Promise<T>): Promise<T> {
+  try {
+    return await task(await datasetFor(logs, options));
+  } catch (error) {
+    if (!(error instanceof DatasetMissingError)) throw error;
+    datasets.delete(logs);
+    return task(await datasetFor(logs, options));
+  }
+}
+
+export async function parseFilesInWorker(
+  files: SelectedFile[],
+  parseOptions: UploadParseOptions,
+  options: WorkerJobOptions = {}
+): Promise<ParsedUpload> {
+  const store = nextDataset++;
+  const upload = await runJob('parseFiles', { files, options: parseOptions, store }, options);
+  remember(upload.logs, store);
+  return upload;
+}
+
+export function listArchiveInWorker({ file, name }: SelectedFile, options: WorkerJobOptions = {}): Promise<ArchiveMember[]> {
+  return runJob('listArchive', { file, name }, options);
+}
+
+export async function parseTextInWorker(
+  text: string,
+  parseOptions: UploadParseOptions,
+  options: WorkerJobOptions = {}
+): Promise<ParsedUpload> {
+  const store = nextDataset++;
+  const upload = await runJob('parseText', { text, options: parseOptions, store }, options);
+  remember(upload.logs, store);
+  return upload;
+}
+
+// Without `pseudonyms` pseudonymize mode falls back to redaction. Their table
+// is sent along each time, since a cancelled job takes the worker with it.
+export function maskInWorker(
+  logs: LogEntry[],
+  rules: MaskingRule[],
+  mode: MaskingMode,
+  pseudonyms: { salt: string; table: PseudonymTable } | undefined,
+  options: WorkerJobOptions = {}
+): Promise<MaskedUpload> {
+  const state = pseudonyms && { salt: pseudonyms.salt, table: [...pseudonyms.table] };
+  return withDataset(logs, options, async dataset => {
+    const store = nextDataset++;
+    const masked = await runJob('mask', { dataset, store, rules, mode, pseudonyms: state }, options);
+    remember(masked.maskedLogs, store);
+    return masked;
+  });
+}
+
+// The log preview and the histogram ask for the same filtering at once;
+// they share one job
+let lastFilter: { logs: LogEntry[]; filters: FilterOptions; result: Promise<LogEntry[]> } | null = null;
+
+export function filterInWorker(logs: LogEntry[], filters: FilterOptions, options: WorkerJobOptions = {}): Promise<LogEntry[]> {
+  if (lastFilter && lastFilter.logs === logs && lastFilter.filters === filters) return lastFilter.result;
+  const result = withDataset(logs, options, async dataset => {
+    const positions = await runJob('filter', { dataset, filters }, options);
+    return Array.from(positions, position => logs[position]);
+  });
+  lastFilter = { logs, filters, result };
+  // A failed job is not worth sharing
+  result.catch(() => {
+    if (lastFilter?.result === result) lastFilter = null;
+  });
+  return result;
+}
+
+export function findHighlightedInWorker(logs: LogEntry[], filters: FilterOptions, options: WorkerJobOptions = {}): Promise<LogEntry[]> {
+  return withDataset(logs, options, async dataset => {
+    const positions = await runJob('highlighted', { dataset, filters }, options);
+    return Array.from(positions, position => logs[position]);
+  });
+}
+
+export function analyzeInWorker(logs: LogEntry[], bucketInterval: BucketInterval, options: WorkerJobOptions = {}): Promise<AnalysisResult> {
+  return withDataset(logs, options, dataset => runJob('analyze', { dataset, bucketInterval }, options));
+}
+
+export function timelineInWorker(logs: LogEntry[], bucketInterval: BucketInterval, options: WorkerJobOptions = {}): Promise<ActivityTimeline> {
+  return withDataset(logs, options, dataset => runJob('timeline', { dataset, bucketInterval }, options));
+}
+
+export function patternsInWorker(logs: LogEntry[], options: WorkerJobOptions = {}): Promise<LogPattern[]> {
+  return withDataset(logs, options, dataset => runJob('patterns', { dataset }, options));
+}
@@ -0,0 +1,241 @@
+// worker/logWorker.ts
+// Parsing, masking, filtering and local analysis, off the main thread so
+// large files do not freeze the tab. Files, and members of archives, are
+// streamed in and read line by line.
+
+import { LogEntry, LogParser, WorkerProgress, WorkerStage } from '../types';
+import { mergeSources, parseLogLines } from '../parsers';
+import { createNginxParser } from '../parsers/accessLog';
+import { maskLogsWithReport } from '../maskingReport';
+import { createPseudonymizer } from '../pseudonymize';
+import { createMaskingVault, MaskingVault } from '../vault';
+import { createLogPredicate, findHighlightedLogs } from '../logFilter';
+import { analyzeLogsLocally } from '../localAnalysis';
+import { archiveKind, listArchive, readArchive, streamChunks } from '../archive';
+import { detectAnomalies } from '../anomalyDetection';
+import { mineTemplates } from '../templateMining';
+import {
+  DatasetMissingError,
+  isOutOfMemory,
+  MAX_UPLOAD_SIZE,
+  UploadTooLargeError,
+  WorkerJob,
+  WorkerJobs,
+  WorkerMemoryError,
+  WorkerRequest,
+  WorkerResponse,
+} from './protocol';
+
+type Reporter = (stage: WorkerStage, loaded: number, total: number, detail?: string) => void;
+
+type JobHandler<K extends WorkerJob> = (
+  input: WorkerJobs[K]['input'],
+  report: Reporter
+) => WorkerJobs[K]['output'] | Promise<WorkerJobs[K]['output']>;
+
+// Raw and masked logs plus a spare; the least recently used goes first
+const MAX_DATASETS = 3;
+const datasets = new Map<number, LogEntry[]>();
+
+const storeDataset = (dataset: number, logs: LogEntry[]) => {
+  datasets.delete(dataset);
+  datasets.set(dataset, logs);
+  while (datasets.size > MAX_DATASETS) {
+    const oldest = datasets.keys().next().value;
+    if (oldest === undefined) break;
+    datasets.delete(oldest);
+  }
+};
+
+const getDataset = (dataset: number): LogEntry[] => {
+  const logs = datasets.get(dataset);
+  if (!logs) throw new DatasetMissingError(dataset);
+  storeDataset(dataset, logs);
+  return logs;
+};
+
+const preferredParsers = (nginxLogFormat: string): LogParser[] =>
+  nginxLogFormat.includes('$') ? [createNginxParser(nginxLogFormat.trim())] : [];
+
+// Lines are split off as the bytes arrive; the file is never held as one
+// string. `onText` is told how many bytes of text each chunk adds.
+async function readLines(chunks: AsyncIterable<Uint8Array>, onText: (bytes: number) => void): Promise<string[]> {
+  const decoder = new TextDecoder();
+  const lines: string[] = [];
+  let rest = '';
+  for await (const chunk of chunks) {
+    onText(chunk.byteLength);
+    const parts = (rest + decoder.decode(chunk, { stream: true })).split('\n');
+    rest = parts.pop() ?? '';
+    for (const part of parts) {
+      if (part.trim()) lines.push(part);
+    }
+  }
+  rest += decoder.decode();
+  if (rest.trim()) lines.push(rest);
+  return lines;
+}
+
+const handlers: { [K in WorkerJob]: JobHandler<K> } = {
+  parseFiles: async ({ files, options, store }, report) => {
+    const preferred = preferredParsers(options.nginxLogFormat);
+    const totalBytes = files.reduce((sum, { file }) => sum + file.size, 0);
+    let readBytes = 0;
+    const sources: { source: string; logs: LogEntry[] }[] = [];
+    const parsedFiles: WorkerJobs['parseFiles']['output']['files'] = [];
+    // Counted after inflating; a small archive can hold far more than the cap
+    let textBytes = 0;
+    const countText = (bytes: number) => {
+      textBytes += bytes;
+      if (textBytes > MAX_UPLOAD_SIZE) {
+        throw new UploadTooLargeError(
+          `The upload holds more than ${MAX_UPLOAD_SIZE / (1024 * 1024)}MB of text, more than fits in memory. Choose fewer or smaller files.`
+        );
+      }
+    };
+
+    const parseSource = (name: string, lines: string[], lastModified: number) => {
+      if (lines.length === 0) {
+        console.warn(`Skipping empty file ${name}`);
+        return;
+      }
+      // Syslog dates have no year; the file was written no later than it was last modified
+      const { logs, format, dateOrder } = parseLogLines(
+        lines,
+        preferred,
+        { timeZone: options.timeZone, referenceDate: new Date(lastModified) },
+        (parsed, total) => report('parsing', parsed, total, name)
+      );
+      if (logs.length === 0) return;
+      sources.push({ source: name, logs });
+      parsedFiles.push({ name, format, dateOrder });
+    };
+
+    for (const { file, name, members } of files) {
+      let loaded = 0;
+      const onRead = (bytes: number) => {
+        loaded += bytes;
+        report('reading', readBytes + loaded, totalBytes, name);
+      };
+      const kind = archiveKind(name);
+      if (!kind) {
+        parseSource(name, await readLines(streamChunks(file.stream(), onRead), countText), file.lastModified);
+      } else {
+        // Each member is a source of its own, named by its path in the
+        // archive. Names keep .gz, so app.log and app.log.gz stay apart.
+        for await (const member of readArchive(file, kind, name, onRead)) {
+          if (members && !members.includes(member.name)) continue;
+          const source = kind === 'gzip' ? name : `${name}/${member.name}`;
+          parseSource(source, await readLines(member.chunks, countText), member.lastModified ?? file.lastModified);
+        }
+      }
+      readBytes += file.size;
+    }
+
+    const logs = mergeSources(sources);
+    storeDataset(store, logs);
+    return { logs, files: parsedFiles };
+  },
+
+  listArchive: ({ file, name }, report) => {
+    const kind = archiveKind(name);
+    if (!kind) throw new Error(`${name} is not an archive`);
+    let loaded = 0;
+    return listArchive(file, kind, name, bytes => {
+      loaded += bytes;
+      report('reading', loaded, file.size, name);
+    });
+  },
+
+  parseText: ({ text, options, store }, report) => {
+    const { logs, format, dateOrder } = parseLogLines(
+      text.split('\n'),
+      preferredParsers(options.nginxLogFormat),
+      { timeZone: options.timeZone },
+      (parsed, total) => report('parsing', parsed, total)
+    );
+    storeDataset(store, logs);
+    return { logs, files: [{ name: '', format, dateOrder }] };
+  },
+
+  load: ({ logs, store }) => {
+    storeDataset(store, logs);
+  },
+
+  mask: ({ dataset, store, rules, mode, pseudonyms }, report) => {
+    // The table arrives from the page, which holds every token handed out so
+    // far; what this job adds goes back with the result
+    const vaultEntries: [string, string][] = [];
+    const vault: MaskingVault = {
+      ...createMaskingVault(),
+      record: (token, original) => {
+        vaultEntries.push([token, original]);
+      },
+    };
+    const table = new Map(pseudonyms?.table);
+    const known = table.size;
+    const pseudonymizer = mode === 'pseudonymize' && pseudonyms ? createPseudonymizer(pseudonyms.salt, vault, table) : undefined;
+
+    const { maskedLogs, report: maskingReport } = maskLogsWithReport(
+      getDataset(dataset),
+      rules,
+      mode,
+      { pseudonymizer },
+      (masked, total) => report('masking', masked, total)
+    );
+    storeDataset(store, maskedLogs);
+    // A Map iterates in insertion order, so the new entries come last
+    return { maskedLogs, report: maskingReport, vaultEntries, pseudonyms: [...table].slice(known) };
+  },
+
+  filter: ({ dataset, filters }) => {
+    const logs = getDataset(dataset);
+    const matches = createLogPredicate(logs, filters);
+    const positions: number[] = [];
+    logs.forEach((log, index) => {
+      if (matches(log)) positions.push(index);
+    });
+    return Uint32Array.from(positions);
+  },
+
+  highlighted: ({ dataset, filters }) => Uint32Array.from(findHighlightedLogs(getDataset(dataset), filters)),
+
+  analyze: ({ dataset, bucketInterval }) => analyzeLogsLocally(getDataset(dataset), { bucketInterval }),
+
+  timeline: ({ dataset, bucketInterval }) => detectAnomalies(getDataset(dataset), bucketInterval),
+
+  patterns: ({ dataset }) => mineTemplates(getDataset(dataset)),
+};
+
+const post = (response: WorkerResponse, transfer: Transferable[] = []) => self.postMessage(response, { transfer });
+
+// Progress goes out when the stage or file changes or the percentage moves
+const createReporter = (id: number): Reporter => {
+  let last: WorkerProgress | null = null;
+  return (stage, loaded, total, detail) => {
+    const percentage = total > 0 ? Math.min(100, Math.floor((loaded / total) * 100)) : 0;
+    if (last && last.stage === stage && last.detail === detail && last.percentage === percentage) return;
+    last = { stage, detail, loaded, total, percentage };
+    post({ id, type: 'progress', progress: last });
+  };
+};
+
+self.onmessage = async (event: MessageEvent<WorkerRequest>) => {
+  const { id, job, input } = event.data;
+  try {
+    const handler = handlers[job] as JobHandler<WorkerJob>;
+    const output = await handler(input, createReporter(id));
+    post({ id, type: 'result', output }, output instanceof Uint32Array ? [output.buffer] : []);
+  } catch (caught) {
+    const error = caught instanceof RangeError && isOutOfMemory(caught.message) ? new WorkerMemoryError() : caught;
+    // A missing dataset is sent again by the main thread, not a failure
+    if (!(error instanceof DatasetMissingError)) console.error(`Log worker job ${job} failed:`, caught);
+    post({
+      id,
+      type: 'error',
+      message: error instanceof Error ? error.message : String(error),
+      name: error instanceof UploadTooLargeError || error instanceof WorkerMemoryError ? error.name : undefined,
+      missingDataset: error instanceof DatasetMissingError ? error.dataset : undefined,
+    });
+  }
+};
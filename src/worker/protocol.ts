@@ -0,0 +1,118 @@
+// worker/protocol.ts
+// Messages between the main thread and the log worker. Logs the worker
+// produces or is sent are kept there as numbered datasets, so later jobs
+// refer to them by number instead of copying them again.
+
+import {
+  ActivityTimeline,
+  AnalysisResult,
+  ArchiveMember,
+  BucketInterval,
+  DateOrder,
+  FilterOptions,
+  LogEntry,
+  LogPattern,
+  MaskingMode,
+  MaskingReport,
+  MaskingRule,
+  SelectedFile,
+  WorkerProgress,
+} from '../types';
+
+// Text one upload may hold, across all its files. Files are streamed in, but
+// every line and then every entry is kept in the worker's memory, and the
+// entries again on the page; past this a tab runs out of memory.
+export const MAX_UPLOAD_SIZE = 200 * 1024 * 1024;
+
+export interface UploadParseOptions {
+  // A custom Nginx log_format, tried before the built-in formats
+  nginxLogFormat: string;
+  timeZone: string;
+}
+
+export interface ParsedUpload {
+  logs: LogEntry[];
+  // Files, or archive members, that produced entries, in the order they were given
+  files: { name: string; format: string; dateOrder?: DateOrder }[];
+}
+
+export interface MaskedUpload {
+  maskedLogs: LogEntry[];
+  report: MaskingReport;
+  // Pseudonyms first handed out by this job, for the vault on the main thread
+  vaultEntries: [string, string][];
+  // Pseudonym table entries added by this job
+  pseudonyms: [string, string][];
+}
+
+// The session salt and every pseudonym handed out so far, so tokens stay
+// stable across masking runs and log workers
+export interface PseudonymState {
+  salt: string;
+  table: [string, string][];
+}
+
+// `store` is the dataset number a job's logs are kept under; `dataset` the
+// number of logs stored earlier
+export interface WorkerJobs {
+  parseFiles: { input: { files: SelectedFile[]; options: UploadParseOptions; store: number }; output: ParsedUpload };
+  // Every member of a zip or tar archive, or the content of a gzipped file
+  listArchive: { input: { file: File; name: string }; output: ArchiveMember[] };
+  parseText: { input: { text: string; options: UploadParseOptions; store: number }; output: ParsedUpload };
+  load: { input: { logs: LogEntry[]; store: number }; output: void };
+  mask: {
+    input: { dataset: number; store: number; rules: MaskingRule[]; mode: MaskingMode; pseudonyms?: PseudonymState };
+    output: MaskedUpload;
+  };
+  // Positions of the matching entries within the dataset
+  filter: { input: { dataset: number; filters: FilterOptions }; output: Uint32Array };
+  // Positions of the matching entries whose message shows a search term
+  highlighted: { input: { dataset: number; filters: FilterOptions }; output: Uint32Array };
+  analyze: { input: { dataset: number; bucketInterval: BucketInterval }; output: AnalysisResult };
+  timeline: { input: { dataset: number; bucketInterval: BucketInterval }; output: ActivityTimeline };
+  patterns: { input: { dataset: number }; output: LogPattern[] };
+}
+
+export type WorkerJob = keyof WorkerJobs;
+
+export type WorkerRequest = {
+  [K in WorkerJob]: { id: number; job: K; input: WorkerJobs[K]['input'] };
+}[WorkerJob];
+
+export type WorkerResponse =
+  | { id: number; type: 'progress'; progress: WorkerProgress }
+  | { id: number; type: 'result'; output: unknown }
+  // `missingDataset`: a dataset the worker no longer holds; send it again.
+  // `name`: the error class, for the errors below
+  | { id: number; type: 'error'; message: string; name?: string; missingDataset?: number };
+
+export class UploadTooLargeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UploadTooLargeError';
+  }
+}
+
+// The messages engines give when a string, array or buffer cannot be
+// allocated. Other RangeErrors (an invalid date, a call stack overflow) are
+// bugs and keep their own message.
+const OUT_OF_MEMORY = /Invalid string length|Invalid array length|Array buffer allocation failed/i;
+
+export const isOutOfMemory = (message: string) => OUT_OF_MEMORY.test(message);
+
+export class WorkerMemoryError extends Error {
+  constructor(message = 'The log worker ran out of memory. Try fewer or smaller files.') {
+    super(message);
+    this.name = 'WorkerMemoryError';
+  }
+}
+
+export class DatasetMissingError extends Error {
+  dataset: number;
+
+  constructor(dataset: number) {
+    super(`Dataset ${dataset} is not loaded in the log worker`);
+    this.name = 'DatasetMissingError';
+    this.dataset = dataset;
+  }
+}
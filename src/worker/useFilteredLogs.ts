@@ -0,0 +1,45 @@
+// worker/useFilteredLogs.ts
+// The entries that pass the filters. Small uploads are filtered in place;
+// large ones in the log worker, keeping the last result until the next arrives.
+
+import { useEffect, useMemo, useState } from 'react';
+import { FilterOptions, LogEntry } from '../types';
+import { filterLogs } from '../logFilter';
+import { isAbortError } from '../llm/http';
+import { filterInWorker } from './client';
+
+// Below this, copying the logs to the worker costs more than it saves
+export const WORKER_FILTER_THRESHOLD = 50_000;
+
+export function useFilteredLogs(logs: LogEntry[], filters: FilterOptions): { filteredLogs: LogEntry[]; isFiltering: boolean } {
+  const inWorker = logs.length >= WORKER_FILTER_THRESHOLD;
+  const direct = useMemo(() => (inWorker ? null : filterLogs(logs, filters)), [inWorker, logs, filters]);
+  const [result, setResult] = useState<{ logs: LogEntry[]; filters: FilterOptions; filteredLogs: LogEntry[] } | null>(null);
+  // Bumped to ask again when another job's cancellation took this one down
+  const [attempt, setAttempt] = useState(0);
+
+  useEffect(() => {
+    if (!inWorker) return;
+    let isCurrent = true;
+    filterInWorker(logs, filters)
+      .then(filteredLogs => {
+        if (isCurrent) setResult({ logs, filters, filteredLogs });
+      })
+      .catch(error => {
+        if (!isCurrent) return;
+        if (isAbortError(error)) {
+          setAttempt(prev => prev + 1);
+          return;
+        }
+        console.error('Error filtering logs:', error);
+      });
+    return () => {
+      isCurrent = false;
+    };
+  }, [inWorker, logs, filters, attempt]);
+
+  if (direct) return { filteredLogs: direct, isFiltering: false };
+  // A result for other logs says nothing about these
+  const usable = result && result.logs === logs ? result : null;
+  return { filteredLogs: usable?.filteredLogs ?? [], isFiltering: !usable || usable.filters !== filters };
+}
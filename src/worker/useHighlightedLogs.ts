@@ -0,0 +1,48 @@
+// worker/useHighlightedLogs.ts
+// The filtered entries whose message shows a search term, for stepping from
+// match to match. Like the filtering, large uploads are searched in the log
+// worker, where a fuzzy search does not hold up the page.
+
+import { useEffect, useMemo, useState } from 'react';
+import { FilterOptions, LogEntry } from '../types';
+import { findHighlightedLogs } from '../logFilter';
+import { isAbortError } from '../llm/http';
+import { findHighlightedInWorker } from './client';
+import { WORKER_FILTER_THRESHOLD } from './useFilteredLogs';
+
+const NONE = new Set<LogEntry>();
+
+export function useHighlightedLogs(logs: LogEntry[], filters: FilterOptions): Set<LogEntry> {
+  const inWorker = logs.length >= WORKER_FILTER_THRESHOLD;
+  const direct = useMemo(
+    () => (inWorker ? null : new Set(findHighlightedLogs(logs, filters).map(position => logs[position]))),
+    [inWorker, logs, filters]
+  );
+  const [result, setResult] = useState<{ logs: LogEntry[]; filters: FilterOptions; highlighted: Set<LogEntry> } | null>(null);
+  // Bumped to ask again when another job's cancellation took this one down
+  const [attempt, setAttempt] = useState(0);
+
+  useEffect(() => {
+    if (!inWorker) return;
+    let isCurrent = true;
+    findHighlightedInWorker(logs, filters)
+      .then(highlighted => {
+        if (isCurrent) setResult({ logs, filters, highlighted: new Set(highlighted) });
+      })
+      .catch(error => {
+        if (!isCurrent) return;
+        if (isAbortError(error)) {
+          setAttempt(prev => prev + 1);
+          return;
+        }
+        console.error('Error searching logs:', error);
+      });
+    return () => {
+      isCurrent = false;
+    };
+  }, [inWorker, logs, filters, attempt]);
+
+  if (direct) return direct;
+  // Matches for other filters would point at the wrong entries
+  return result && result.logs === logs && result.filters === filters ? result.highlighted : NONE;
+}